@@ -24,6 +24,13 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		// node:test tracks the promises returned by test() itself
+		files: ["test/**/*.ts"],
+		rules: {
+			"@typescript-eslint/no-floating-promises": "off",
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
@@ -32,5 +39,7 @@ export default tseslint.config(
 		"version-bump.mjs",
 		"versions.json",
 		"main.js",
+		"test/run.mjs",
+		".test-build",
 	]),
 );
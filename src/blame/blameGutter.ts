@@ -31,63 +31,100 @@ const blameState = StateField.define<P4BlameResult | null>({
     },
 });
 
+/**
+ * Effect to update the number of revisions submitted after the one the vault has
+ */
+const setNewerRevisions = StateEffect.define<number>();
+
+/**
+ * State field to store the number of newer revisions on the server
+ */
+const newerRevisionsState = StateField.define<number>({
+    create() {
+        return 0;
+    },
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setNewerRevisions)) {
+                return effect.value;
+            }
+        }
+        return value;
+    },
+});
+
 /**
  * Widget that displays inline blame annotation
+ * Lines without blame (e.g. added locally) only show the newer revisions on the server.
  */
 class InlineBlameWidget extends WidgetType {
-    constructor(private blame: P4BlameLine) {
+    constructor(private blame: P4BlameLine | null, private newerRevisions: number) {
         super();
     }
 
     eq(other: InlineBlameWidget): boolean {
-        return other.blame.changelist === this.blame.changelist &&
-               other.blame.user === this.blame.user &&
-               other.blame.lineNumber === this.blame.lineNumber;
+        return other.blame?.changelist === this.blame?.changelist &&
+               other.blame?.user === this.blame?.user &&
+               other.blame?.lineNumber === this.blame?.lineNumber &&
+               other.newerRevisions === this.newerRevisions;
     }
 
     toDOM(): HTMLElement {
         const el = document.createElement("span");
         el.className = "p4-inline-blame";
+
+        if (this.blame) {
+            this.renderBlame(el, this.blame);
+        }
+        if (this.newerRevisions > 0) {
+            const newer = document.createElement("span");
+            newer.className = "p4-inline-blame-newer";
+            newer.textContent = `${this.blame ? " • " : ""}${this.newerRevisions} newer revision(s) on server`;
+            newer.title = "This note is not at head, sync it to get the latest revision";
+            el.appendChild(newer);
+        }
         
+        return el;
+    }
+
+    private renderBlame(el: HTMLElement, blame: P4BlameLine): void {
         // Format: "user • description (truncated) • date"
-        const user = this.blame.user.length > 10 
-            ? this.blame.user.substring(0, 10) + "…"
-            : this.blame.user;
+        const user = blame.user.length > 10 
+            ? blame.user.substring(0, 10) + "…"
+            : blame.user;
         
         // Get first line of description, truncated
-        const desc = this.getShortDescription();
+        const desc = this.getShortDescription(blame);
         
         let text = user;
         if (desc) {
             text += ` • ${desc}`;
         } else {
-            text += ` • #${this.blame.changelist}`;
+            text += ` • #${blame.changelist}`;
         }
-        if (this.blame.date) {
-            const formattedDate = this.formatDate(this.blame.date);
+        if (blame.date) {
+            const formattedDate = this.formatDate(blame.date);
             text += ` • ${formattedDate}`;
         }
         
         el.textContent = text;
         
         // Full info in tooltip
-        let tooltip = `Author: ${this.blame.user}\nChangelist: #${this.blame.changelist}`;
-        if (this.blame.date) {
-            tooltip += `\nDate: ${this.blame.date}`;
+        let tooltip = `Author: ${blame.user}\nChangelist: #${blame.changelist}`;
+        if (blame.date) {
+            tooltip += `\nDate: ${blame.date}`;
         }
-        if (this.blame.description) {
-            tooltip += `\n\n${this.blame.description}`;
+        if (blame.description) {
+            tooltip += `\n\n${blame.description}`;
         }
         el.title = tooltip;
-        
-        return el;
     }
 
-    private getShortDescription(): string {
-        if (!this.blame.description) return "";
+    private getShortDescription(blame: P4BlameLine): string {
+        if (!blame.description) return "";
         
         // Get first line only
-        const firstLine = this.blame.description.split("\n")[0] || "";
+        const firstLine = blame.description.split("\n")[0] || "";
         
         // Truncate to max 30 chars
         if (firstLine.length > 30) {
@@ -132,15 +169,16 @@ const inlineBlamePlugin = ViewPlugin.fromClass(
         }
 
         update(update: ViewUpdate) {
-            // Rebuild decorations when cursor moves, document changes, or blame data changes
-            if (update.selectionSet || update.docChanged || update.transactions.some(tr => tr.effects.some(e => e.is(setBlameData)))) {
+            // Rebuild decorations when cursor moves, document changes, or blame data or newer revisions change
+            if (update.selectionSet || update.docChanged || update.transactions.some(tr => tr.effects.some(e => e.is(setBlameData) || e.is(setNewerRevisions)))) {
                 this.decorations = this.buildDecorations(update.view);
             }
         }
 
         buildDecorations(view: EditorView): DecorationSet {
             const blameData = view.state.field(blameState, false);
-            if (!blameData || blameData.lines.length === 0) {
+            const newerRevisions = view.state.field(newerRevisionsState, false) ?? 0;
+            if ((!blameData || blameData.lines.length === 0) && newerRevisions === 0) {
                 return Decoration.none;
             }
 
@@ -150,14 +188,14 @@ const inlineBlamePlugin = ViewPlugin.fromClass(
             const lineNumber = cursorLine.number;
 
             // Find blame for current line
-            const blameLine = blameData.lines.find(b => b.lineNumber === lineNumber);
-            if (!blameLine) {
+            const blameLine = blameData?.lines.find(b => b.lineNumber === lineNumber) ?? null;
+            if (!blameLine && newerRevisions === 0) {
                 return Decoration.none;
             }
 
             // Create inline widget at end of line
             const widget = Decoration.widget({
-                widget: new InlineBlameWidget(blameLine),
+                widget: new InlineBlameWidget(blameLine, newerRevisions),
                 side: 1, // After the line content
             });
 
@@ -175,16 +213,18 @@ const inlineBlamePlugin = ViewPlugin.fromClass(
 export function createBlameExtension(): Extension {
     return [
         blameState,
+        newerRevisionsState,
         inlineBlamePlugin,
     ];
 }
 
 /**
  * Update blame data in an editor view
+ * @param newerRevisions Revisions of the file on the server after the one the vault has
  */
-export function updateBlameInView(view: EditorView, blameData: P4BlameResult | null): void {
+export function updateBlameInView(view: EditorView, blameData: P4BlameResult | null, newerRevisions: number = 0): void {
     view.dispatch({
-        effects: setBlameData.of(blameData),
+        effects: [setBlameData.of(blameData), setNewerRevisions.of(newerRevisions)],
     });
 }
 
@@ -73,8 +73,8 @@ export class P4BlameProvider {
         }
 
         // Check if file is in depot first
-        const isInDepot = await this.plugin.p4Manager.isFileInDepot(filePath);
-        if (!isInDepot) {
+        await this.plugin.p4Manager.ensureFileStates();
+        if (!this.plugin.p4Manager.fileStates.isInDepot(filePath)) {
             return null; // File not in Perforce, no blame data available
         }
 
@@ -133,21 +133,15 @@ export class P4BlameProvider {
             }
         }
 
-        // Fetch descriptions in parallel (limit to 5 concurrent)
-        const changelistArray = Array.from(changelists);
-        const batchSize = 5;
-        
-        for (let i = 0; i < changelistArray.length; i += batchSize) {
-            const batch = changelistArray.slice(i, i + batchSize);
-            await Promise.all(batch.map(async (cl) => {
-                try {
-                    const desc = await this.plugin.p4Manager.getChangelistDescription(cl);
-                    this.descriptionCache.set(cl, desc);
-                } catch {
-                    this.descriptionCache.set(cl, "");
-                }
-            }));
-        }
+        // Fetch descriptions in parallel (concurrency is capped by the P4Manager queue)
+        await Promise.all(Array.from(changelists).map(async (cl) => {
+            try {
+                const desc = await this.plugin.p4Manager.getChangelistDescription(cl);
+                this.descriptionCache.set(cl, desc);
+            } catch {
+                this.descriptionCache.set(cl, "");
+            }
+        }));
     }
 
     /**
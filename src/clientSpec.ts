@@ -0,0 +1,199 @@
+import type { P4ClientSpec, P4ViewCoverage, P4ViewMapping } from "./types";
+
+/** Tagged fields that hold a list, numbered View0, View1, ... */
+const LIST_FIELDS = ["View", "AltRoots", "ChangeView"];
+
+/** Tagged fields that are reported by p4 but not accepted back by `p4 client -i` */
+const READ_ONLY_FIELDS = ["Update", "Access"];
+
+/**
+ * Build a client spec from the tagged `p4 client -o` record
+ */
+export function parseClientSpec(fields: Record<string, string>): P4ClientSpec {
+    const view: P4ViewMapping[] = [];
+    for (let i = 0; fields[`View${i}`] !== undefined; i++) {
+        const mapping = parseViewLine(fields[`View${i}`]!);
+        if (typeof mapping !== "string") {
+            view.push(mapping);
+        }
+    }
+
+    return {
+        client: fields.Client ?? "",
+        owner: fields.Owner ?? "",
+        host: fields.Host ?? "",
+        description: (fields.Description ?? "").trimEnd(),
+        root: fields.Root ?? "",
+        options: (fields.Options ?? "").split(/\s+/).filter(Boolean),
+        submitOptions: fields.SubmitOptions ?? "",
+        lineEnd: fields.LineEnd ?? "",
+        stream: fields.Stream ?? "",
+        view,
+        fields,
+    };
+}
+
+/**
+ * Format a client spec as the form text read by `p4 client -i`
+ * Fields not modelled by P4ClientSpec are written back unchanged.
+ */
+export function formatClientSpec(spec: P4ClientSpec): string {
+    const fields: Record<string, string> = { ...spec.fields };
+    for (const key of Object.keys(fields)) {
+        // Lowercase keys are tagged-output extras (code, extraTag...), not spec fields
+        if (/^View\d+$/.test(key) || READ_ONLY_FIELDS.includes(key) || !/^[A-Z]/.test(key)) {
+            delete fields[key];
+        }
+    }
+    fields.Client = spec.client;
+    fields.Owner = spec.owner;
+    fields.Description = spec.description;
+    fields.Root = spec.root;
+    fields.Options = spec.options.join(" ");
+    fields.SubmitOptions = spec.submitOptions;
+    fields.LineEnd = spec.lineEnd;
+    if (spec.host) fields.Host = spec.host;
+    // Stream workspaces get their view from the stream
+    if (!spec.stream) {
+        spec.view.forEach((mapping, i) => fields[`View${i}`] = formatViewLine(mapping));
+    }
+
+    const lines: string[] = [];
+    const written = new Set<string>();
+    for (const key of Object.keys(fields)) {
+        const list = LIST_FIELDS.find(name => new RegExp(`^${name}\\d+$`).test(key));
+        if (list) {
+            if (written.has(list)) continue;
+            written.add(list);
+            lines.push(`${list}:`);
+            for (let i = 0; fields[`${list}${i}`] !== undefined; i++) {
+                lines.push(`\t${fields[`${list}${i}`]}`);
+            }
+        } else if (key === "Description") {
+            lines.push("Description:");
+            for (const line of (fields.Description || "").split("\n")) {
+                lines.push(`\t${line}`);
+            }
+        } else {
+            lines.push(`${key}:\t${fields[key]}`);
+        }
+        lines.push("");
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Parse a view line such as `-"//depot/my dir/..." //ws/...`
+ * Returns an error message if the line isn't a valid mapping.
+ */
+export function parseViewLine(line: string): P4ViewMapping | string {
+    const tokens = line.trim().match(/[-+&]?"[^"]*"|\S+/g) ?? [];
+    if (tokens.length !== 2) {
+        return "A mapping needs a depot path and a client path";
+    }
+
+    let [depotPath, clientPath] = tokens.map(token => token.replace(/"/g, "")) as [string, string];
+    let prefix: P4ViewMapping["prefix"] = "";
+    if (/^[-+&]/.test(depotPath)) {
+        prefix = depotPath[0] as P4ViewMapping["prefix"];
+        depotPath = depotPath.slice(1);
+    }
+    // Only the depot side may carry a prefix, but p4 tolerates a redundant one on the client side
+    if (/^[-+&]/.test(clientPath)) {
+        clientPath = clientPath.slice(1);
+    }
+    return { prefix, depotPath, clientPath };
+}
+
+/**
+ * Format a mapping as a view line, quoting paths that contain spaces
+ */
+export function formatViewLine(mapping: P4ViewMapping): string {
+    const quote = (path: string): string => /\s/.test(path) ? `"${path}"` : path;
+    return `${quote(mapping.prefix + mapping.depotPath)} ${quote(mapping.clientPath)}`;
+}
+
+/**
+ * Validate edited view lines, returning one message per invalid line
+ * Blank lines are ignored.
+ */
+export function validateView(lines: string[], clientName: string): string[] {
+    const errors: string[] = [];
+    lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        const mapping = parseViewLine(line);
+        const error = typeof mapping === "string" ? mapping : validateMapping(mapping, clientName);
+        if (error) {
+            errors.push(`Line ${index + 1}: ${error}`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * Check a single mapping, returning an error message or null
+ */
+function validateMapping(mapping: P4ViewMapping, clientName: string): string | null {
+    if (!mapping.depotPath.startsWith("//")) {
+        return `Depot path must start with //: ${mapping.depotPath}`;
+    }
+    if (!mapping.clientPath.toLowerCase().startsWith(`//${clientName.toLowerCase()}/`)) {
+        return `Client path must start with //${clientName}/: ${mapping.clientPath}`;
+    }
+    if (/\.\.\.\.|\*\*|\.\.\.\*|\*\.\.\./.test(mapping.depotPath + " " + mapping.clientPath)) {
+        return "Adjacent wildcards are not allowed";
+    }
+    // %%n positional wildcards may be reordered, so only the set has to match
+    const depotWildcards = wildcards(mapping.depotPath).sort();
+    const clientWildcards = wildcards(mapping.clientPath).sort();
+    if (depotWildcards.join(" ") !== clientWildcards.join(" ")) {
+        return "Both sides must use the same wildcards";
+    }
+    return null;
+}
+
+/**
+ * Wildcards of a path in order (..., * and %%n)
+ */
+function wildcards(path: string): string[] {
+    return path.match(/\.\.\.|\*|%%\d/g) ?? [];
+}
+
+/**
+ * Determine how much of a folder the view maps
+ * @param folder - client syntax path of the folder, e.g. //ws/notes
+ */
+export function getViewCoverage(view: P4ViewMapping[], folder: string): P4ViewCoverage {
+    const target = folder.replace(/\/+$/, "").toLowerCase() + "/";
+    let coverage: P4ViewCoverage = "none";
+
+    // Later lines override earlier ones
+    for (const mapping of view) {
+        const clientPath = mapping.clientPath.toLowerCase();
+        const literal = literalPrefix(clientPath);
+        const coversAll = clientPath === literal + "..." && literal.endsWith("/") && target.startsWith(literal);
+        const overlaps = target.startsWith(literal) || literal.startsWith(target);
+        if (!overlaps) continue;
+
+        if (mapping.prefix === "-") {
+            if (coversAll) {
+                coverage = "none";
+            } else if (coverage === "full") {
+                coverage = "partial";
+            }
+        } else if (coversAll) {
+            coverage = "full";
+        } else if (coverage === "none") {
+            coverage = "partial";
+        }
+    }
+    return coverage;
+}
+
+/**
+ * The part of a path before its first wildcard
+ */
+function literalPrefix(path: string): string {
+    const index = path.search(/\.\.\.|\*|%%\d/);
+    return index >= 0 ? path.slice(0, index) : path;
+}
@@ -1,7 +1,6 @@
 import { Notice } from "obsidian";
 import type ObsidianP4 from "./main";
 import { SOURCE_CONTROL_VIEW_CONFIG, HISTORY_VIEW_CONFIG } from "./constants";
-import { SubmitModal } from "./ui/modals/submitModal";
 import { ShelveModal, UnshelveModal } from "./ui/modals/shelveModal";
 
 /**
@@ -20,21 +19,80 @@ export function registerCommands(plugin: ObsidianP4): void {
                 return;
             }
 
-            try {
-                plugin.displayMessage("Syncing...");
-                const result = await plugin.p4Manager.sync();
-                if (result.files.length > 0) {
-                    plugin.displayMessage(`Synced ${result.files.length} file(s)`);
-                } else {
-                    plugin.displayMessage("Already up to date");
-                }
+            if (await plugin.syncWithPreview()) {
                 app.workspace.trigger("obsidian-p4:refresh-now");
-            } catch (error) {
-                plugin.displayError(error);
             }
         },
     });
 
+    // Cancel a running sync
+    plugin.addCommand({
+        id: "p4-cancel-sync",
+        name: "Cancel sync",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.isSyncing();
+            }
+            plugin.cancelSync();
+            return true;
+        },
+    });
+
+    // Sync the vault to a changelist, label, date or revision
+    plugin.addCommand({
+        id: "p4-sync-to-revision",
+        name: "Sync vault to changelist, label or date",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.p4Ready;
+            }
+            void plugin.openSyncToRevision(null);
+            return true;
+        },
+    });
+
+    // Sync the current note to a changelist, label, date or revision
+    plugin.addCommand({
+        id: "p4-sync-file-to-revision",
+        name: "Sync current file to changelist, label or date",
+        checkCallback: (checking) => {
+            const file = app.workspace.getActiveFile();
+            if (checking) {
+                return file !== null && plugin.p4Ready;
+            }
+            if (file) {
+                void plugin.openSyncToRevision(file);
+            }
+            return true;
+        },
+    });
+
+    // Return a pinned vault to head
+    plugin.addCommand({
+        id: "p4-sync-to-head",
+        name: "Sync vault to head",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.p4Ready && Object.keys(plugin.settings.pinnedRevisions).length > 0;
+            }
+            void plugin.syncVault().then((result) => {
+                if (result) {
+                    app.workspace.trigger("obsidian-p4:refresh-now");
+                }
+            });
+            return true;
+        },
+    });
+
+    // Switch connection profile
+    plugin.addCommand({
+        id: "p4-switch-profile",
+        name: "Switch connection profile",
+        callback: () => {
+            plugin.openProfileSwitcher();
+        },
+    });
+
     // Edit (checkout) current file
     plugin.addCommand({
         id: "p4-edit",
@@ -106,24 +164,7 @@ export function registerCommands(plugin: ObsidianP4): void {
         id: "p4-submit",
         name: "Submit default changelist",
         callback: async () => {
-            if (!plugin.p4Ready) {
-                new Notice("Perforce is not connected");
-                return;
-            }
-
-            const modal = new SubmitModal(app, plugin);
-            const description = await modal.openAndGetResult();
-
-            if (description) {
-                try {
-                    plugin.displayMessage("Submitting...");
-                    const changeNum = await plugin.p4Manager.submit("default", description);
-                    plugin.displayMessage(`Submitted changelist ${changeNum}`);
-                    app.workspace.trigger("obsidian-p4:refresh-now");
-                } catch (error) {
-                    plugin.displayError(error);
-                }
-            }
+            await plugin.openSubmit("default");
         },
     });
 
@@ -232,6 +273,72 @@ export function registerCommands(plugin: ObsidianP4): void {
         },
     });
 
+    // Open files changed outside Perforce
+    plugin.addCommand({
+        id: "p4-reconcile",
+        name: "Reconcile offline work",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.p4Ready;
+            }
+            void plugin.openReconcile();
+            return true;
+        },
+    });
+
+    // Try to reach the server again while offline
+    plugin.addCommand({
+        id: "p4-reconnect",
+        name: "Reconnect",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.offline;
+            }
+            void plugin.tryReconnect(true);
+            return true;
+        },
+    });
+
+    // Replay operations recorded while offline
+    plugin.addCommand({
+        id: "p4-replay-offline-work",
+        name: "Replay work recorded offline",
+        checkCallback: (checking) => {
+            if (checking) {
+                return plugin.p4Ready && plugin.settings.offlineJournal.length > 0;
+            }
+            void plugin.reviewOfflineJournal();
+            return true;
+        },
+    });
+
+    // Set up a workspace for the vault
+    plugin.addCommand({
+        id: "p4-setup-workspace",
+        name: "Set up workspace for this vault",
+        callback: async () => {
+            await plugin.openWorkspaceSetup();
+        },
+    });
+
+    // Open workspace (client spec) view
+    plugin.addCommand({
+        id: "p4-open-client-spec",
+        name: "Open workspace spec",
+        callback: async () => {
+            await plugin.openClientSpecView();
+        },
+    });
+
+    // Open shelf browser
+    plugin.addCommand({
+        id: "p4-open-shelves",
+        name: "Open shelf browser",
+        callback: async () => {
+            await plugin.openShelfView();
+        },
+    });
+
     // Shelve command
     plugin.addCommand({
         id: "p4-shelve",
@@ -0,0 +1,49 @@
+import type { P4ConnectionProfile, P4ConnectionSettings, P4PluginSettings } from "./types";
+
+/**
+ * Get the active connection profile, or null when the plain connection settings are used
+ */
+export function getActiveProfile(settings: P4PluginSettings): P4ConnectionProfile | null {
+    if (!settings.activeProfile) return null;
+    return settings.connectionProfiles.find(p => p.name === settings.activeProfile) ?? null;
+}
+
+/**
+ * Get the connection values currently in effect
+ */
+export function getActiveConnection(settings: P4PluginSettings): P4ConnectionSettings {
+    const profile = getActiveProfile(settings);
+    if (profile) {
+        return profile;
+    }
+    return {
+        p4Port: settings.p4Port,
+        p4User: settings.p4User,
+        p4Client: settings.p4Client,
+        p4Charset: settings.p4Charset,
+        p4Config: settings.p4Config,
+        trustFingerprint: settings.trustFingerprint,
+    };
+}
+
+/**
+ * Update connection values of the active profile (or the plain connection settings)
+ */
+export function updateActiveConnection(settings: P4PluginSettings, changes: Partial<P4ConnectionSettings>): void {
+    Object.assign(getActiveProfile(settings) ?? settings, changes);
+}
+
+/**
+ * Create a profile from a set of connection values
+ */
+export function createProfile(name: string, connection: P4ConnectionSettings): P4ConnectionProfile {
+    return {
+        name,
+        p4Port: connection.p4Port,
+        p4User: connection.p4User,
+        p4Client: connection.p4Client,
+        p4Charset: connection.p4Charset,
+        p4Config: connection.p4Config,
+        trustFingerprint: connection.trustFingerprint,
+    };
+}
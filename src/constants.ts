@@ -40,6 +40,42 @@ export function isEditableFile(filePath: string): boolean {
     return ext === "md" || ext === "markdown" || ext === "canvas";
 }
 
+/**
+ * Character sets offered for P4CHARSET (empty = leave unset)
+ */
+export const P4_CHARSETS = [
+    "",
+    "auto",
+    "none",
+    "utf8",
+    "utf8-bom",
+    "utf16",
+    "utf16-nobom",
+    "utf16le",
+    "utf16be",
+    "utf32",
+    "iso8859-1",
+    "iso8859-15",
+    "winansi",
+    "cp1251",
+    "koi8-r",
+    "shiftjis",
+    "eucjp",
+    "cp936",
+    "cp949",
+    "big5",
+];
+
+/**
+ * File names tried when discovering a P4CONFIG file from the vault root
+ */
+export const P4CONFIG_FILE_NAMES = [".p4config", "p4config.txt", ".p4env"];
+
+/**
+ * Ignore file name looked up in the vault folders when P4IGNORE isn't set
+ */
+export const P4IGNORE_DEFAULT_FILE_NAME = ".p4ignore";
+
 /**
  * Default plugin settings
  */
@@ -48,11 +84,27 @@ export const DEFAULT_SETTINGS: P4PluginSettings = {
     p4Port: "",
     p4User: "",
     p4Client: "",
+    p4Charset: "",
+    p4Config: "",
+    trustFingerprint: "",
+    connectionProfiles: [],
+    activeProfile: "",
     autoCheckout: true,
     autoAddNewFiles: true, // Automatically add new files to Perforce
     showStatusBar: true,
     syncOnStartup: true, // Disabled by default - can freeze on large workspaces
+    previewBeforeSync: true,
+    incomingCheckInterval: 5,
+    autoSyncIncoming: false,
+    ignoreRules: "",
+    pinnedRevisions: {},
+    offlineJournal: [],
     submitMessageTemplate: "vault update: {{date}}",
+    descriptionTemplates: [],
+    checkBeforeSubmit: true,
+    submitChecks: {},
+    requiredFrontmatter: "",
+    maxSubmitFileSize: 10,
     showNotices: true,
     refreshSourceControl: true,
     refreshInterval: 5000,
@@ -77,6 +129,15 @@ export const HISTORY_VIEW_CONFIG = {
     icon: "history",
 };
 
+/**
+ * Client spec (workspace) view configuration
+ */
+export const CLIENT_SPEC_VIEW_CONFIG = {
+    type: "p4-client-spec-view",
+    name: "P4 Workspace",
+    icon: "folder-tree",
+};
+
 /**
  * Diff view configuration
  */
@@ -95,6 +156,15 @@ export const MERGE_VIEW_CONFIG = {
     icon: "git-merge",
 };
 
+/**
+ * Shelf browser view configuration
+ */
+export const SHELF_VIEW_CONFIG = {
+    type: "p4-shelf-view",
+    name: "P4 Shelves",
+    icon: "archive",
+};
+
 /**
  * Action display names for UI
  */
@@ -0,0 +1,113 @@
+import type { P4Action, P4DescriptionTemplate, P4PluginSettings } from "./types";
+
+/**
+ * A file in the changelist, as seen by a description template
+ */
+export interface P4TemplateFile {
+    vaultPath: string;
+    action: P4Action;
+    /** Frontmatter of a note (null if it has none) */
+    frontmatter: Record<string, unknown> | null;
+}
+
+/**
+ * Values the placeholders of a description template are filled in from
+ */
+export interface P4TemplateContext {
+    files: P4TemplateFile[];
+    user: string;
+    client: string;
+    /** Jobs fixed by the changelist */
+    jobs: string[];
+    /** Formatted current date */
+    date: string;
+}
+
+/** Name of the template kept in submitMessageTemplate */
+export const DEFAULT_TEMPLATE_NAME = "Default";
+
+/** A placeholder such as {{files}} or {{frontmatter.status}} */
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Prefix of placeholders for frontmatter fields */
+const FRONTMATTER_PREFIX = "frontmatter.";
+
+/**
+ * Get the templates to pick from, the default template first
+ */
+export function getDescriptionTemplates(settings: P4PluginSettings): P4DescriptionTemplate[] {
+    return [
+        { name: DEFAULT_TEMPLATE_NAME, template: settings.submitMessageTemplate, folder: "" },
+        ...settings.descriptionTemplates,
+    ];
+}
+
+/**
+ * Get the template to start a description of these files from
+ * That is the template of the deepest folder holding all of them, or the first (default) template.
+ */
+export function getTemplateForFiles(templates: P4DescriptionTemplate[], vaultPaths: string[]): P4DescriptionTemplate | null {
+    let best: P4DescriptionTemplate | null = null;
+    let bestDepth = -1;
+    for (const template of templates) {
+        const folder = template.folder.replace(/^\/+|\/+$/g, "");
+        if (!folder || vaultPaths.length === 0) continue;
+        if (!vaultPaths.every(p => p.startsWith(`${folder}/`))) continue;
+        const depth = folder.split("/").length;
+        if (depth > bestDepth) {
+            best = template;
+            bestDepth = depth;
+        }
+    }
+    return best ?? templates[0] ?? null;
+}
+
+/**
+ * Get the title of a note (its file name without the extension)
+ */
+function getNoteTitle(vaultPath: string): string {
+    const name = vaultPath.split("/").pop() ?? vaultPath;
+    return name.replace(/\.md$/i, "");
+}
+
+/**
+ * Get the distinct values of a frontmatter field across the notes, lists are flattened
+ */
+function getFrontmatterValues(files: P4TemplateFile[], key: string): string[] {
+    const values: string[] = [];
+    for (const file of files) {
+        const value = file.frontmatter?.[key];
+        for (const item of Array.isArray(value) ? value as unknown[] : [value]) {
+            if (item === undefined || item === null || item === "") continue;
+            const text = typeof item === "object" ? JSON.stringify(item) : String(item as string | number | boolean);
+            if (!values.includes(text)) {
+                values.push(text);
+            }
+        }
+    }
+    return values;
+}
+
+/**
+ * Fill in the placeholders of a description template
+ * Supported: {{date}}, {{user}}, {{client}}, {{jobs}}, {{files}} (one per line),
+ * {{titles}} (titles of the notes) and {{frontmatter.<key>}} (values of a field in the notes).
+ * Unknown placeholders are left as they are.
+ */
+export function renderDescriptionTemplate(template: string, context: P4TemplateContext): string {
+    const notes = context.files.filter(f => f.vaultPath.toLowerCase().endsWith(".md") && f.action !== "delete");
+    return template.replace(PLACEHOLDER, (placeholder: string, name: string) => {
+        if (name.startsWith(FRONTMATTER_PREFIX)) {
+            return getFrontmatterValues(notes, name.slice(FRONTMATTER_PREFIX.length)).join(", ");
+        }
+        switch (name) {
+            case "date": return context.date;
+            case "user": return context.user;
+            case "client": return context.client;
+            case "jobs": return context.jobs.join(", ");
+            case "files": return context.files.map(f => `${f.vaultPath} (${f.action})`).join("\n");
+            case "titles": return notes.map(f => getNoteTitle(f.vaultPath)).join(", ");
+            default: return placeholder;
+        }
+    });
+}
@@ -0,0 +1,190 @@
+import type { P4FileState, P4FileStatus, P4OtherOpen } from "./types";
+
+/**
+ * Target covering the whole vault in incremental updates
+ */
+export const ALL_FILES = "...";
+
+/**
+ * Index key for a vault path (forward slashes, case-insensitive like the old cache lookups)
+ */
+function toKey(vaultPath: string): string {
+    return vaultPath.replace(/\\/g, "/").replace(/^\/+/, "").toLowerCase();
+}
+
+/**
+ * File name of a vault path
+ */
+function toName(vaultPath: string): string {
+    const key = toKey(vaultPath);
+    return key.slice(key.lastIndexOf("/") + 1);
+}
+
+/**
+ * Indexed state of every depot file in the vault, built from `p4 fstat`
+ * Loaded once in full, then updated for the files each operation touches.
+ */
+export class P4FileStateStore {
+    private states: Map<string, P4FileState> = new Map();
+    /** States by lower-case file name, for tab headers that only show the name */
+    private byName: Map<string, Set<P4FileState>> = new Map();
+    private loaded: boolean = false;
+
+    /**
+     * Replace all states (after a full `p4 fstat` of the vault)
+     */
+    replace(states: P4FileState[]): void {
+        this.states.clear();
+        this.byName.clear();
+        for (const state of states) {
+            this.set(state);
+        }
+        this.loaded = true;
+    }
+
+    /**
+     * Replace the states of the targets an operation touched
+     * @param targets Vault paths, a folder ending in "/..." for everything below it, or ALL_FILES
+     * @param states The new states of the targets, targets without a state are no longer depot files
+     */
+    update(targets: string[], states: P4FileState[]): void {
+        for (const target of targets) {
+            if (target === ALL_FILES) {
+                this.states.clear();
+                this.byName.clear();
+            } else if (target.endsWith("/...")) {
+                const prefix = toKey(target.slice(0, -3));
+                for (const [key, state] of this.states) {
+                    if (key.startsWith(prefix)) this.delete(state);
+                }
+            } else {
+                const state = this.states.get(toKey(target));
+                if (state) this.delete(state);
+            }
+        }
+        for (const state of states) {
+            this.set(state);
+        }
+    }
+
+    /**
+     * Forget all states, the next refresh loads them again
+     */
+    clear(): void {
+        this.states.clear();
+        this.byName.clear();
+        this.loaded = false;
+    }
+
+    /**
+     * Check if the states were loaded since the last clear
+     */
+    isLoaded(): boolean {
+        return this.loaded;
+    }
+
+    /**
+     * Get the state of a vault file (undefined if it isn't a depot file)
+     */
+    get(vaultPath: string): P4FileState | undefined {
+        return this.states.get(toKey(vaultPath));
+    }
+
+    /**
+     * Find a file by its name, with or without the .md extension (first match)
+     */
+    findByName(name: string): P4FileState | undefined {
+        const key = name.toLowerCase();
+        const [first] = this.byName.get(key) ?? this.byName.get(`${key}.md`) ?? [];
+        return first;
+    }
+
+    /**
+     * Check if a file is synced from the depot (the client has a revision)
+     */
+    isInDepot(vaultPath: string): boolean {
+        return (this.get(vaultPath)?.haveRev ?? 0) > 0;
+    }
+
+    /**
+     * Count the revisions of a file submitted after the one the client has
+     */
+    getNewerRevisions(vaultPath: string): number {
+        return countNewerRevisions(this.get(vaultPath));
+    }
+
+    /**
+     * Check if a file is opened on this client
+     */
+    isOpened(vaultPath: string): boolean {
+        return this.get(vaultPath)?.action !== undefined;
+    }
+
+    /**
+     * Get the files opened on this client
+     */
+    getOpenedFiles(): P4FileStatus[] {
+        const opened: P4FileStatus[] = [];
+        for (const state of this.states.values()) {
+            const status = toFileStatus(state);
+            if (status) opened.push(status);
+        }
+        return opened.sort((a, b) => a.vaultPath.localeCompare(b.vaultPath));
+    }
+
+    /**
+     * Get the vault files opened by other users or clients
+     */
+    getOtherOpens(): P4OtherOpen[] {
+        return Array.from(this.states.values()).flatMap(state => state.otherOpens);
+    }
+
+    private set(state: P4FileState): void {
+        const existing = this.states.get(toKey(state.vaultPath));
+        if (existing) this.delete(existing);
+
+        this.states.set(toKey(state.vaultPath), state);
+        const name = toName(state.vaultPath);
+        const named = this.byName.get(name);
+        if (named) {
+            named.add(state);
+        } else {
+            this.byName.set(name, new Set([state]));
+        }
+    }
+
+    private delete(state: P4FileState): void {
+        this.states.delete(toKey(state.vaultPath));
+        const name = toName(state.vaultPath);
+        const named = this.byName.get(name);
+        named?.delete(state);
+        if (named?.size === 0) {
+            this.byName.delete(name);
+        }
+    }
+}
+
+/**
+ * Count the revisions submitted after the one the client has (0 if up to date or not on the client)
+ */
+export function countNewerRevisions(state: P4FileState | undefined): number {
+    if (!state || state.haveRev === 0) return 0;
+    return Math.max(state.headRev - state.haveRev, 0);
+}
+
+/**
+ * Convert the state of an opened file to the status listed in changelists (null if not opened)
+ */
+export function toFileStatus(state: P4FileState): P4FileStatus | null {
+    if (!state.action) return null;
+    return {
+        depotFile: state.depotFile,
+        clientFile: state.clientFile,
+        vaultPath: state.vaultPath,
+        action: state.action,
+        changelist: state.changelist ?? "default",
+        type: state.type,
+        rev: state.workRev,
+        haveRev: state.haveRev || undefined,
+    };
+}
@@ -0,0 +1,138 @@
+/**
+ * Ignore rules in P4IGNORE syntax (the same as .gitignore):
+ * - blank lines and lines starting with # are skipped
+ * - ! re-includes files matched by an earlier rule
+ * - a trailing / only matches folders (and so everything in them)
+ * - a pattern containing / is relative to the folder of the rules, otherwise it matches at any depth
+ * - * and ? match within a path segment, ** matches across segments
+ */
+
+/**
+ * Built-in rules for Obsidian internals and temp files that never belong in the depot
+ * @param configDir The vault's config folder (usually .obsidian)
+ */
+export function getDefaultIgnoreRules(configDir: string): string {
+    return [
+        `${configDir}/workspace.json`,
+        `${configDir}/workspace-mobile.json`,
+        `${configDir}/cache`,
+        ".trash/",
+        ".DS_Store",
+        "*.tmp",
+        "*~",
+    ].join("\n");
+}
+
+/**
+ * A parsed ignore rule
+ */
+export interface P4IgnoreRule {
+    /** The rule as written */
+    text: string;
+    /** Where the rule comes from (e.g. a file path or "settings") */
+    source: string;
+    /** Line number in the source (1-based) */
+    line: number;
+    /** Vault folder the rule applies to ("" for the whole vault) */
+    base: string;
+    negate: boolean;
+    /** Only matches folders */
+    directory: boolean;
+    regex: RegExp;
+}
+
+/**
+ * Parse ignore rules, one per line
+ * @param base Vault folder the rules apply to, e.g. the folder of a P4IGNORE file
+ */
+export function parseIgnoreRules(text: string, source: string, base: string = ""): P4IgnoreRule[] {
+    const rules: P4IgnoreRule[] = [];
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) return;
+
+        let pattern = line;
+        const negate = pattern.startsWith("!");
+        if (negate) pattern = pattern.slice(1);
+        const directory = pattern.endsWith("/");
+        pattern = pattern.replace(/\/+$/, "");
+        // Only a slash before the end anchors the pattern to the root
+        const anchored = pattern.includes("/");
+        pattern = pattern.replace(/^\//, "");
+        if (!pattern) return;
+
+        const body = globToRegex(pattern);
+        rules.push({
+            text: line,
+            source,
+            line: index + 1,
+            base,
+            negate,
+            directory,
+            regex: new RegExp(anchored ? `^${body}$` : `(^|/)${body}$`),
+        });
+    });
+    return rules;
+}
+
+/**
+ * Find the rule that ignores a vault path, or null if the path isn't ignored
+ * The last matching rule wins, so a later ! rule can re-include a file.
+ */
+export function findIgnoreRule(rules: P4IgnoreRule[], vaultPath: string): P4IgnoreRule | null {
+    const normalized = vaultPath.replace(/\\/g, "/").split("/").filter(Boolean).join("/");
+
+    let match: P4IgnoreRule | null = null;
+    for (const rule of rules) {
+        if (rule.base && !normalized.startsWith(`${rule.base}/`)) continue;
+        // Match the path relative to the folder of the rule
+        const segments = normalized.slice(rule.base ? rule.base.length + 1 : 0).split("/");
+        const folders = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join("/"));
+        const candidates = rule.directory ? folders : [...folders, segments.join("/")];
+        if (candidates.some(candidate => rule.regex.test(candidate))) {
+            match = rule;
+        }
+    }
+    return match && !match.negate ? match : null;
+}
+
+/**
+ * Describe where a rule comes from, e.g. ".p4ignore:3"
+ */
+export function describeIgnoreRule(rule: P4IgnoreRule): string {
+    return `${rule.source}:${rule.line}`;
+}
+
+/**
+ * Check if a vault path is ignored
+ */
+export function isIgnored(rules: P4IgnoreRule[], vaultPath: string): boolean {
+    return findIgnoreRule(rules, vaultPath) !== null;
+}
+
+/**
+ * Convert a glob pattern to a regular expression body
+ */
+function globToRegex(glob: string): string {
+    let result = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]!;
+        if (char === "*" && glob[i + 1] === "*") {
+            // "**/" also matches no folders at all
+            if (glob[i + 2] === "/") {
+                result += "(?:.*/)?";
+                i += 2;
+            } else {
+                result += ".*";
+                i++;
+            }
+        } else if (char === "*") {
+            result += "[^/]*";
+        } else if (char === "?") {
+            result += "[^/]";
+        } else {
+            result += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return result;
+}
@@ -0,0 +1,121 @@
+import type ObsidianP4 from "./main";
+import type { P4SyncPreview } from "./types";
+
+/**
+ * Polls the server for changes submitted since the vault was last synced
+ * The cheap `p4 changes -m1` check runs every interval, the full `p4 sync -n`
+ * preview only when the latest change differs from the last check.
+ * In auto-sync mode incoming files that aren't opened are synced right away.
+ */
+export class P4IncomingWatcher {
+    private plugin: ObsidianP4;
+    private onUpdate: (incoming: P4SyncPreview | null) => void;
+    private timer: number | null = null;
+    private checking: boolean = false;
+    /** Latest submitted change seen by the last check (-1 to force a new preview) */
+    private lastChange: number = -1;
+    private incoming: P4SyncPreview | null = null;
+
+    constructor(plugin: ObsidianP4, onUpdate: (incoming: P4SyncPreview | null) => void) {
+        this.plugin = plugin;
+        this.onUpdate = onUpdate;
+    }
+
+    /**
+     * Start polling with the configured interval (restarts if already running)
+     */
+    start(): void {
+        this.stop();
+        const minutes = this.plugin.settings.incomingCheckInterval;
+        if (minutes <= 0) {
+            this.setIncoming(null);
+            return;
+        }
+        this.timer = window.setInterval(() => void this.check(), minutes * 60 * 1000);
+        void this.check();
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer !== null) {
+            window.clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Check again now, e.g. after a sync changed what the vault has
+     */
+    async refresh(): Promise<void> {
+        // Auto-sync runs inside a check, which previews again afterwards
+        if (this.checking) return;
+        this.lastChange = -1;
+        if (this.timer !== null) {
+            await this.check();
+        }
+    }
+
+    /**
+     * Forget the incoming changes (e.g. after switching servers)
+     */
+    clear(): void {
+        this.lastChange = -1;
+        this.setIncoming(null);
+    }
+
+    /**
+     * Changes found by the last check (null if not checked or polling is off)
+     */
+    getIncoming(): P4SyncPreview | null {
+        return this.incoming;
+    }
+
+    /**
+     * Look for incoming changes, notify about new ones and auto-sync if enabled
+     */
+    async check(): Promise<void> {
+        const { plugin } = this;
+        if (this.checking || !plugin.p4Ready || plugin.isSyncing()) return;
+
+        // A pinned vault is behind head on purpose
+        if (Object.keys(plugin.settings.pinnedRevisions).length > 0) {
+            this.setIncoming(null);
+            return;
+        }
+
+        this.checking = true;
+        try {
+            const latest = await plugin.p4Manager.getLatestChange();
+            if (latest === this.lastChange) return;
+            this.lastChange = latest;
+
+            let preview = await plugin.p4Manager.previewSync({ priority: "background" });
+            const notOpened = preview.files.filter(f => !f.opened);
+            if (plugin.settings.autoSyncIncoming && notOpened.length > 0) {
+                await plugin.syncVault(notOpened, false);
+                preview = await plugin.p4Manager.previewSync({ priority: "background" });
+            } else if (preview.changes.length > (this.incoming?.changes.length ?? 0)) {
+                plugin.displayMessage(`${preview.changes.length} incoming change(s) on the server`);
+            }
+            // Pick up the new head revisions, so the files show as not at head
+            await plugin.p4Manager.updateFileStates(preview.files.map(f => f.vaultPath));
+            this.setIncoming(preview);
+        } catch (error) {
+            // Try again with a new preview on the next check
+            this.lastChange = -1;
+            console.error("P4 incoming changes check failed:", error);
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    /**
+     * Store the incoming changes and report them
+     */
+    private setIncoming(incoming: P4SyncPreview | null): void {
+        this.incoming = incoming && incoming.files.length > 0 ? incoming : null;
+        this.onUpdate(this.incoming);
+    }
+}
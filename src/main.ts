@@ -1,15 +1,25 @@
 import {
     debounce,
+    getLinkpath,
     MarkdownView,
+    moment,
     Notice,
     Plugin,
     TFile,
     TFolder,
     type Debouncer,
+    type Events,
 } from "obsidian";
 import { P4Manager } from "./p4Manager";
+import { P4Error, P4NotLoggedInError, P4SubmitFailedError, P4UntrustedServerError } from "./p4Errors";
 import { P4SettingsTab, DEFAULT_SETTINGS } from "./settings";
-import { isTextFile, isEditableFile } from "./constants";
+import { isTextFile, isEditableFile, STATUS_MESSAGES } from "./constants";
+import { formatSyncProgress } from "./syncProgress";
+import { HEAD_REVISION, setPinnedRevision } from "./revisionSpec";
+import { describeIgnoreRule } from "./ignoreRules";
+import { recordOfflineOperation, removeOfflineOperations } from "./offlineJournal";
+import { DEFAULT_SUBMIT_CHECKS, runSubmitChecks, type P4SubmitCheck, type P4SubmitCheckFile } from "./submitChecks";
+import { getDescriptionTemplates, getTemplateForFiles, renderDescriptionTemplate } from "./descriptionTemplates";
 import { P4StatusBar } from "./statusBar";
 import { registerCommands } from "./commands";
 import {
@@ -17,35 +27,60 @@ import {
     HISTORY_VIEW_CONFIG,
     DIFF_VIEW_CONFIG,
     MERGE_VIEW_CONFIG,
+    CLIENT_SPEC_VIEW_CONFIG,
+    SHELF_VIEW_CONFIG,
 } from "./constants";
-import type { P4PluginSettings, P4FileStatus } from "./types";
+import type { P4PluginSettings, P4Changelist, P4ConflictFile, P4FileStatus, P4SubmitIssue, P4IncomingFile, P4JournalEntry, P4JournalReview, P4ReconcileFile, P4SyncOptions, P4SyncPreview, P4SyncProgress, P4SyncResult } from "./types";
 import { CurrentP4Action } from "./types";
 import { P4SourceControlView } from "./ui/sourceControl";
 import { P4DiffView } from "./ui/diffView";
 import { P4MergeView } from "./ui/mergeView";
 import { P4HistoryView } from "./ui/historyView";
+import { P4ClientSpecView } from "./ui/clientSpecView";
+import { P4ShelfView } from "./ui/shelfView";
 import { P4FileDecorators } from "./ui/fileDecorators";
+import { P4IncomingWatcher } from "./incomingWatcher";
 import { CheckoutModal } from "./ui/modals/checkoutModal";
 import { AddFileModal } from "./ui/modals/addFileModal";
+import { TrustModal } from "./ui/modals/trustModal";
+import { WorkspaceSetupModal } from "./ui/modals/workspaceSetupModal";
+import { SyncPreviewModal } from "./ui/modals/syncPreviewModal";
+import { SyncToRevisionModal } from "./ui/modals/syncToRevisionModal";
+import { ReconcileModal } from "./ui/modals/reconcileModal";
+import { SubmitModal } from "./ui/modals/submitModal";
+import { SubmitCheckModal } from "./ui/modals/submitCheckModal";
+import { OfflineJournalModal } from "./ui/modals/offlineJournalModal";
 import { DeleteFileModal } from "./ui/modals/deleteFileModal";
 import { PasswordModal } from "./ui/modals/passwordModal";
 import { TextInputModal } from "./ui/modals/textInputModal";
+import { ProfileSuggestModal } from "./ui/modals/profileModal";
+import { getActiveConnection, getActiveProfile, updateActiveConnection } from "./connectionProfiles";
 import { P4BlameProvider } from "./blame/blameProvider";
 import { createBlameExtension, updateBlameInView } from "./blame/blameGutter";
 import { EditorView } from "@codemirror/view";
 
+/** Minimum time between sync progress updates in milliseconds */
+const SYNC_PROGRESS_INTERVAL = 100;
+
+/** Time between attempts to reach the server while offline in milliseconds */
+const RECONNECT_INTERVAL = 60 * 1000;
+
 export default class ObsidianP4 extends Plugin {
     settings: P4PluginSettings;
     p4Manager: P4Manager;
     p4Ready: boolean = false;
+    /** The server can't be reached, operations are recorded in the offline journal */
+    offline: boolean = false;
     blameProvider: P4BlameProvider;
+    /** Checks run on the files of each submit */
+    readonly submitChecks: P4SubmitCheck[] = [...DEFAULT_SUBMIT_CHECKS];
     
     private statusBar: P4StatusBar | null = null;
     private settingsTab: P4SettingsTab | null = null;
     private fileDecorators: P4FileDecorators | null = null;
+    private incomingWatcher: P4IncomingWatcher | null = null;
     private debounceRefresh: Debouncer<[], void>;
     private autoCheckoutDebounce: Map<string, NodeJS.Timeout> = new Map();
-    private cachedOpenedFiles: P4FileStatus[] = [];
     /** Files skipped for this session (won't prompt again) */
     private skippedFilesSession: Set<string> = new Set();
     /** Files skipped once (will prompt again on next open) */
@@ -54,12 +89,18 @@ export default class ObsidianP4 extends Plugin {
     private skipNewFilesSession: boolean = false;
     /** Skip prompting for deleted files for this session */
     private skipDeleteFilesSession: boolean = false;
-    /** Cache of files synced from depot (to detect depot files on delete) */
-    private cachedDepotFiles: Set<string> = new Set();
     /** Flag to prevent re-entry when reverting a file modification */
     private isRevertingFile: boolean = false;
     /** Flag to prevent modify handler from interfering with merge resolution */
     public isResolvingMerge: boolean = false;
+    /** Pending login prompt, shared by all commands that fail with an expired session */
+    private loginPrompt: Promise<boolean> | null = null;
+    /** Cancels the running vault sync (null when no sync is running) */
+    private syncController: AbortController | null = null;
+    /** Fingerprint trusted during this session, used to stop retrying when trusting didn't help */
+    private lastTrustedFingerprint = "";
+    /** Retries the connection while offline (null when online) */
+    private reconnectTimer: number | null = null;
 
     async onload(): Promise<void> {
         console.debug("Loading Obsidian P4 plugin");
@@ -68,6 +109,7 @@ export default class ObsidianP4 extends Plugin {
 
         // Initialize P4 manager
         this.p4Manager = new P4Manager(this);
+        this.register(this.p4Manager.onQueueChange((state) => this.statusBar?.setQueueState(state)));
 
         // Initialize blame provider
         this.blameProvider = new P4BlameProvider(this);
@@ -79,9 +121,9 @@ export default class ObsidianP4 extends Plugin {
         this.settingsTab = new P4SettingsTab(this.app, this);
         this.addSettingTab(this.settingsTab);
 
-        // Set up refresh debouncer
+        // Set up refresh debouncer, reading the file states again picks up changes made outside Obsidian
         this.debounceRefresh = debounce(
-            () => this.refresh(),
+            () => this.refresh(true),
             this.settings.refreshInterval,
             true
         );
@@ -107,6 +149,16 @@ export default class ObsidianP4 extends Plugin {
             (leaf) => new P4MergeView(leaf, this)
         );
 
+        this.registerView(
+            CLIENT_SPEC_VIEW_CONFIG.type,
+            (leaf) => new P4ClientSpecView(leaf, this)
+        );
+
+        this.registerView(
+            SHELF_VIEW_CONFIG.type,
+            (leaf) => new P4ShelfView(leaf, this)
+        );
+
         // Register events
         this.registerEvents();
 
@@ -135,6 +187,10 @@ export default class ObsidianP4 extends Plugin {
         console.debug("Unloading Obsidian P4 plugin");
         this.statusBar?.remove();
         this.fileDecorators?.stop();
+        this.incomingWatcher?.stop();
+        if (this.reconnectTimer !== null) {
+            window.clearInterval(this.reconnectTimer);
+        }
         this.autoCheckoutDebounce.forEach((timeout) => clearTimeout(timeout));
         this.autoCheckoutDebounce.clear();
     }
@@ -151,7 +207,8 @@ export default class ObsidianP4 extends Plugin {
                 this.displayError("p4 command not found. Please install the Perforce CLI.");
                 break;
             case "not-in-workspace":
-                new Notice(`Not in a ${"Perforce"} workspace, some features may be unavailable.`, 5000);
+                // Offer to set up a workspace, reinitialize is called when done
+                await this.openWorkspaceSetup();
                 break;
             case "not-logged-in": {
                 // Prompt user to log in
@@ -162,12 +219,26 @@ export default class ObsidianP4 extends Plugin {
                 }
                 break;
             }
+            case "untrusted-server":
+                // Reinitialize is called after trusting, like after a login
+                await this.promptTrust(this.p4Manager.getRequirementsError());
+                break;
+            case "connection-failed":
+                this.displayError(this.p4Manager.getRequirementsError());
+                this.enterOfflineMode();
+                break;
+            case "charset-mismatch":
+                this.displayError(this.p4Manager.getRequirementsError());
+                break;
             case "valid":
-                // Populate caches BEFORE setting p4Ready to prevent race conditions
-                // where file operations happen before caches are populated
-                await this.refreshDepotFilesCache();
-                this.cachedOpenedFiles = await this.p4Manager.getOpenedFiles().catch(() => []);
+                // Load the file states BEFORE setting p4Ready to prevent race conditions
+                // where file operations happen before the states are known
+                await this.p4Manager.loadFileStates().catch(e => console.error("P4 file states error:", e));
                 this.p4Ready = true;
+                this.checkVaultMapping().catch(e => console.error("Workspace view check failed:", e));
+                if (this.settings.offlineJournal.length > 0) {
+                    void this.reviewOfflineJournal();
+                }
                 break;
         }
 
@@ -181,18 +252,20 @@ export default class ObsidianP4 extends Plugin {
         this.fileDecorators.start();
 
         // Sync on startup if enabled (run in background, don't block)
-        if (this.p4Ready && this.settings.syncOnStartup) {
-            this.displayMessage("Syncing...");
-            this.p4Manager.sync()
-                .then(() => {
-                    this.displayMessage("Synced on startup");
-                    this.refresh().catch(e => console.error("Refresh error:", e));
-                })
-                .catch((error) => this.displayError(error));
+        // A vault pinned to a revision is left alone, syncing would move it to head
+        const pinned = Object.keys(this.settings.pinnedRevisions).length > 0;
+        if (this.p4Ready && this.settings.syncOnStartup && !pinned) {
+            this.syncVault()
+                .then(() => this.refresh())
+                .catch(e => console.error("Refresh error:", e));
         } else if (this.p4Ready) {
             // Initial refresh (non-blocking)
             this.refresh().catch(e => console.error("Refresh error:", e));
         }
+
+        // Poll for incoming changes, a running startup sync checks again when it is done
+        this.incomingWatcher = new P4IncomingWatcher(this, (incoming) => this.onIncomingChanged(incoming));
+        this.incomingWatcher.start();
     }
 
     /**
@@ -209,7 +282,9 @@ export default class ObsidianP4 extends Plugin {
                 this.displayError("p4 command not found. Check the executable path.");
                 break;
             case "not-in-workspace":
-                this.displayError("Not in a Perforce workspace. Check your P4CLIENT setting.");
+                if (await this.openWorkspaceSetup()) {
+                    return; // Reinitialized with the new workspace
+                }
                 break;
             case "not-logged-in": {
                 // Prompt user to log in
@@ -219,15 +294,223 @@ export default class ObsidianP4 extends Plugin {
                 }
                 break;
             }
+            case "untrusted-server":
+                if (await this.promptTrust(this.p4Manager.getRequirementsError())) {
+                    return; // Reinitialized after trusting
+                }
+                break;
+            case "connection-failed":
+                this.displayError(this.p4Manager.getRequirementsError());
+                this.enterOfflineMode();
+                break;
+            case "charset-mismatch":
+                this.displayError(this.p4Manager.getRequirementsError());
+                break;
             case "valid":
                 this.p4Ready = true;
+                this.lastTrustedFingerprint = "";
+                this.leaveOfflineMode();
                 this.displayMessage("Connected to Perforce!");
+                this.checkVaultMapping().catch(e => console.error("Workspace view check failed:", e));
+                if (this.settings.offlineJournal.length > 0) {
+                    void this.reviewOfflineJournal();
+                }
                 break;
         }
 
         if (this.p4Ready) {
             await this.refresh();
+            this.incomingWatcher?.start();
+        }
+    }
+
+    /**
+     * Switch to another connection profile (empty name for the plain connection settings)
+     * Drops everything cached for the previous server before reconnecting.
+     */
+    async switchProfile(name: string): Promise<void> {
+        this.settings.activeProfile = name;
+        await this.saveSettings();
+
+        this.p4Ready = false;
+        this.leaveOfflineMode();
+        this.p4Manager.fileStates.clear();
+        this.blameProvider.invalidateAll();
+        this.fileDecorators?.clear();
+        this.incomingWatcher?.clear();
+        this.updateProfileStatus();
+        this.statusBar?.setPendingCount(0);
+        this.app.workspace.trigger("obsidian-p4:status-changed", []);
+
+        await this.reinitialize();
+    }
+
+    /**
+     * Open the connection profile picker
+     */
+    openProfileSwitcher(): void {
+        new ProfileSuggestModal(this.app, this.settings.connectionProfiles, (name) => {
+            this.switchProfile(name).catch((e) => this.displayError(e));
+        }).open();
+    }
+
+    /**
+     * Work offline until the server can be reached again
+     * Depot files can then be made writable, and edits, adds, deletes and moves are
+     * recorded in the journal to be replayed when the connection returns.
+     */
+    private enterOfflineMode(): void {
+        if (this.reconnectTimer === null) {
+            this.reconnectTimer = window.setInterval(() => void this.tryReconnect(), RECONNECT_INTERVAL);
+        }
+        if (this.offline) return;
+
+        this.offline = true;
+        this.statusBar?.setOffline(true, this.settings.offlineJournal.length);
+        this.displayMessage("Working offline, changes are recorded and replayed when the connection returns");
+        this.app.workspace.trigger("obsidian-p4:offline-changed", true);
+    }
+
+    /**
+     * Stop working offline (connected again or switched to another server)
+     */
+    private leaveOfflineMode(): void {
+        if (this.reconnectTimer !== null) {
+            window.clearInterval(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (!this.offline) return;
+
+        this.offline = false;
+        this.statusBar?.setOffline(false, this.settings.offlineJournal.length);
+        this.app.workspace.trigger("obsidian-p4:offline-changed", false);
+    }
+
+    /**
+     * Check if the server is back and reconnect, which offers to replay the journal
+     * @param showNotice Tell the user when the server still can't be reached
+     */
+    async tryReconnect(showNotice: boolean = false): Promise<void> {
+        const result = await this.p4Manager.checkRequirements();
+        if (result === "connection-failed") {
+            if (showNotice) {
+                this.displayError(this.p4Manager.getRequirementsError());
+            }
+            return;
+        }
+        await this.reinitialize();
+    }
+
+    /**
+     * Add an operation to the offline journal and save it
+     */
+    private async journalOfflineOperation(entry: P4JournalEntry): Promise<void> {
+        recordOfflineOperation(this.settings, entry);
+        await this.saveSettings();
+        this.statusBar?.setOffline(this.offline, this.settings.offlineJournal.length);
+        this.app.workspace.trigger("obsidian-p4:offline-changed", this.offline);
+    }
+
+    /**
+     * Make a depot file writable while offline and record the edit in the journal
+     */
+    private async editOffline(file: TFile): Promise<void> {
+        try {
+            await this.p4Manager.makeWritable(file.path);
+            await this.journalOfflineOperation({ action: "edit", vaultPath: file.path, time: Date.now() });
+            this.displayMessage(`Editing offline: ${file.name}`);
+            this.forceEditingMode();
+        } catch (error) {
+            this.displayError(error);
+        }
+    }
+
+    /**
+     * Record a new file in the offline journal, unless auto-add is off or it is ignored
+     */
+    private async handleOfflineCreate(file: TFile): Promise<void> {
+        if (!this.settings.autoAddNewFiles || this.skipNewFilesSession) return;
+        try {
+            // P4IGNORE is read with p4 set, which doesn't need the server
+            if (await this.p4Manager.getIgnoreRule(file.path)) return;
+        } catch (error) {
+            console.error("P4 ignore rules error:", error);
+        }
+        await this.journalOfflineOperation({ action: "add", vaultPath: file.path, time: Date.now() });
+    }
+
+    /**
+     * Prompt to edit a read-only depot file offline when it is opened
+     */
+    private async checkFileOfflineOnOpen(file: TFile): Promise<void> {
+        if (!isEditableFile(file.path) || this.skippedFilesSession.has(file.path)) return;
+        if (await this.p4Manager.isWritable(file.path)) return;
+
+        this.forceReadingMode();
+        this.skippedFilesOnce.delete(file.path);
+        await this.showCheckoutModal(file);
+    }
+
+    /**
+     * Check the offline journal against the server and replay the chosen operations
+     * Replayed and dropped operations leave the journal, failed ones stay for the next try.
+     */
+    async reviewOfflineJournal(): Promise<void> {
+        if (!this.p4Ready) {
+            new Notice("Perforce is not connected");
+            return;
+        }
+        const journal = this.settings.offlineJournal;
+        if (journal.length === 0) {
+            this.displayMessage("No offline work to replay");
+            return;
+        }
+
+        let reviews: P4JournalReview[];
+        let changelists: P4Changelist[];
+        try {
+            [reviews, changelists] = await Promise.all([
+                this.p4Manager.reviewJournal(journal),
+                this.p4Manager.getPendingChangelists(),
+            ]);
+        } catch (error) {
+            this.displayError(error);
+            return;
+        }
+
+        const choice = await new OfflineJournalModal(this.app, reviews, changelists).openAndGetResult();
+        if (!choice) {
+            return;
+        }
+
+        const failed: P4JournalEntry[] = [];
+        for (const review of choice.reviews) {
+            try {
+                await this.p4Manager.replayJournalEntry(review, choice.changelist);
+            } catch (error) {
+                console.error("P4 offline replay error:", error);
+                failed.push(review.entry);
+            }
         }
+        removeOfflineOperations(this.settings, journal.filter(entry => !failed.includes(entry)));
+        await this.saveSettings();
+        this.statusBar?.setOffline(false, this.settings.offlineJournal.length);
+        this.app.workspace.trigger("obsidian-p4:offline-changed", false);
+
+        if (choice.reviews.length === 0) {
+            this.displayMessage("Offline journal cleared");
+            return;
+        }
+        const replayed = choice.reviews.length - failed.length;
+        const resolves = choice.reviews.filter(r => r.status === "needs-resolve" && !failed.includes(r.entry)).length;
+        let message = `Replayed ${replayed} offline operation(s)`;
+        if (resolves > 0) message += `, ${resolves} file(s) need a resolve`;
+        if (failed.length > 0) {
+            this.displayError(`${message}, ${failed.length} failed and stay in the journal`);
+        } else {
+            this.displayMessage(message);
+        }
+        this.app.workspace.trigger("obsidian-p4:refresh-now");
     }
 
     /**
@@ -244,7 +527,7 @@ export default class ObsidianP4 extends Plugin {
         // Immediate refresh event (for user-initiated actions)
         this.registerEvent(
             this.app.workspace.on("obsidian-p4:refresh-now", () => {
-                void this.refresh();
+                void this.refresh(true);
             })
         );
 
@@ -265,6 +548,10 @@ export default class ObsidianP4 extends Plugin {
         // Check file status when opened - warn if not checked out
         this.registerEvent(
             this.app.workspace.on("file-open", (file) => {
+                if (this.offline && file) {
+                    void this.checkFileOfflineOnOpen(file);
+                    return;
+                }
                 if (!this.p4Ready || !file) return;
                 
                 // Check if file is in depot but not checked out
@@ -277,10 +564,19 @@ export default class ObsidianP4 extends Plugin {
             })
         );
 
+        // Update the newer revisions notice of the active note when its state changes
+        const reloadActiveBlame = (): void => {
+            const file = this.app.workspace.getActiveFile();
+            if (!this.p4Ready || !file || !this.settings.showInlineBlame) return;
+            this.loadBlameForActiveFile(file.path).catch(() => { /* logged by loadBlame */ });
+        };
+        this.registerEvent(this.app.workspace.on("obsidian-p4:status-changed", reloadActiveBlame));
+        this.registerEvent(this.app.workspace.on("obsidian-p4:incoming-changed", reloadActiveBlame));
+
         // Intercept mode switch to editing mode on non-checked-out files
         this.registerEvent(
             this.app.workspace.on("layout-change", () => {
-                if (!this.p4Ready) return;
+                if (!this.p4Ready && !this.offline) return;
                 void this.interceptModeSwitch();
             })
         );
@@ -288,9 +584,12 @@ export default class ObsidianP4 extends Plugin {
         // Handle file creation - mark for add
         this.registerEvent(
             this.app.vault.on("create", (file) => {
+                this.p4Manager.handleIgnoreFileChange(file.path);
                 if (file instanceof TFile && this.settings.autoAddNewFiles && this.p4Ready) {
                     // Debounce to avoid rapid-fire adds
                     void this.handleAutoAdd(file);
+                } else if (file instanceof TFile && this.offline) {
+                    void this.handleOfflineCreate(file);
                 }
             })
         );
@@ -298,8 +597,11 @@ export default class ObsidianP4 extends Plugin {
         // Handle file deletion
         this.registerEvent(
             this.app.vault.on("delete", (file) => {
+                this.p4Manager.handleIgnoreFileChange(file.path);
                 if (file instanceof TFile && this.p4Ready) {
                     void this.handleFileDelete(file.path);
+                } else if (file instanceof TFile && this.offline) {
+                    void this.journalOfflineOperation({ action: "delete", vaultPath: file.path, time: Date.now() });
                 }
             })
         );
@@ -307,6 +609,7 @@ export default class ObsidianP4 extends Plugin {
         // Block saves on non-checked out depot files
         this.registerEvent(
             this.app.vault.on("modify", (file) => {
+                this.p4Manager.handleIgnoreFileChange(file.path);
                 if (file instanceof TFile && this.p4Ready) {
                     void this.handleFileModify(file);
                 }
@@ -316,8 +619,21 @@ export default class ObsidianP4 extends Plugin {
         // Handle file rename
         this.registerEvent(
             this.app.vault.on("rename", (file, oldPath) => {
+                this.p4Manager.handleIgnoreFileChange(oldPath);
+                this.p4Manager.handleIgnoreFileChange(file.path);
                 if (file instanceof TFile && this.p4Ready) {
                     void this.handleFileRename(file, oldPath);
+                } else if (file instanceof TFile && this.offline) {
+                    void this.journalOfflineOperation({ action: "move", vaultPath: file.path, fromPath: oldPath, time: Date.now() });
+                }
+            })
+        );
+
+        // Hidden files such as .p4ignore aren't indexed by the vault, only raw changes report them
+        this.registerEvent(
+            (this.app.vault as Events).on("raw", (path: unknown) => {
+                if (typeof path === "string") {
+                    this.p4Manager.handleIgnoreFileChange(path);
                 }
             })
         );
@@ -384,6 +700,18 @@ export default class ObsidianP4 extends Plugin {
                         });
                 });
 
+                menu.addItem((item) => {
+                    item.setTitle("P4: sync to revision...")
+                        .setIcon("history")
+                        .onClick(() => void this.openSyncToRevision(file));
+                });
+
+                menu.addItem((item) => {
+                    item.setTitle("P4: why is this file ignored?")
+                        .setIcon("eye-off")
+                        .onClick(() => void this.explainIgnored(file));
+                });
+
                 menu.addItem((item) => {
                     item.setTitle("P4: rename...")
                         .setIcon("pencil")
@@ -404,8 +732,12 @@ export default class ObsidianP4 extends Plugin {
                 .setIcon("folder-plus")
                 .onClick(() => {
                     this.p4Manager.addFolder(folder.path)
-                        .then(() => {
-                            this.displayMessage(`Added folder to Perforce: ${folder.name}`);
+                        .then((count) => {
+                            if (count === 0) {
+                                this.displayMessage(`No new files to add in ${folder.name}`);
+                                return;
+                            }
+                            this.displayMessage(`Added ${count} file(s) from ${folder.name} to Perforce`);
                             this.app.workspace.trigger("obsidian-p4:refresh-now");
                         })
                         .catch((e) => this.displayError(e));
@@ -438,6 +770,12 @@ export default class ObsidianP4 extends Plugin {
                 });
         });
 
+        menu.addItem((item) => {
+            item.setTitle("P4: sync folder to revision...")
+                .setIcon("history")
+                .onClick(() => void this.openSyncToRevision(folder));
+        });
+
         menu.addItem((item) => {
             item.setTitle("P4: revert folder")
                 .setIcon("folder-x")
@@ -457,8 +795,7 @@ export default class ObsidianP4 extends Plugin {
      */
     private async promptAndRenameFile(file: TFile): Promise<void> {
         // Check if file is in depot
-        const isInDepot = await this.p4Manager.isFileInDepot(file.path);
-        if (!isInDepot) {
+        if (!this.p4Manager.fileStates.isInDepot(file.path)) {
             // Not a depot file - just use Obsidian's native rename
             this.displayMessage("File is not in Perforce. Use Obsidian's rename instead.");
             return;
@@ -538,18 +875,12 @@ export default class ObsidianP4 extends Plugin {
             return;
         }
         
-        try {
-            console.debug("P4 auto-checkout: checking", file.path);
-            const opened = await this.p4Manager.isFileOpened(file.path);
-            console.debug("P4 auto-checkout: isOpened =", opened);
-            
-            if (!opened) {
-                // Show modal to ask user if they want to check out
-                await this.showCheckoutModal(file);
-            }
-        } catch (error) {
-            // File might not be in depot - that's okay
-            console.debug("P4 auto-checkout error:", error);
+        const opened = await this.isOpenedNow(file.path);
+        console.debug("P4 auto-checkout:", file.path, "isOpened =", opened);
+
+        if (!opened) {
+            // Show modal to ask user if they want to check out
+            await this.showCheckoutModal(file);
         }
     }
 
@@ -572,40 +903,36 @@ export default class ObsidianP4 extends Plugin {
             return;
         }
 
-        try {
-            // First do a fast cached check
-            const isInDepotCached = this.isFileInDepotCache(file.path);
-            const isOpenedCached = this.isFileOpenedInCache(file.path);
-            
-            // If file is in depot cache but not opened, force read mode immediately
-            if (isInDepotCached && !isOpenedCached) {
-                this.forceReadingMode();
-            }
-            
-            // Then do the authoritative P4 check
-            const isInDepot = await this.p4Manager.isFileInDepot(file.path);
-            if (!isInDepot) {
-                // Not a Perforce file - skip
-                return;
-            }
+        if (!this.p4Manager.fileStates.isInDepot(file.path)) {
+            // Not a Perforce file - skip
+            return;
+        }
 
-            const opened = await this.p4Manager.isFileOpened(file.path);
-            if (!opened) {
-                // File is in depot but not checked out - force reading mode
-                console.debug("P4: File", file.path, "is not checked out (read-only)");
-                this.forceReadingMode();
-                
-                // Clear the once-skip flag if set (they opened it again)
-                this.skippedFilesOnce.delete(file.path);
-                
-                // Show the checkout modal (user can choose to checkout or skip)
-                await this.showCheckoutModal(file);
-            }
-        } catch {
-            // File might not be in depot - that's fine
+        if (!await this.isOpenedNow(file.path)) {
+            // File is in depot but not checked out - force reading mode
+            console.debug("P4: File", file.path, "is not checked out (read-only)");
+            this.forceReadingMode();
+
+            // Clear the once-skip flag if set (they opened it again)
+            this.skippedFilesOnce.delete(file.path);
+
+            // Show the checkout modal (user can choose to checkout or skip)
+            await this.showCheckoutModal(file);
         }
     }
 
+    /**
+     * Check if a file is opened, asking the server when the file states say it isn't
+     * Files opened outside Obsidian (p4v, the command line) only show up at the next reload,
+     * so this runs before a file is made read-only or a save is blocked.
+     */
+    private async isOpenedNow(filePath: string): Promise<boolean> {
+        if (this.p4Manager.fileStates.isOpened(filePath)) return true;
+        if (this.offline) return false;
+        await this.p4Manager.updateFileStates([filePath]);
+        return this.p4Manager.fileStates.isOpened(filePath);
+    }
+
     /**
      * Force the current active markdown view into reading (preview) mode
      */
@@ -625,11 +952,21 @@ export default class ObsidianP4 extends Plugin {
      * Show the checkout modal for a file
      */
     private async showCheckoutModal(file: TFile): Promise<void> {
-        const modal = new CheckoutModal(this.app, this, file);
+        // Ask the server who else has the file open, it may have changed since the last refresh
+        if (!this.offline) {
+            await this.p4Manager.updateFileStates([file.path]);
+        }
+        const otherOpens = this.p4Manager.fileStates.get(file.path)?.otherOpens ?? [];
+        const newerRevisions = this.offline ? 0 : this.p4Manager.fileStates.getNewerRevisions(file.path);
+        const modal = new CheckoutModal(this.app, this, file, this.offline, otherOpens, newerRevisions);
         const result = await modal.openAndGetResult();
 
         switch (result) {
             case "checkout":
+                if (this.offline) {
+                    await this.editOffline(file);
+                    break;
+                }
                 try {
                     await this.p4Manager.edit(file.path);
                     this.displayMessage(`Checked out: ${file.name}`);
@@ -651,6 +988,19 @@ export default class ObsidianP4 extends Plugin {
                     this.displayError(error);
                 }
                 break;
+            case "sync-checkout":
+                try {
+                    // Errors are displayed by the sync
+                    const synced = await this.syncToRevision(file, HEAD_REVISION);
+                    if (!synced?.complete) break;
+                    await this.p4Manager.edit(file.path);
+                    this.displayMessage(`Synced to head and checked out: ${file.name}`);
+                    this.forceEditingMode();
+                    this.app.workspace.trigger("obsidian-p4:refresh-now");
+                } catch (error) {
+                    this.displayError(error);
+                }
+                break;
             case "skip":
                 this.skippedFilesOnce.add(file.path);
                 break;
@@ -709,10 +1059,12 @@ export default class ObsidianP4 extends Plugin {
         }
 
         // Check if file is in depot but not checked out (fast cached check)
-        const isInDepot = this.isFileInDepotCache(file.path);
-        const isOpened = this.isFileOpenedInCache(file.path);
+        // Offline the caches may be empty, but depot files that aren't opened are read-only
+        const readOnly = this.offline
+            ? !(await this.p4Manager.isWritable(file.path))
+            : this.p4Manager.fileStates.isInDepot(file.path) && !await this.isOpenedNow(file.path);
 
-        if (isInDepot && !isOpened) {
+        if (readOnly) {
             // File is in depot but not checked out - show checkout modal
             this.isShowingModeCheckoutModal = true;
             
@@ -725,8 +1077,9 @@ export default class ObsidianP4 extends Plugin {
                 await this.showCheckoutModal(file);
                 
                 // After modal closes, check if file is now checked out
-                const nowOpened = this.isFileOpenedInCache(file.path) || 
-                                  await this.p4Manager.isFileOpened(file.path).catch(() => false);
+                const nowOpened = this.offline
+                    ? await this.p4Manager.isWritable(file.path)
+                    : this.p4Manager.fileStates.isOpened(file.path);
                 
                 if (nowOpened) {
                     // File was checked out - switch to edit mode
@@ -795,7 +1148,7 @@ export default class ObsidianP4 extends Plugin {
             }
             
             console.debug("P4 Blame: Updating view with blame data");
-            updateBlameInView(editorView, blameData);
+            updateBlameInView(editorView, blameData, this.p4Manager.fileStates.getNewerRevisions(filePath));
         } catch (error) {
             console.error("P4 Blame: Failed to load blame for", filePath, error);
             throw error;
@@ -843,10 +1196,33 @@ export default class ObsidianP4 extends Plugin {
         this.autoCheckoutDebounce.set(file.path, timeout);
     }
 
+    /**
+     * Tell which ignore rule keeps a file out of the depot, if any
+     */
+    async explainIgnored(file: TFile): Promise<void> {
+        try {
+            const rule = await this.p4Manager.getIgnoreRule(file.path, true);
+            if (rule) {
+                this.displayMessage(`${file.name} is ignored by "${rule.text}" (${describeIgnoreRule(rule)})`);
+            } else {
+                this.displayMessage(`${file.name} isn't ignored`);
+            }
+        } catch (error) {
+            this.displayError(error);
+        }
+    }
+
     /**
      * Show modal to add a new file to Perforce
      */
     private async showAddFileModal(file: TFile): Promise<void> {
+        // Ignored files are never offered
+        try {
+            if (await this.p4Manager.getIgnoreRule(file.path)) return;
+        } catch (error) {
+            console.error("P4 ignore rules error:", error);
+        }
+
         const modal = new AddFileModal(this.app, this, file);
         const result = await modal.openAndGetResult();
 
@@ -880,20 +1256,16 @@ export default class ObsidianP4 extends Plugin {
         // Skip if we're currently in the process of reverting or resolving a merge
         if (this.isRevertingFile || this.isResolvingMerge) return;
         
-        // Check if file is in depot (quick cached check)
-        if (!this.isFileInDepotCache(file.path)) {
+        // Check if file is in depot (quick indexed check)
+        if (!this.p4Manager.fileStates.isInDepot(file.path)) {
             return; // Not a depot file, allow modification
         }
         
-        // Check if file is checked out using CACHED data first (instant check)
-        // This is critical for blocking saves on file close which happen quickly
-        if (this.isFileOpenedInCache(file.path)) {
+        // Check if file is checked out, asking the server only when the file states say it isn't
+        if (await this.isOpenedNow(file.path)) {
             return; // File is checked out, allow modification
         }
         
-        // Double-check with P4 in case cache is stale (but don't wait for this to block)
-        // The cache check above should catch most cases
-        
         // File is in depot but NOT checked out - block the save
         this.isRevertingFile = true;
         
@@ -912,25 +1284,6 @@ export default class ObsidianP4 extends Plugin {
         }
     }
 
-    /**
-     * Check if a file is opened (checked out) using cached data
-     * This is a fast synchronous check for blocking saves
-     */
-    private isFileOpenedInCache(filePath: string): boolean {
-        const normalized = filePath.replace(/\\/g, "/").toLowerCase();
-        for (const opened of this.cachedOpenedFiles) {
-            const openedPath = opened.vaultPath.replace(/\\/g, "/").toLowerCase();
-            if (openedPath === normalized) {
-                return true;
-            }
-            // Also check by filename for partial matches
-            if (normalized.endsWith("/" + openedPath) || openedPath.endsWith("/" + normalized)) {
-                return true;
-            }
-        }
-        return false;
-    }
-
     /**
      * Handle file deletion - prompt to p4 delete if file was in depot
      */
@@ -941,8 +1294,8 @@ export default class ObsidianP4 extends Plugin {
             return;
         }
 
-        // Check if the file was in the depot (using cached data since file is already gone)
-        if (!this.isFileInDepotCache(filePath)) {
+        // Check if the file was in the depot (using the file states since the file is already gone)
+        if (!this.p4Manager.fileStates.isInDepot(filePath)) {
             // Not a depot file, just refresh
             this.debounceRefresh();
             return;
@@ -991,21 +1344,15 @@ export default class ObsidianP4 extends Plugin {
      */
     private async handleFileRename(file: TFile, oldPath: string): Promise<void> {
         try {
-            // Check if the OLD file was in the depot
-            const wasInDepot = await this.p4Manager.isFileInDepot(oldPath);
-            
-            if (!wasInDepot) {
+            // Check if the OLD file was in the depot (the file states still list it under the old path)
+            if (!this.p4Manager.fileStates.isInDepot(oldPath)) {
                 // Not a depot file, just refresh
                 this.debounceRefresh();
                 return;
             }
 
             // Check if the file was already checked out before the rename
-            // Since it's already renamed, we check if the NEW path is opened
-            // (P4 might have auto-tracked the rename if it was checked out)
-            const wasOpened = await this.p4Manager.isFileOpened(file.path).catch(() => false);
-            
-            if (wasOpened) {
+            if (await this.isOpenedNow(oldPath)) {
                 // File was checked out - do p4 move
                 try {
                     await this.p4Manager.move(oldPath, file.path);
@@ -1042,60 +1389,221 @@ export default class ObsidianP4 extends Plugin {
     }
 
     /**
-     * Refresh the plugin state
+     * Sync the vault, first showing the incoming changes if enabled in the settings
+     * Returns null if the sync was cancelled from the preview or failed.
      */
-    async refresh(): Promise<void> {
-        if (!this.p4Ready) return;
+    async syncWithPreview(): Promise<P4SyncResult | null> {
+        if (!this.settings.previewBeforeSync) {
+            return this.syncVault();
+        }
+        if (this.syncController) {
+            new Notice("A sync is already running");
+            return null;
+        }
 
+        let preview: P4SyncPreview;
         try {
-            this.statusBar?.setAction(CurrentP4Action.refreshing);
-            
-            this.cachedOpenedFiles = await this.p4Manager.getOpenedFiles();
-            this.statusBar?.setPendingCount(this.cachedOpenedFiles.length);
-            
-            // Also refresh the depot files cache
-            await this.refreshDepotFilesCache();
-            
-            this.app.workspace.trigger("obsidian-p4:status-changed", this.cachedOpenedFiles);
+            preview = await this.p4Manager.previewSync();
         } catch (error) {
-            console.error("P4 refresh error:", error);
-        } finally {
-            this.statusBar?.setAction(CurrentP4Action.idle);
+            this.displayError(error);
+            return null;
+        }
+        if (preview.files.length === 0) {
+            this.displayMessage("Already up to date");
+            return null;
+        }
+
+        const choice = await new SyncPreviewModal(this.app, preview).openAndGetResult();
+        if (!choice) {
+            return null;
+        }
+        return this.syncVault(choice.mode === "selected" ? choice.files : undefined);
+    }
+
+    /**
+     * Sync the vault (or only the given revisions), showing progress in the status bar and a notice
+     * Errors are displayed here. Returns null if the sync failed or another one is running.
+     */
+    async syncVault(files?: P4IncomingFile[], showNotice: boolean = true): Promise<P4SyncResult | null> {
+        const result = await this.runSyncWithProgress(syncOptions => files
+            ? this.p4Manager.syncFiles(files, syncOptions)
+            : this.p4Manager.sync(undefined, syncOptions), showNotice);
+        // The whole vault is at head now
+        if (result?.complete && !files) {
+            await this.updatePinnedRevision("", HEAD_REVISION);
         }
+        return result;
     }
 
     /**
-     * Refresh the cached depot files (files synced from depot)
+     * Sync the vault (null), a folder or a note to a revision, "#head" returns it to head
+     * The revision is remembered so the vault can show that it is pinned.
      */
-    private async refreshDepotFilesCache(): Promise<void> {
+    async syncToRevision(target: TFile | TFolder | null, revision: string): Promise<P4SyncResult | null> {
+        const vaultPath = !target || (target instanceof TFolder && target.isRoot()) ? "" : target.path;
+        const result = await this.runSyncWithProgress(syncOptions => {
+            const options = { ...syncOptions, revision };
+            if (!vaultPath) {
+                return this.p4Manager.sync(undefined, options);
+            }
+            return target instanceof TFolder
+                ? this.p4Manager.syncFolder(vaultPath, options)
+                : this.p4Manager.sync(vaultPath, options);
+        });
+        if (result?.complete) {
+            await this.updatePinnedRevision(vaultPath, revision);
+        }
+        return result;
+    }
+
+    /**
+     * Ask for a revision and sync the vault (null), a folder or a note to it
+     */
+    async openSyncToRevision(target: TFile | TFolder | null): Promise<void> {
+        const vaultPath = !target || (target instanceof TFolder && target.isRoot()) ? "" : target.path;
+        const name = vaultPath ? target!.name : "vault";
+        const revision = await new SyncToRevisionModal(this.app, name, this.settings.pinnedRevisions[vaultPath]).openAndGetResult();
+        if (!revision) {
+            return;
+        }
+        if (await this.syncToRevision(target, revision)) {
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+        }
+    }
+
+    /**
+     * Remember the revision a vault path was synced to and show it in the status bar
+     */
+    private async updatePinnedRevision(vaultPath: string, revision: string): Promise<void> {
+        setPinnedRevision(this.settings, vaultPath, revision);
+        await this.saveSettings();
+        this.statusBar?.setPinned(this.settings.pinnedRevisions);
+    }
+
+    /**
+     * Run a sync, showing progress in the status bar and optionally in a notice
+     * Errors are displayed here. Returns null if the sync failed or another one is running.
+     */
+    private async runSyncWithProgress(run: (syncOptions: P4SyncOptions) => Promise<P4SyncResult>, showNotice: boolean = true): Promise<P4SyncResult | null> {
+        if (this.syncController) {
+            if (showNotice) {
+                new Notice("A sync is already running");
+            }
+            return null;
+        }
+        const controller = new AbortController();
+        this.syncController = controller;
+
+        // Progress notice with a cancel button, kept open until the sync finishes
+        const notice = showNotice ? new Notice("", 0) : null;
+        notice?.messageEl.empty();
+        const textEl = notice?.messageEl.createDiv({ text: STATUS_MESSAGES.syncing });
+        const cancelBtn = notice?.messageEl.createEl("button", { text: "Cancel", cls: "p4-sync-cancel" });
+        cancelBtn?.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this.cancelSync();
+        });
+        this.statusBar?.setSyncProgress({ files: 0, bytes: 0, totalFiles: 0, totalBytes: 0, currentFile: "" });
+
+        // Updating the DOM for every file slows down large syncs
+        let lastUpdate = 0;
+        const onProgress = (progress: P4SyncProgress): void => {
+            const now = Date.now();
+            if (now - lastUpdate < SYNC_PROGRESS_INTERVAL && progress.files !== progress.totalFiles) return;
+            lastUpdate = now;
+            textEl?.setText(`${STATUS_MESSAGES.syncing} ${formatSyncProgress(progress)}`);
+            this.statusBar?.setSyncProgress(progress);
+        };
+
         try {
-            this.cachedDepotFiles = await this.p4Manager.getHaveFiles();
+            const result = await run({ onProgress, signal: controller.signal });
+            const count = result.files.length;
+            if (!result.complete) {
+                this.displayMessage(`Sync cancelled after ${count} file(s)`);
+            } else if (result.errors.length > 0) {
+                new Notice(`Synced ${count} file(s), ${result.errors.length} could not be synced:\n\n${result.errors.slice(0, 5).join("\n")}`, 10000);
+            } else if (count > 0) {
+                this.displayMessage(`Synced ${count} file(s)`);
+            } else {
+                this.displayMessage("Already up to date");
+            }
+            return result;
         } catch (error) {
-            console.error("P4 depot files cache error:", error);
+            this.displayError(error);
+            return null;
+        } finally {
+            this.syncController = null;
+            notice?.hide();
+            this.statusBar?.setSyncProgress(null);
+            // What is incoming has changed
+            void this.incomingWatcher?.refresh();
         }
     }
 
     /**
-     * Check if a file path is in the depot cache
+     * Show the incoming changes found by the background check
+     */
+    private onIncomingChanged(incoming: P4SyncPreview | null): void {
+        this.statusBar?.setIncoming(incoming);
+        this.app.workspace.trigger("obsidian-p4:incoming-changed", incoming);
+    }
+
+    /**
+     * Changes on the server that the vault hasn't synced yet (null if none or not checked)
+     */
+    getIncoming(): P4SyncPreview | null {
+        return this.incomingWatcher?.getIncoming() ?? null;
+    }
+
+    /**
+     * Apply changed incoming check settings
+     */
+    restartIncomingWatcher(): void {
+        this.incomingWatcher?.start();
+    }
+
+    /**
+     * Cancel the running vault sync, returns false if none is running
      */
-    isFileInDepotCache(filePath: string): boolean {
-        if (this.cachedDepotFiles.has(filePath)) return true;
-        // Try with normalized slashes
-        const normalized = filePath.replace(/\\/g, "/");
-        if (this.cachedDepotFiles.has(normalized)) return true;
-        // Case-insensitive check
-        const lower = normalized.toLowerCase();
-        for (const cachedPath of this.cachedDepotFiles) {
-            if (cachedPath.toLowerCase() === lower) return true;
+    cancelSync(): boolean {
+        if (!this.syncController) {
+            return false;
         }
-        return false;
+        this.syncController.abort();
+        return true;
+    }
+
+    /**
+     * Check if a vault sync is running
+     */
+    isSyncing(): boolean {
+        return this.syncController !== null;
     }
 
     /**
-     * Get cached opened files
+     * Refresh the plugin state
+     * Operations keep the file states current, reloading picks up what changed outside
+     * the plugin: files opened in p4v or the command line, other users' opens and submits.
+     * @param reload Read all file states from the server again
      */
-    getCachedOpenedFiles(): P4FileStatus[] {
-        return this.cachedOpenedFiles;
+    async refresh(reload: boolean = false): Promise<void> {
+        if (!this.p4Ready) return;
+
+        try {
+            this.statusBar?.setAction(CurrentP4Action.refreshing);
+
+            if (reload || !this.p4Manager.fileStates.isLoaded()) {
+                await this.p4Manager.loadFileStates();
+            }
+            const openedFiles = this.p4Manager.fileStates.getOpenedFiles();
+            this.statusBar?.setPendingCount(openedFiles.length);
+            
+            this.app.workspace.trigger("obsidian-p4:status-changed", openedFiles);
+        } catch (error) {
+            console.error("P4 refresh error:", error);
+        } finally {
+            this.statusBar?.setAction(CurrentP4Action.idle);
+        }
     }
 
     /**
@@ -1158,10 +1666,422 @@ export default class ObsidianP4 extends Plugin {
         await this.app.workspace.revealLeaf(leaf);
     }
 
+    /**
+     * Open the shelf browser
+     */
+    async openShelfView(): Promise<void> {
+        const leaves = this.app.workspace.getLeavesOfType(SHELF_VIEW_CONFIG.type);
+        let leaf = leaves.length > 0 ? leaves[0] : null;
+
+        if (!leaf) {
+            const rightLeaf = this.app.workspace.getRightLeaf(false);
+            leaf = rightLeaf ?? this.app.workspace.getLeaf(true);
+            await leaf.setViewState({
+                type: SHELF_VIEW_CONFIG.type,
+            });
+        }
+
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Look for work done outside Perforce and open the files the user picks
+     */
+    async openReconcile(): Promise<void> {
+        if (!this.p4Ready) {
+            new Notice("Perforce is not connected");
+            return;
+        }
+
+        let files: P4ReconcileFile[];
+        let changelists: P4Changelist[];
+        try {
+            [files, changelists] = await Promise.all([
+                this.p4Manager.previewReconcile(),
+                this.p4Manager.getPendingChangelists(),
+            ]);
+        } catch (error) {
+            this.displayError(error);
+            return;
+        }
+        if (files.length === 0) {
+            this.displayMessage("No offline work found");
+            return;
+        }
+
+        const choice = await new ReconcileModal(this.app, files, changelists).openAndGetResult();
+        if (!choice) {
+            return;
+        }
+        try {
+            await this.p4Manager.reconcile(choice.files, choice.changelist);
+            this.displayMessage(`Opened ${choice.files.length} file(s)`);
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+        } catch (error) {
+            this.displayError(error);
+        }
+    }
+
+    /**
+     * Open the submit dialog for a changelist and submit the files the user picks
+     * @returns The submitted changelist number, or null if nothing was submitted
+     */
+    async openSubmit(changelist: number | "default"): Promise<number | null> {
+        if (!this.p4Ready) {
+            new Notice("Perforce is not connected");
+            return null;
+        }
+
+        let changelists: P4Changelist[];
+        let description = "";
+        let jobs: string[] = [];
+        try {
+            await this.p4Manager.ensureFileStates();
+            // Show what the server will submit, files may have been opened or reverted outside the plugin
+            await this.p4Manager.refreshChangelistFiles(changelist);
+            changelists = await this.p4Manager.getPendingChangelists();
+            if (changelist !== "default") {
+                description = await this.p4Manager.getChangelistDescription(changelist);
+                jobs = await this.p4Manager.getChangelistJobs(changelist);
+            }
+        } catch (error) {
+            this.displayError(error);
+            return null;
+        }
+        const files = this.p4Manager.fileStates.getOpenedFiles().filter(f => f.changelist === changelist);
+        if (files.length === 0) {
+            this.displayMessage("No files to submit");
+            return null;
+        }
+        // A changelist without a description starts from the template for its files
+        let initialDescription = description;
+        if (!initialDescription) {
+            const template = getTemplateForFiles(getDescriptionTemplates(this.settings), files.map(f => f.vaultPath));
+            initialDescription = template ? await this.fillDescriptionTemplate(template.template, files, jobs) : "";
+        }
+
+        const choice = await new SubmitModal(this.app, this, changelist, files, changelists, initialDescription, jobs).openAndGetResult();
+        if (!choice) {
+            return null;
+        }
+        try {
+            this.displayMessage("Submitting...");
+            // Only an edited description replaces the one of a numbered changelist
+            const newDescription = changelist === "default" || choice.description !== description ? choice.description : undefined;
+            const changeNum = await this.p4Manager.submit(changelist, newDescription, choice.options);
+            this.displayMessage(`Submitted changelist ${changeNum}`);
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+            return changeNum;
+        } catch (error) {
+            this.handleSubmitError(error);
+            return null;
+        }
+    }
+
+    /**
+     * Submit the changelist of the last failed submit again
+     * @returns The submitted changelist number, or null if it failed again
+     */
+    async retrySubmit(): Promise<number | null> {
+        try {
+            this.displayMessage("Submitting...");
+            const changeNum = await this.p4Manager.retrySubmit();
+            this.displayMessage(`Submitted changelist ${changeNum}`);
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+            return changeNum;
+        } catch (error) {
+            this.handleSubmitError(error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the conflicts still blocking the last failed submit
+     */
+    async getFailedSubmitConflicts(): Promise<P4ConflictFile[]> {
+        const failedSubmit = this.p4Manager.failedSubmit;
+        if (!failedSubmit) {
+            return [];
+        }
+        const conflicts = await this.p4Manager.getConflicts();
+        return conflicts.filter(c => failedSubmit.files.includes(c.vaultPath));
+    }
+
+    /**
+     * Report a failed submit, leading to the first file to resolve if it failed on out of date files
+     */
+    private handleSubmitError(error: unknown): void {
+        // Unchecked files may have moved before the submit failed
+        this.app.workspace.trigger("obsidian-p4:refresh-now");
+        if (!(error instanceof P4SubmitFailedError)) {
+            this.displayError(error);
+            return;
+        }
+
+        const { changelist, files } = error.failedSubmit;
+        new Notice(`Submit failed: ${files.length} file(s) were out of date or unresolved. They are in changelist ${changelist}, resolve them and retry the submit.`, 10000);
+        void this.openFailedSubmitConflict();
+    }
+
+    /**
+     * Open the merge view for the next file blocking the failed submit, or the source control view if there is none
+     */
+    async openFailedSubmitConflict(): Promise<void> {
+        try {
+            const conflicts = await this.getFailedSubmitConflicts();
+            if (conflicts.length > 0) {
+                await this.openMergeView(conflicts[0]!.vaultPath);
+            } else {
+                await this.openSourceControlView();
+            }
+        } catch (error) {
+            this.displayError(error);
+        }
+    }
+
+    /**
+     * Add a pre-submit check, e.g. from another plugin
+     * Its severity can be changed in the settings like the built-in checks.
+     */
+    registerSubmitCheck(check: P4SubmitCheck): void {
+        const index = this.submitChecks.findIndex(c => c.id === check.id);
+        if (index >= 0) {
+            this.submitChecks[index] = check;
+        } else {
+            this.submitChecks.push(check);
+        }
+    }
+
+    /**
+     * Run the pre-submit checks and show their report if they found anything
+     * Called by the submit modal before it closes, so a blocked submit keeps what was entered.
+     * @returns True to go on with the submit
+     */
+    async checkSubmit(files: P4FileStatus[]): Promise<boolean> {
+        let issues: P4SubmitIssue[];
+        try {
+            const checkFiles = await Promise.all(files.map(file => this.getSubmitCheckFile(file)));
+            issues = runSubmitChecks(this.submitChecks, checkFiles, {
+                settings: this.settings,
+                submitted: new Set(files.map(f => f.vaultPath)),
+                isInDepot: vaultPath => this.p4Manager.fileStates.isInDepot(vaultPath),
+            });
+        } catch (error) {
+            this.displayError(error);
+            return false;
+        }
+        if (issues.length === 0) {
+            return true;
+        }
+        const checkNames = new Map(this.submitChecks.map(check => [check.id, check.name]));
+        return new SubmitCheckModal(this.app, issues, checkNames).openAndGetResult();
+    }
+
+    /**
+     * Read what the pre-submit checks need to know about a file
+     */
+    private async getSubmitCheckFile(status: P4FileStatus): Promise<P4SubmitCheckFile> {
+        const checkFile: P4SubmitCheckFile = {
+            vaultPath: status.vaultPath,
+            action: status.action,
+            content: null,
+            size: 0,
+            frontmatter: null,
+            links: [],
+        };
+        const file = this.app.vault.getAbstractFileByPath(status.vaultPath);
+        if (status.action === "delete" || !(file instanceof TFile)) {
+            return checkFile;
+        }
+
+        checkFile.size = file.stat.size;
+        if (isTextFile(file.path)) {
+            checkFile.content = await this.app.vault.cachedRead(file);
+        }
+        const cache = this.app.metadataCache.getFileCache(file);
+        checkFile.frontmatter = cache?.frontmatter ?? null;
+        const links = [
+            ...(cache?.links ?? []).map(link => ({ link, embed: false })),
+            ...(cache?.embeds ?? []).map(link => ({ link, embed: true })),
+        ];
+        for (const { link, embed } of links) {
+            const linkpath = getLinkpath(link.link);
+            // Links to a heading of the same note have no path
+            if (!linkpath) continue;
+            checkFile.links.push({
+                link: link.link,
+                line: link.position.start.line + 1,
+                target: this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path)?.path ?? null,
+                embed,
+            });
+        }
+        return checkFile;
+    }
+
+    /**
+     * Fill in a description template for the files of a changelist
+     * @param jobs Jobs the changelist fixes
+     */
+    async fillDescriptionTemplate(template: string, files: P4FileStatus[], jobs: string[] = []): Promise<string> {
+        let user = "";
+        let client = "";
+        try {
+            ({ userName: user, clientName: client } = await this.p4Manager.getInfo());
+        } catch (error) {
+            console.error("P4: failed to get the user and client for a description template", error);
+        }
+        return renderDescriptionTemplate(template, {
+            files: files.map(status => {
+                const file = this.app.vault.getAbstractFileByPath(status.vaultPath);
+                const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+                return { vaultPath: status.vaultPath, action: status.action, frontmatter: frontmatter ?? null };
+            }),
+            user,
+            client,
+            jobs,
+            date: moment().format("YYYY-MM-DD HH:mm:ss"),
+        });
+    }
+
+    /**
+     * Run the workspace setup wizard, then save the chosen client and reinitialize
+     * Returns false if the user cancelled.
+     */
+    async openWorkspaceSetup(): Promise<boolean> {
+        const client = await new WorkspaceSetupModal(this.app, this).openAndGetResult();
+        if (!client) {
+            new Notice(`Not in a ${"Perforce"} workspace, some features may be unavailable.`, 5000);
+            return false;
+        }
+
+        updateActiveConnection(this.settings, { p4Client: client });
+        await this.saveSettings();
+        try {
+            await this.reinitialize();
+        } catch (error) {
+            this.displayError(error);
+        }
+        return true;
+    }
+
+    /**
+     * Open the workspace (client spec) view
+     */
+    async openClientSpecView(): Promise<void> {
+        const leaves = this.app.workspace.getLeavesOfType(CLIENT_SPEC_VIEW_CONFIG.type);
+        let leaf = leaves.length > 0 ? leaves[0] : null;
+
+        if (!leaf) {
+            leaf = this.app.workspace.getLeaf("tab");
+            await leaf.setViewState({
+                type: CLIENT_SPEC_VIEW_CONFIG.type,
+            });
+        }
+
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Warn if the client view doesn't map the whole vault folder
+     */
+    private async checkVaultMapping(): Promise<void> {
+        const spec = await this.p4Manager.getClientSpec();
+        const coverage = this.p4Manager.getVaultCoverage(spec);
+        if (coverage === "full") return;
+
+        const notice = new Notice(
+            coverage === "none"
+                ? `The vault folder is not mapped by workspace ${spec.client}. Click to review the workspace view.`
+                : `The vault folder is only partly mapped by workspace ${spec.client}. Click to review the workspace view.`,
+            10000,
+        );
+        notice.messageEl.addEventListener("click", () => void this.openClientSpecView());
+    }
+
     /**
      * Prompt for P4 password and attempt to login
      */
     async promptForLogin(message?: string): Promise<boolean> {
+        const loggedIn = await this.requestLogin(message);
+        if (!loggedIn) {
+            return false;
+        }
+
+        // Reinitialize after login
+        try {
+            await this.reinitialize();
+        } catch (error) {
+            this.displayError(error);
+        }
+        return true;
+    }
+
+    /**
+     * Ask whether to trust the SSL server, then run p4 trust and reinitialize
+     * A fingerprint already saved in the connection settings is trusted without asking,
+     * unless the server reports that its key changed.
+     */
+    async promptTrust(error: P4Error | null): Promise<boolean> {
+        if (!(error instanceof P4UntrustedServerError) || !error.fingerprint) {
+            new Notice(`The ${"Perforce"} server is not trusted. Run ${"p4 trust"} to review its fingerprint.\n\n${error?.message ?? ""}`, 10000);
+            return false;
+        }
+
+        const connection = getActiveConnection(this.settings);
+        const fingerprint = error.fingerprint.toUpperCase();
+        // Still untrusted after trusting this fingerprint, don't loop
+        if (fingerprint === this.lastTrustedFingerprint) {
+            new Notice(`The server is still untrusted after running ${"p4 trust"}.\n\n${error.message}`, 10000);
+            return false;
+        }
+
+        const preapproved = !error.keyChanged && connection.trustFingerprint.toUpperCase() === fingerprint;
+        if (!preapproved) {
+            const server = connection.p4Port || "the server";
+            const accepted = await new TrustModal(this.app, server, fingerprint, error.keyChanged).openAndGetResult();
+            if (!accepted) {
+                return false;
+            }
+        }
+
+        try {
+            await this.p4Manager.trust(fingerprint, error.keyChanged);
+        } catch (trustError) {
+            this.displayError(trustError);
+            return false;
+        }
+
+        this.lastTrustedFingerprint = fingerprint;
+        updateActiveConnection(this.settings, { trustFingerprint: fingerprint });
+        await this.saveSettings();
+        this.displayMessage("Server fingerprint trusted");
+
+        try {
+            await this.reinitialize();
+        } catch (reinitError) {
+            this.displayError(reinitError);
+        }
+        return true;
+    }
+
+    /**
+     * Ask for the P4 password and log in, without reinitializing
+     * Concurrent callers share the same prompt, so a burst of failed commands
+     * only opens the password modal once and all of them can retry afterwards
+     */
+    requestLogin(message?: string): Promise<boolean> {
+        if (!this.loginPrompt) {
+            this.loginPrompt = this.showLoginPrompt(message).finally(() => {
+                this.loginPrompt = null;
+            });
+        }
+        return this.loginPrompt;
+    }
+
+    /**
+     * Show the password modal and run p4 login
+     */
+    private async showLoginPrompt(message?: string): Promise<boolean> {
         const modal = new PasswordModal(this.app, message);
         const password = await modal.openAndGetResult();
         
@@ -1171,15 +2091,15 @@ export default class ObsidianP4 extends Plugin {
         
         try {
             await this.p4Manager.login(password);
-            this.displayMessage("Successfully logged in to Perforce");
-            
-            // Reinitialize after login
-            await this.reinitialize();
-            return true;
         } catch (error) {
-            this.displayError(error);
+            // Report the failed login without triggering another prompt
+            new Notice(`P4 login failed: ${error instanceof Error ? error.message : String(error)}`, 10000);
+            console.error("P4 login failed:", error);
             return false;
         }
+
+        this.displayMessage("Successfully logged in to Perforce");
+        return true;
     }
 
     /**
@@ -1189,9 +2109,21 @@ export default class ObsidianP4 extends Plugin {
         if (!this.statusBar) {
             const statusBarEl = this.addStatusBarItem();
             this.statusBar = new P4StatusBar(this, statusBarEl);
+            this.statusBar.setQueueState(this.p4Manager.getQueueState());
+            this.updateProfileStatus();
+            this.statusBar.setPinned(this.settings.pinnedRevisions);
+            this.statusBar.setIncoming(this.getIncoming());
+            this.statusBar.setOffline(this.offline, this.settings.offlineJournal.length);
         }
     }
 
+    /**
+     * Show the active connection profile in the status bar
+     */
+    updateProfileStatus(): void {
+        this.statusBar?.setProfile(getActiveProfile(this.settings)?.name ?? null, this.settings.connectionProfiles.length > 0);
+    }
+
     /**
      * Disable the status bar
      */
@@ -1213,11 +2145,62 @@ export default class ObsidianP4 extends Plugin {
 
     /**
      * Display an error to the user
+     * P4 errors get a tailored notice and, where possible, a recovery action
      */
     displayError(error: unknown): void {
-        const message = error instanceof Error ? error.message : String(error);
-        new Notice(`P4 Error: ${message}`, 10000);
         console.error("P4 Error:", error);
+
+        if (!(error instanceof P4Error)) {
+            const message = error instanceof Error ? error.message : String(error);
+            new Notice(`P4 Error: ${message}`, 10000);
+            return;
+        }
+
+        switch (error.kind) {
+            case "not-logged-in":
+                new Notice(`You are not logged in to ${"Perforce"}`, 5000);
+                // Don't prompt again if the user just dismissed the retry prompt
+                if (!(error instanceof P4NotLoggedInError && error.promptDismissed)) {
+                    void this.promptForLogin("Your Perforce session has expired or you are not logged in.");
+                }
+                break;
+            case "untrusted-server":
+                void this.promptTrust(error);
+                break;
+            case "charset-mismatch":
+                new Notice(`The server's unicode mode doesn't match the character set (${"P4CHARSET"}). Choose a character set in settings.\n\n${error.message}`, 10000);
+                break;
+            case "connection-failed":
+                new Notice(`Cannot connect to the ${"Perforce"} server. Check the server address in settings.\n\n${error.message}`, 10000);
+                break;
+            case "file-not-in-client":
+                new Notice(`File is not mapped in your workspace view.\n\n${error.message}`, 10000);
+                break;
+            case "file-locked-by-other":
+                new Notice(`File is locked or exclusively opened by another user.\n\n${error.message}`, 10000);
+                break;
+            case "needs-resolve":
+                new Notice("Some files must be resolved first, opening the source control view", 10000);
+                void this.openSourceControlView();
+                this.app.workspace.trigger("obsidian-p4:refresh-now");
+                break;
+            case "no-such-changelist":
+                new Notice(`Changelist no longer exists, refreshing.\n\n${error.message}`, 10000);
+                this.app.workspace.trigger("obsidian-p4:refresh-now");
+                break;
+            case "timeout":
+                new Notice(`${"Perforce"} did not respond in time. Check your connection and try again.`, 10000);
+                break;
+            case "cancelled":
+                this.displayMessage("Operation cancelled");
+                break;
+            case "missing-p4":
+                new Notice("The p4 command was not found, check the executable path in settings", 10000);
+                break;
+            default:
+                new Notice(`P4 Error: ${error.message}`, 10000);
+                break;
+        }
     }
 
     /**
@@ -1226,6 +2209,12 @@ export default class ObsidianP4 extends Plugin {
     async loadSettings(): Promise<void> {
         const data = await this.loadData() as Partial<P4PluginSettings> | null;
         this.settings = Object.assign({}, DEFAULT_SETTINGS, data ?? {});
+        // Don't share the default array and object with DEFAULT_SETTINGS
+        this.settings.connectionProfiles = [...this.settings.connectionProfiles];
+        this.settings.pinnedRevisions = { ...this.settings.pinnedRevisions };
+        this.settings.offlineJournal = [...this.settings.offlineJournal];
+        this.settings.submitChecks = { ...this.settings.submitChecks };
+        this.settings.descriptionTemplates = [...this.settings.descriptionTemplates];
     }
 
     /**
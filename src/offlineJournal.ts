@@ -0,0 +1,81 @@
+import type { P4JournalEntry, P4PluginSettings } from "./types";
+
+/**
+ * Record an operation in the offline journal, folding it into an earlier entry for the same file
+ * e.g. deleting an added file drops the add, moving an added file moves the add.
+ */
+export function recordOfflineOperation(settings: P4PluginSettings, entry: P4JournalEntry): void {
+    // A move onto a path with an entry of its own would replay out of order against that path,
+    // it is recorded as deleting the source and editing the target instead
+    if (entry.action === "move" && entry.fromPath && settings.offlineJournal.some(e => e.vaultPath === entry.vaultPath)) {
+        recordOfflineOperation(settings, { action: "delete", vaultPath: entry.fromPath, time: entry.time });
+        recordOfflineOperation(settings, { action: "edit", vaultPath: entry.vaultPath, time: entry.time });
+        return;
+    }
+
+    const journal = [...settings.offlineJournal];
+    const current = entry.action === "move" ? entry.fromPath : entry.vaultPath;
+    const index = journal.findIndex(e => e.vaultPath === current);
+    const earlier = index >= 0 ? journal[index] : undefined;
+
+    if (!earlier) {
+        journal.push(entry);
+        settings.offlineJournal = journal;
+        return;
+    }
+
+    switch (entry.action) {
+        case "edit":
+        case "add":
+            // A deleted file that is created again is an edit, anything else already covers it
+            if (earlier.action === "delete") {
+                journal[index] = { action: "edit", vaultPath: entry.vaultPath, time: entry.time };
+            }
+            break;
+        case "delete":
+            if (earlier.action === "add") {
+                // Never reached the depot
+                journal.splice(index, 1);
+            } else if (earlier.action === "move") {
+                journal[index] = { action: "delete", vaultPath: earlier.fromPath ?? earlier.vaultPath, time: entry.time };
+            } else {
+                journal[index] = entry;
+            }
+            break;
+        case "move":
+            if (earlier.action === "add") {
+                journal[index] = { ...earlier, vaultPath: entry.vaultPath };
+            } else if (earlier.action === "move") {
+                // Moving a file back where it came from leaves only the edit
+                journal[index] = earlier.fromPath === entry.vaultPath
+                    ? { action: "edit", vaultPath: entry.vaultPath, time: entry.time }
+                    : { ...earlier, vaultPath: entry.vaultPath };
+            } else if (earlier.action === "edit") {
+                // A move opens the file for edit as well
+                journal[index] = entry;
+            } else {
+                journal.push(entry);
+            }
+            break;
+    }
+    settings.offlineJournal = journal;
+}
+
+/**
+ * Drop journal entries, e.g. once they have been replayed
+ */
+export function removeOfflineOperations(settings: P4PluginSettings, entries: P4JournalEntry[]): void {
+    settings.offlineJournal = settings.offlineJournal.filter(e => !entries.includes(e));
+}
+
+/**
+ * Describe a journal entry for display, e.g. "Move notes/a.md to notes/b.md"
+ */
+export function describeOfflineOperation(entry: P4JournalEntry): string {
+    switch (entry.action) {
+        case "edit": return `Edit ${entry.vaultPath}`;
+        case "add": return `Add ${entry.vaultPath}`;
+        case "delete": return `Delete ${entry.vaultPath}`;
+        case "move": return `Move ${entry.fromPath ?? ""} to ${entry.vaultPath}`;
+    }
+}
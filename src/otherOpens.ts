@@ -0,0 +1,31 @@
+import type { P4OtherOpen } from "./types";
+
+/**
+ * Describe who else has a file open, e.g. "bob@bob-laptop (locked)"
+ */
+export function describeOtherOpen(open: P4OtherOpen): string {
+    return `${open.user}@${open.client}${open.locked ? " (locked)" : ""}`;
+}
+
+/**
+ * Describe everyone else who has a file open, e.g. "Also opened by bob@bob-laptop (locked)"
+ */
+export function describeOtherOpens(opens: P4OtherOpen[]): string {
+    return `Also opened by ${opens.map(describeOtherOpen).join(", ")}`;
+}
+
+/**
+ * Group other users' opens by vault path
+ */
+export function groupOtherOpens(opens: P4OtherOpen[]): Map<string, P4OtherOpen[]> {
+    const grouped = new Map<string, P4OtherOpen[]>();
+    for (const open of opens) {
+        const list = grouped.get(open.vaultPath);
+        if (list) {
+            list.push(open);
+        } else {
+            grouped.set(open.vaultPath, [open]);
+        }
+    }
+    return grouped;
+}
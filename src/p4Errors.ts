@@ -0,0 +1,257 @@
+import type { P4FailedSubmit } from "./types";
+
+/**
+ * Kinds of P4 errors the plugin knows how to handle
+ */
+export type P4ErrorKind =
+    | "not-logged-in"
+    | "connection-failed"
+    | "untrusted-server"
+    | "charset-mismatch"
+    | "file-not-in-client"
+    | "file-locked-by-other"
+    | "needs-resolve"
+    | "no-such-changelist"
+    | "timeout"
+    | "cancelled"
+    | "missing-p4"
+    | "unknown";
+
+/**
+ * Message severities reported by the server (E_EMPTY .. E_FATAL in the p4 API)
+ */
+export enum P4Severity {
+    empty = 0,
+    info = 1,
+    warning = 2,
+    failed = 3,
+    fatal = 4,
+}
+
+/**
+ * Generic error codes used for classification (EV_* in the p4 API)
+ */
+const P4_GENERIC_PROTECT = 6;
+const P4_GENERIC_COMM = 38;
+
+/**
+ * A single error message as reported by `-Mj -ztag` (code: "error")
+ */
+export interface P4ErrorMessage {
+    /** Message text */
+    data: string;
+    /** Message severity */
+    severity: P4Severity;
+    /** Generic error code */
+    generic: number;
+}
+
+/**
+ * Base class for all errors raised by P4 commands
+ */
+export class P4Error extends Error {
+    readonly kind: P4ErrorKind = "unknown";
+    /** Raw messages reported by p4 (empty for client-side errors) */
+    readonly messages: P4ErrorMessage[];
+
+    constructor(message: string, messages: P4ErrorMessage[] = []) {
+        super(message);
+        this.name = "P4Error";
+        this.messages = messages;
+    }
+
+    /**
+     * Highest severity among the reported messages
+     */
+    get severity(): P4Severity {
+        return this.messages.reduce<P4Severity>((max, m) => Math.max(max, m.severity), P4Severity.failed);
+    }
+
+    /**
+     * Generic code of the first reported message
+     */
+    get generic(): number {
+        return this.messages[0]?.generic ?? 0;
+    }
+}
+
+/** No valid ticket or password for the server */
+export class P4NotLoggedInError extends P4Error {
+    readonly kind = "not-logged-in";
+    /** Set when the user already dismissed the login prompt for this failure */
+    promptDismissed: boolean = false;
+}
+
+/** The server could not be reached */
+export class P4ConnectionError extends P4Error {
+    readonly kind = "connection-failed";
+}
+
+/** The SSL server's fingerprint is unknown or has changed */
+export class P4UntrustedServerError extends P4Error {
+    readonly kind = "untrusted-server";
+
+    /**
+     * Fingerprint reported by the server (empty if it couldn't be parsed)
+     */
+    get fingerprint(): string {
+        return this.message.match(/[0-9A-F]{2}(?::[0-9A-F]{2}){19,}/i)?.[0] ?? "";
+    }
+
+    /**
+     * True if the server was trusted before but presented a different key
+     */
+    get keyChanged(): boolean {
+        return /IDENTIFICATION HAS CHANGED/i.test(this.message);
+    }
+}
+
+/** The client's P4CHARSET doesn't match the server's unicode mode */
+export class P4CharsetError extends P4Error {
+    readonly kind = "charset-mismatch";
+}
+
+/** The file is outside the client view or root */
+export class P4FileNotInClientError extends P4Error {
+    readonly kind = "file-not-in-client";
+}
+
+/** The file is exclusively opened or locked by someone else */
+export class P4FileLockedError extends P4Error {
+    readonly kind = "file-locked-by-other";
+}
+
+/** Files must be resolved before the operation can continue */
+export class P4NeedsResolveError extends P4Error {
+    readonly kind = "needs-resolve";
+}
+
+/** A submit failed because files were out of date or unresolved, they have been synced for resolving */
+export class P4SubmitFailedError extends P4NeedsResolveError {
+    readonly failedSubmit: P4FailedSubmit;
+
+    constructor(message: string, messages: P4ErrorMessage[], failedSubmit: P4FailedSubmit) {
+        super(message, messages);
+        this.failedSubmit = failedSubmit;
+    }
+}
+
+/** The referenced changelist does not exist (anymore) */
+export class P4NoSuchChangelistError extends P4Error {
+    readonly kind = "no-such-changelist";
+}
+
+/** The command did not finish in time */
+export class P4TimeoutError extends P4Error {
+    readonly kind = "timeout";
+}
+
+/** The command was cancelled through its AbortSignal */
+export class P4CancelledError extends P4Error {
+    readonly kind = "cancelled";
+}
+
+/** The p4 executable could not be started */
+export class P4MissingError extends P4Error {
+    readonly kind = "missing-p4";
+}
+
+/**
+ * Text patterns for each server-side error kind, checked in order
+ */
+const KIND_PATTERNS: [P4ErrorKind, RegExp][] = [
+    ["not-logged-in", /P4PASSWD\) invalid or unset|session has (been logged out|expired)|not logged in|ticket .*expired/i],
+    ["untrusted-server", /authenticity of .* can't be established|IDENTIFICATION HAS CHANGED/i],
+    ["charset-mismatch", /permits only unicode enabled clients|require a unicode enabled server|character set must be one of/i],
+    ["connection-failed", /connect to server failed|TCP connect to .* failed|check \$P4PORT|partner exited unexpectedly|SSL (connect|receive) failed/i],
+    ["file-not-in-client", /not in client view|not under client's root|is not under client|file\(s\) not in client/i],
+    ["file-locked-by-other", /exclusive file already opened|locked by|file\(s\) locked/i],
+    ["needs-resolve", /must resolve|resolve .* before submitting|merges still pending|out of date files must be resolved/i],
+    ["no-such-changelist", /change \d+ unknown|unknown changelist|no such changelist|invalid changelist number/i],
+];
+
+/**
+ * Determine the error kind for a message (text first, generic code as fallback)
+ */
+export function classifyP4Message(message: Pick<P4ErrorMessage, "data" | "generic">): P4ErrorKind {
+    for (const [kind, pattern] of KIND_PATTERNS) {
+        if (pattern.test(message.data)) {
+            return kind;
+        }
+    }
+    if (message.generic === P4_GENERIC_COMM) {
+        return "connection-failed";
+    }
+    if (message.generic === P4_GENERIC_PROTECT && /password|ticket|login/i.test(message.data)) {
+        return "not-logged-in";
+    }
+    return "unknown";
+}
+
+/**
+ * Create the matching P4Error subclass for a list of server messages
+ * The first message that maps to a known kind decides the class.
+ */
+export function createP4Error(messages: P4ErrorMessage[]): P4Error {
+    const text = messages.map(m => m.data.trim()).filter(Boolean).join("\n") || "Unknown P4 error";
+
+    for (const message of messages) {
+        switch (classifyP4Message(message)) {
+            case "not-logged-in": return new P4NotLoggedInError(text, messages);
+            case "connection-failed": return new P4ConnectionError(text, messages);
+            case "untrusted-server": return new P4UntrustedServerError(text, messages);
+            case "charset-mismatch": return new P4CharsetError(text, messages);
+            case "file-not-in-client": return new P4FileNotInClientError(text, messages);
+            case "file-locked-by-other": return new P4FileLockedError(text, messages);
+            case "needs-resolve": return new P4NeedsResolveError(text, messages);
+            case "no-such-changelist": return new P4NoSuchChangelistError(text, messages);
+            default: break;
+        }
+    }
+    return new P4Error(text, messages);
+}
+
+/**
+ * What a failed submit reports: the changelist now holding its files and the files to sync or resolve
+ * Submitting the default changelist moves its files to a new numbered changelist when it fails.
+ */
+export function parseSubmitFailure(messages: P4ErrorMessage[]): { changelist: number | null; files: string[] } {
+    let changelist: number | null = null;
+    const files: string[] = [];
+    for (const message of messages) {
+        for (const line of message.data.split("\n")) {
+            const retry = line.match(/use 'p4 submit -c (\d+)'/);
+            if (retry) {
+                changelist = parseInt(retry[1]!, 10);
+            }
+            // e.g. "//depot/a.md - must sync/resolve #3 before submitting"
+            const file = line.match(/^(.+?) - must (?:sync\/)?resolve #\d+/);
+            if (file) {
+                files.push(file[1]!.trim());
+            }
+        }
+    }
+    return { changelist, files };
+}
+
+/**
+ * Create a P4Error from plain (non-JSON) stderr output
+ */
+export function p4ErrorFromText(text: string, severity: P4Severity = P4Severity.failed): P4Error {
+    return createP4Error([{ data: text, severity, generic: 0 }]);
+}
+
+/**
+ * Extract an error message from a parsed `-Mj` object, or null if it isn't one
+ */
+export function toP4ErrorMessage(value: unknown): P4ErrorMessage | null {
+    if (typeof value !== "object" || value === null) return null;
+    const obj = value as Record<string, unknown>;
+    if (obj.code !== "error") return null;
+
+    return {
+        data: typeof obj.data === "string" ? obj.data : "",
+        severity: Number(obj.severity ?? P4Severity.failed) as P4Severity,
+        generic: Number(obj.generic ?? 0),
+    };
+}
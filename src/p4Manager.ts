@@ -1,27 +1,168 @@
-import { exec, spawn } from "child_process";
-import { promisify } from "util";
-import { mkdir, rename } from "fs/promises";
+import { constants as fsConstants, existsSync, type Dirent } from "fs";
+import { access, chmod, mkdir, readdir, readFile, rename, stat } from "fs/promises";
 import { FileSystemAdapter, normalizePath } from "obsidian";
 import * as path from "path";
 import type ObsidianP4 from "./main";
+import { formatClientSpec, getViewCoverage, parseClientSpec } from "./clientSpec";
+import { getActiveConnection, getActiveProfile } from "./connectionProfiles";
+import { P4CONFIG_FILE_NAMES, P4IGNORE_DEFAULT_FILE_NAME } from "./constants";
+import { ALL_FILES, P4FileStateStore } from "./fileStateStore";
+import { findIgnoreRule, getDefaultIgnoreRules, isIgnored, parseIgnoreRules, type P4IgnoreRule } from "./ignoreRules";
+import { runP4Process, type P4ProcessResult, type P4RunOptions } from "./p4Process";
+import { P4CommandQueue, type P4Priority, type P4QueueState } from "./p4Queue";
+import {
+    createP4Error,
+    P4CancelledError,
+    P4CharsetError,
+    P4ConnectionError,
+    P4Error,
+    P4MissingError,
+    P4NeedsResolveError,
+    P4NotLoggedInError,
+    P4SubmitFailedError,
+    P4TimeoutError,
+    P4UntrustedServerError,
+    p4ErrorFromText,
+    P4Severity,
+    parseSubmitFailure,
+    toP4ErrorMessage,
+    type P4ErrorKind,
+    type P4ErrorMessage,
+} from "./p4Errors";
 import type {
     P4Action,
     P4BlameResult,
+    P4BlameBlock,
     P4BlameLine,
     P4Changelist,
+    P4ClientSource,
+    P4ClientSpec,
+    P4ClientSummary,
     P4ConflictFile,
+    P4ConnectionVariable,
     P4DiffResult,
+    P4FailedSubmit,
+    P4FileState,
     P4FileStatus,
     P4HistoryEntry,
+    P4JournalEntry,
+    P4JournalReview,
+    P4IncomingFile,
     P4Info,
+    P4Job,
     P4MergeVersions,
+    P4OtherOpen,
     P4RequirementsResult,
+    P4ReconcileFile,
     P4ResolveAction,
+    P4ShelfFilter,
+    P4ShelvedFile,
+    P4SubmitOptions,
     P4SyncedFile,
+    P4SyncOptions,
+    P4SyncPreview,
+    P4SyncProgress,
     P4SyncResult,
+    P4UnshelveConflict,
+    P4ViewCoverage,
 } from "./types";
 
-const execAsync = promisify(exec);
+/** Default timeout for p4 commands, prevents freezing on unreachable servers */
+const P4_COMMAND_TIMEOUT = 30000;
+
+/** Shorter timeout used when checking requirements */
+const P4_REQUIREMENTS_TIMEOUT = 5000;
+
+/** Maximum number of p4 processes running at the same time */
+const P4_MAX_CONCURRENT_COMMANDS = 4;
+
+/**
+ * Options for a P4Manager command
+ */
+interface P4CommandOptions extends P4RunOptions {
+    /** Don't prompt for login and retry when the session has expired */
+    skipLoginRetry?: boolean;
+    /** Scheduling priority (default: interactive) */
+    priority?: P4Priority;
+    /** Run against this client instead of the configured one (p4 -c) */
+    client?: string;
+}
+
+/** Errors that stop a sync as a whole rather than failing single files */
+const FATAL_SYNC_ERRORS: P4ErrorKind[] = ["not-logged-in", "connection-failed", "untrusted-server", "charset-mismatch"];
+
+/** Variables shown in the connection info table, in display order */
+const P4_CONNECTION_VARIABLES = ["P4PORT", "P4USER", "P4CLIENT", "P4CHARSET", "P4CONFIG", "P4TRUST", "P4TICKETS"];
+
+/** Options for read-only commands issued by refreshes, decorators and blame */
+const BACKGROUND: P4CommandOptions = { priority: "background" };
+
+/**
+ * A changelist as returned by `p4 -ztag changes`
+ */
+interface P4ChangesJson {
+    change?: string;
+    user?: string;
+    client?: string;
+    time?: string;
+    desc?: string;
+}
+
+/**
+ * A `p4 fstat` record, other users' opens are numbered fields (otherOpen0, otherAction0, ...)
+ */
+type P4FstatJson = Partial<Record<string, string>>;
+
+/**
+ * Convert a `p4 changes` record to a history entry
+ */
+function toHistoryEntry(item: P4ChangesJson): P4HistoryEntry {
+    return {
+        change: parseInt(item.change || "0", 10),
+        user: item.user || "",
+        client: item.client || "",
+        date: item.time || "",
+        description: (item.desc || "").trim(),
+    };
+}
+
+/**
+ * Replace a field of a spec form (e.g. `p4 change -o` output) with tab-indented lines
+ * The field is added at the end if the spec doesn't have it.
+ */
+function setSpecField(spec: string, field: string, values: string[]): string {
+    const lines = spec.split("\n");
+    const result: string[] = [];
+    let found = false;
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i]!.startsWith(`${field}:`)) {
+            result.push(lines[i]!);
+            continue;
+        }
+        found = true;
+        result.push(`${field}:`, ...values.map(value => `\t${value}`));
+        // Skip the old value lines
+        while (i + 1 < lines.length && lines[i + 1]!.startsWith("\t")) i++;
+    }
+    if (!found) {
+        result.push("", `${field}:`, ...values.map(value => `\t${value}`), "");
+    }
+    return result.join("\n");
+}
+
+/**
+ * Get the tab-indented lines of a field of a spec form (empty if the spec doesn't have it)
+ */
+function getSpecField(spec: string, field: string): string[] {
+    const lines = spec.split("\n");
+    const start = lines.findIndex(line => line.startsWith(`${field}:`));
+    if (start < 0) return [];
+    const values: string[] = [];
+    for (let i = start + 1; i < lines.length && lines[i]!.startsWith("\t"); i++) {
+        values.push(lines[i]!.slice(1));
+    }
+    return values;
+}
 
 /**
  * Manager class for all Perforce operations.
@@ -31,6 +172,21 @@ export class P4Manager {
     private plugin: ObsidianP4;
     private clientRoot: string = "";
     private info: P4Info | null = null;
+    /** P4CONFIG file found above the vault root when none is configured */
+    private discoveredConfig: string | null = null;
+    /** Error behind the last failed requirements check */
+    private requirementsError: P4Error | null = null;
+    /** Rules read from P4IGNORE files in the vault (null until first needed) */
+    private ignoreFileRules: P4IgnoreRule[] | null = null;
+    /** File names P4IGNORE looks for in the vault folders */
+    private ignoreFileNames: Set<string> = new Set([P4IGNORE_DEFAULT_FILE_NAME]);
+    private queue: P4CommandQueue = new P4CommandQueue(P4_MAX_CONCURRENT_COMMANDS);
+    /** State of the depot files in the vault */
+    readonly fileStates: P4FileStateStore = new P4FileStateStore();
+    /** Last submit that failed on out of date or unresolved files (null once it went through) */
+    failedSubmit: P4FailedSubmit | null = null;
+    /** Login prompt the commands that failed on an expired session wait for */
+    private loginRetry: Promise<boolean> | null = null;
 
     constructor(plugin: ObsidianP4) {
         this.plugin = plugin;
@@ -73,49 +229,156 @@ export class P4Manager {
      */
     private getP4Env(): NodeJS.ProcessEnv {
         const env = { ...process.env };
+        const connection = getActiveConnection(this.plugin.settings);
         
         // Only set if configured in settings (allow env vars to take precedence if unset)
-        if (this.plugin.settings.p4Port) {
-            env.P4PORT = this.plugin.settings.p4Port;
+        if (connection.p4Port) {
+            env.P4PORT = connection.p4Port;
         }
-        if (this.plugin.settings.p4User) {
-            env.P4USER = this.plugin.settings.p4User;
+        if (connection.p4User) {
+            env.P4USER = connection.p4User;
         }
-        if (this.plugin.settings.p4Client) {
-            env.P4CLIENT = this.plugin.settings.p4Client;
+        if (connection.p4Client) {
+            env.P4CLIENT = connection.p4Client;
+        }
+        if (connection.p4Charset) {
+            env.P4CHARSET = connection.p4Charset;
+        }
+        if (connection.p4Config) {
+            env.P4CONFIG = connection.p4Config;
+        } else if (this.discoveredConfig) {
+            env.P4CONFIG = path.basename(this.discoveredConfig);
         }
         
         return env;
     }
 
     /**
-     * Execute a p4 command and return the output
+     * Look for a P4CONFIG file in the vault root and its parents
+     * Only used when neither the settings nor the environment name one, p4
+     * itself then finds the file the same way from the vault directory.
      */
-    private async runP4(args: string[], cwd?: string): Promise<string> {
-        const cmd = `"${this.p4Path}" ${args.join(" ")}`;
-        const options = {
-            cwd: cwd || this.vaultPath,
-            maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-            env: this.getP4Env(),
-            timeout: 30000, // 30 second timeout to prevent freezing
-        };
+    private discoverConfigFile(): string | null {
+        if (getActiveConnection(this.plugin.settings).p4Config || process.env.P4CONFIG || !this.vaultPath) {
+            return null;
+        }
+
+        let dir = this.vaultPath;
+        for (;;) {
+            for (const name of P4CONFIG_FILE_NAMES) {
+                const candidate = path.join(dir, name);
+                if (existsSync(candidate)) {
+                    return candidate;
+                }
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return null;
+            }
+            dir = parent;
+        }
+    }
+
+    /**
+     * Spawn p4 with the plugin's environment and collect its output
+     * Arguments are passed as an argv array, so they must not be quoted.
+     * Goes through the command queue; identical commands without stdin input
+     * or cancellation share one process while in flight, as long as they run
+     * with the same P4 environment and timeout.
+     */
+    private async spawnP4(args: string[], options: P4CommandOptions): Promise<P4ProcessResult> {
+        const cwd = options.cwd || this.vaultPath;
+        if (options.client) {
+            args = ["-c", options.client, ...args];
+        }
+        // Resolved now so a queued command keeps the connection it was issued for
+        const env = this.getP4Env();
+        const timeout = options.timeout ?? P4_COMMAND_TIMEOUT;
+        const p4Vars = Object.entries(env).filter(([name]) => name.startsWith("P4")).sort();
+        const key = options.input === undefined && !options.signal && !options.onLine
+            ? JSON.stringify([cwd, args, p4Vars, timeout])
+            : undefined;
+
+        return this.queue.run(() => {
+            console.debug("P4 command:", this.p4Path, args);
+            return runP4Process(this.p4Path, args, {
+                cwd,
+                env,
+                input: options.input,
+                timeout,
+                signal: options.signal,
+                onLine: options.onLine,
+                maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+            });
+        }, options.priority ?? "interactive", key);
+    }
+
+    /**
+     * Get the number of running and queued p4 commands
+     */
+    getQueueState(): P4QueueState {
+        return this.queue.getState();
+    }
 
-        console.debug("P4 command:", cmd);
+    /**
+     * Listen for command queue changes, returns a function that removes the listener
+     */
+    onQueueChange(listener: (state: P4QueueState) => void): () => void {
+        return this.queue.onChange(listener);
+    }
 
+    /**
+     * Run a command and, if the ticket expired mid-session, log in again and retry once
+     * Concurrent failures share a single login prompt.
+     */
+    private async withLoginRetry<T>(run: () => Promise<T>, options: P4CommandOptions): Promise<T> {
         try {
-            const { stdout, stderr } = await execAsync(cmd, options);
-            // Check if stderr contains error indicators even if stdout has content
-            if (stderr && this.isP4Error(stderr)) {
-                throw new Error(stderr);
-            }
-            return stdout;
+            return await run();
         } catch (error) {
-            const err = error as Error & { stderr?: string; killed?: boolean };
-            if (err.killed) {
-                throw new Error("P4 command timed out after 30 seconds");
+            // Not ready means we're still checking requirements, which handles login itself
+            if (!(error instanceof P4NotLoggedInError) || options.skipLoginRetry || !this.plugin.p4Ready) {
+                throw error;
             }
-            throw new Error(err.stderr || err.message);
+
+            if (!this.loginRetry) {
+                console.debug("P4: session expired, requesting login before retrying");
+                this.loginRetry = this.plugin.requestLogin("Your Perforce session has expired. Log in to continue.")
+                    .finally(() => {
+                        this.loginRetry = null;
+                    });
+            }
+            const loggedIn = await this.loginRetry;
+            if (!loggedIn) {
+                error.promptDismissed = true;
+                throw error;
+            }
+            return run();
+        }
+    }
+
+    /**
+     * Execute a p4 command and return the output
+     * Throws a P4Error subclass describing the failure
+     */
+    private async runP4(args: string[], options: P4CommandOptions = {}): Promise<string> {
+        return this.withLoginRetry(() => this.execP4(args, options), options);
+    }
+
+    /**
+     * Execute a p4 command once, without login retry
+     */
+    private async execP4(args: string[], options: P4CommandOptions): Promise<string> {
+        const { stdout, stderr, exitCode } = await this.spawnP4(args, options);
+
+        if (exitCode !== 0) {
+            const text = stderr.trim() || stdout.trim();
+            throw p4ErrorFromText(text || `p4 ${args[0] ?? ""} failed with exit code ${exitCode ?? "unknown"}`);
         }
+        // Check if stderr contains error indicators even if stdout has content
+        if (stderr && this.isP4Error(stderr)) {
+            throw p4ErrorFromText(stderr.trim());
+        }
+        return stdout;
     }
 
     /**
@@ -138,26 +401,47 @@ export class P4Manager {
     /**
      * Execute a p4 command with JSON output (-Mj -ztag flags)
      * -ztag gives structured tagged output, -Mj marshals it as JSON
+     * Warnings (e.g. "file(s) not opened") are skipped, real errors are thrown as P4Error
+     */
+    private async runP4Json<T>(args: string[], options: P4CommandOptions = {}): Promise<T[]> {
+        return this.withLoginRetry(() => this.execP4Json<T>(args, options), options);
+    }
+
+    /**
+     * Execute a p4 command with JSON output once, without login retry
      */
-    private async runP4Json<T>(args: string[], cwd?: string): Promise<T[]> {
-        const output = await this.runP4(["-Mj", "-ztag", ...args], cwd);
+    private async execP4Json<T>(args: string[], options: P4CommandOptions): Promise<T[]> {
+        const { stdout, stderr, exitCode } = await this.spawnP4(["-Mj", "-ztag", ...args], options);
         const results: T[] = [];
+        const errors: P4ErrorMessage[] = [];
 
         // P4 JSON output is one JSON object per line
-        const lines = output.trim().split("\n").filter(line => line.trim());
+        const lines = stdout.trim().split("\n").filter(line => line.trim());
         for (const line of lines) {
+            let parsed: unknown;
             try {
-                const parsed: unknown = JSON.parse(line);
-                // Skip error objects if they're just "file(s) not opened" type messages
-                if (typeof parsed === "object" && parsed !== null && 
-                    "code" in parsed && parsed.code === "error" && "data" in parsed) {
-                    continue;
-                }
-                results.push(parsed as T);
+                parsed = JSON.parse(line);
             } catch {
                 // Skip non-JSON lines (like summary messages)
+                continue;
+            }
+            const error = toP4ErrorMessage(parsed);
+            if (error) {
+                if (error.severity >= P4Severity.failed) {
+                    errors.push(error);
+                }
+                continue;
             }
+            results.push(parsed as T);
+        }
+
+        if (errors.length > 0) {
+            throw createP4Error(errors);
+        }
+        if ((exitCode !== 0 && stderr.trim()) || (stderr && this.isP4Error(stderr))) {
+            throw p4ErrorFromText(stderr.trim());
         }
+
         console.debug("P4 JSON results:", args[0], results);
         return results;
     }
@@ -191,35 +475,48 @@ export class P4Manager {
      * Check if p4 is installed and workspace is configured
      */
     async checkRequirements(): Promise<P4RequirementsResult> {
-        // Use a shorter timeout for requirement checks (5 seconds)
-        const quickCheck = <T>(promise: Promise<T>): Promise<T> => {
-            return Promise.race([
-                promise,
-                new Promise<T>((_, reject) => 
-                    setTimeout(() => reject(new Error("P4 check timed out")), 5000)
-                )
-            ]);
-        };
+        // Forget the previous connection, settings may have changed
+        this.info = null;
+        this.clientRoot = "";
+        this.requirementsError = null;
+        this.ignoreFileRules = null;
+        this.fileStates.clear();
+        this.failedSubmit = null;
+        this.discoveredConfig = this.discoverConfigFile();
+        if (this.discoveredConfig) {
+            console.debug("P4: using config file", this.discoveredConfig);
+        }
+
+        // Use a shorter timeout for requirement checks
+        const quickCheck: P4CommandOptions = { timeout: P4_REQUIREMENTS_TIMEOUT, skipLoginRetry: true };
 
         try {
             // Check if p4 is available (quick check)
-            await quickCheck(this.runP4(["help"]));
-        } catch {
-            return "missing-p4";
+            await this.runP4(["help"], quickCheck);
+        } catch (error) {
+            // p4 help talks to the server, so only a missing executable means p4 is missing
+            if (error instanceof P4MissingError || !(error instanceof P4Error)) {
+                return "missing-p4";
+            }
+            const result = this.toRequirementsResult(error);
+            if (result) {
+                this.requirementsError = error;
+                return result;
+            }
         }
 
         try {
             // Check if we have a valid workspace
-            const info = await quickCheck(this.getInfo());
+            const info = await this.getInfo(quickCheck);
             if (!info.clientName || info.clientName === "*unknown*") {
                 return "not-in-workspace";
             }
             this.info = info;
             this.clientRoot = info.clientRoot;
         } catch (error) {
-            const message = (error as Error).message || "";
-            if (message.includes("Perforce password")) {
-                return "not-logged-in";
+            if (error instanceof P4Error) {
+                this.requirementsError = error;
+                return this.toRequirementsResult(error) ?? "not-in-workspace";
             }
             return "not-in-workspace";
         }
@@ -227,10 +524,96 @@ export class P4Manager {
         return "valid";
     }
 
+    /**
+     * Map a connection-level error to a requirements result (null for other errors)
+     */
+    private toRequirementsResult(error: P4Error): P4RequirementsResult | null {
+        if (error instanceof P4NotLoggedInError) return "not-logged-in";
+        if (error instanceof P4UntrustedServerError) return "untrusted-server";
+        if (error instanceof P4CharsetError) return "charset-mismatch";
+        if (error instanceof P4ConnectionError || error instanceof P4TimeoutError) return "connection-failed";
+        return null;
+    }
+
+    /**
+     * Get the error behind the last failed requirements check, if any
+     */
+    getRequirementsError(): P4Error | null {
+        return this.requirementsError;
+    }
+
+    /**
+     * Trust the SSL server's fingerprint
+     * @param replace - replace a previously trusted fingerprint that has changed
+     */
+    async trust(fingerprint: string, replace: boolean = false): Promise<void> {
+        const args = replace ? ["trust", "-f", "-i", fingerprint] : ["trust", "-i", fingerprint];
+        await this.runP4(args, { timeout: P4_REQUIREMENTS_TIMEOUT, skipLoginRetry: true });
+    }
+
+    /**
+     * Resolve the connection variables p4 uses and where each value comes from
+     * Values set by the plugin are reported as such, the rest come from `p4 set`.
+     */
+    async getConnectionVariables(): Promise<P4ConnectionVariable[]> {
+        const resolved = await this.getSetVariables();
+        const connection = getActiveConnection(this.plugin.settings);
+        const profile = getActiveProfile(this.plugin.settings);
+        const pluginSource = profile ? `Profile "${profile.name}"` : "Plugin settings";
+        const fromPlugin: Record<string, string> = {
+            P4PORT: connection.p4Port,
+            P4USER: connection.p4User,
+            P4CLIENT: connection.p4Client,
+            P4CHARSET: connection.p4Charset,
+            P4CONFIG: connection.p4Config,
+        };
+
+        return P4_CONNECTION_VARIABLES.map(name => {
+            const entry = resolved.get(name);
+            if (fromPlugin[name]) {
+                return { name, value: fromPlugin[name], source: pluginSource };
+            }
+            if (name === "P4CONFIG" && this.discoveredConfig) {
+                return { name, value: this.discoveredConfig, source: "Found above the vault" };
+            }
+            if (!entry) {
+                return { name, value: "", source: "Not set" };
+            }
+            return { name, value: entry.value, source: this.describeSetSource(entry.source) };
+        });
+    }
+
+    /**
+     * Read the variables reported by `p4 set` with the source of each value
+     */
+    private async getSetVariables(): Promise<Map<string, { value: string; source: string }>> {
+        const output = await this.runP4(["set"], BACKGROUND);
+        const resolved = new Map<string, { value: string; source: string }>();
+        for (const line of output.split(/\r?\n/)) {
+            // e.g. "P4PORT=ssl:perforce:1666 (config '/home/me/.p4config')"
+            const match = line.match(/^(\w+)=(.*?)(?: \((.+)\))?$/);
+            if (match) {
+                resolved.set(match[1]!.toUpperCase(), { value: match[2]!, source: match[3] ?? "" });
+            }
+        }
+        return resolved;
+    }
+
+    /**
+     * Describe the source annotation printed by `p4 set`
+     */
+    private describeSetSource(source: string): string {
+        const config = source.match(/^config '(.+)'$/);
+        if (config) return `Config file (${config[1]})`;
+        if (source === "enviro") return "Environment";
+        if (source === "set" || source === "set -s") return "p4 set";
+        return source || "p4 set";
+    }
+
     /**
      * Get p4 info (user, client, server)
      */
-    async getInfo(): Promise<P4Info> {
+    async getInfo(options: P4CommandOptions = {}): Promise<P4Info> {
         // With -ztag -Mj, p4 info returns proper JSON with field names
         interface P4InfoJson {
             userName?: string;
@@ -238,9 +621,10 @@ export class P4Manager {
             clientRoot?: string;
             serverAddress?: string;
             serverVersion?: string;
+            unicode?: string;
         }
 
-        const results = await this.runP4Json<P4InfoJson>(["info"]);
+        const results = await this.runP4Json<P4InfoJson>(["info"], options);
         const data = results[0] || {};
 
         console.debug("P4 info result:", data);
@@ -251,6 +635,7 @@ export class P4Manager {
             clientRoot: data.clientRoot || "",
             serverAddress: data.serverAddress || "",
             serverVersion: data.serverVersion,
+            serverUnicode: data.unicode === "enabled",
         };
     }
 
@@ -271,7 +656,7 @@ export class P4Manager {
         try {
             // Get opened files - try without path restriction first (more reliable)
             // P4 returns all opened files for this client, we'll filter them later
-            const results = await this.runP4Json<P4OpenedJson>(["opened"]);
+            const results = await this.runP4Json<P4OpenedJson>(["opened"], BACKGROUND);
             console.debug("P4 opened raw results:", results);
             
             // Filter to only files in the vault
@@ -369,7 +754,7 @@ export class P4Manager {
             "-s", "pending",
             "-u", info.userName,
             "-c", info.clientName,
-        ]);
+        ], BACKGROUND);
 
         const changelists: P4Changelist[] = results
             .filter(item => item.change && parseInt(item.change, 10) > 0)
@@ -399,7 +784,8 @@ export class P4Manager {
      */
     async edit(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["edit", `"${absPath}"`]);
+        await this.runP4(["edit", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -407,7 +793,8 @@ export class P4Manager {
      */
     async editAndLock(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["edit", "-t", "+l", `"${absPath}"`]);
+        await this.runP4(["edit", "-t", "+l", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -415,7 +802,8 @@ export class P4Manager {
      */
     async lock(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["lock", `"${absPath}"`]);
+        await this.runP4(["lock", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -423,7 +811,8 @@ export class P4Manager {
      */
     async add(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["add", `"${absPath}"`]);
+        await this.runP4(["add", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -431,7 +820,8 @@ export class P4Manager {
      */
     async delete(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["delete", `"${absPath}"`]);
+        await this.runP4(["delete", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -439,31 +829,43 @@ export class P4Manager {
      */
     async revert(filePath: string): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
-        await this.runP4(["revert", `"${absPath}"`]);
+        await this.runP4(["revert", absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
      * Revert all changes in a changelist
      */
     async revertChangelist(changelist: number | "default"): Promise<void> {
+        const paths = this.getChangelistPaths(changelist);
         if (changelist === "default") {
             await this.runP4(["revert", "-c", "default", "//..."]);
         } else {
             await this.runP4(["revert", "-c", changelist.toString(), "//..."]);
         }
+        await this.updateFileStates(paths);
     }
 
     // ========== Folder Operations ==========
 
     /**
-     * Add all files in a folder to the depot
-     * Uses P4 wildcard syntax: path/...
+     * Add the new files in a folder to the depot, skipping ignored files
+     * `p4 reconcile -n -a` lists the files that aren't in the depot yet.
+     * @returns The number of files opened for add
      */
-    async addFolder(folderPath: string): Promise<void> {
+    async addFolder(folderPath: string): Promise<number> {
         const absPath = this.toAbsolutePath(folderPath);
         // Use forward slashes and wildcard for recursive matching
         const wildcard = absPath.replace(/\\/g, "/") + "/...";
-        await this.runP4(["add", `"${wildcard}"`]);
+        const found = await this.runP4Json<{ depotFile?: string; clientFile?: string }>(["reconcile", "-n", "-a", wildcard]);
+        const rules = await this.getIgnoreRules(true);
+        const files = found.filter(item => item.clientFile &&
+            !isIgnored(rules, this.depotToVaultPath(item.depotFile || "", item.clientFile)));
+        if (files.length === 0) return 0;
+
+        await this.runP4(["-x", "-", "add"], { input: files.map(f => f.clientFile).join("\n") });
+        await this.updateFileStates([`${folderPath}/...`]);
+        return files.length;
     }
 
     /**
@@ -473,7 +875,8 @@ export class P4Manager {
     async editFolder(folderPath: string): Promise<void> {
         const absPath = this.toAbsolutePath(folderPath);
         const wildcard = absPath.replace(/\\/g, "/") + "/...";
-        await this.runP4(["edit", `"${wildcard}"`]);
+        await this.runP4(["edit", wildcard]);
+        await this.updateFileStates([`${folderPath}/...`]);
     }
 
     /**
@@ -483,7 +886,8 @@ export class P4Manager {
     async deleteFolder(folderPath: string): Promise<void> {
         const absPath = this.toAbsolutePath(folderPath);
         const wildcard = absPath.replace(/\\/g, "/") + "/...";
-        await this.runP4(["delete", `"${wildcard}"`]);
+        await this.runP4(["delete", wildcard]);
+        await this.updateFileStates([`${folderPath}/...`]);
     }
 
     /**
@@ -493,7 +897,8 @@ export class P4Manager {
     async revertFolder(folderPath: string): Promise<void> {
         const absPath = this.toAbsolutePath(folderPath);
         const wildcard = absPath.replace(/\\/g, "/") + "/...";
-        await this.runP4(["revert", `"${wildcard}"`]);
+        await this.runP4(["revert", wildcard]);
+        await this.updateFileStates([`${folderPath}/...`]);
     }
 
     /**
@@ -505,14 +910,14 @@ export class P4Manager {
         const newAbsPath = this.toAbsolutePath(newPath);
         
         // First ensure the file is checked out
-        const isOpened = await this.isFileOpened(oldPath);
-        if (!isOpened) {
+        if (!this.fileStates.isOpened(oldPath)) {
             // Check out the file first
-            await this.runP4(["edit", `"${oldAbsPath}"`]);
+            await this.runP4(["edit", oldAbsPath]);
         }
         
         // Now move it
-        await this.runP4(["move", `"${oldAbsPath}"`, `"${newAbsPath}"`]);
+        await this.runP4(["move", oldAbsPath, newAbsPath]);
+        await this.updateFileStates([oldPath, newPath]);
     }
 
     /**
@@ -536,63 +941,13 @@ export class P4Manager {
     async updateChangelistDescription(changelist: number, newDescription: string): Promise<void> {
         // Get current changelist spec
         const output = await this.runP4(["change", "-o", changelist.toString()]);
-        
-        // Parse and update the description in the spec
-        // The spec format has "Description:" followed by indented lines
-        const lines = output.split("\n");
-        const newLines: string[] = [];
-        let inDescription = false;
-        let descriptionAdded = false;
-        
-        for (const line of lines) {
-            if (line.startsWith("Description:")) {
-                inDescription = true;
-                newLines.push("Description:");
-                // Add new description with proper indentation
-                for (const descLine of newDescription.split("\n")) {
-                    newLines.push("\t" + descLine);
-                }
-                descriptionAdded = true;
-            } else if (inDescription) {
-                // Skip old description lines (they start with tab)
-                if (!line.startsWith("\t") && line.trim() !== "") {
-                    inDescription = false;
-                    newLines.push(line);
-                }
-            } else {
-                newLines.push(line);
-            }
-        }
-        
-        if (!descriptionAdded) {
+        if (!/^Description:/m.test(output)) {
             throw new Error("Failed to parse changelist spec");
         }
-        
-        const newSpec = newLines.join("\n");
+        const newSpec = setSpecField(output, "Description", newDescription.split("\n"));
         
         // Submit the updated spec via stdin
-        const p4Process = spawn(this.p4Path, ["change", "-i"], {
-            cwd: this.vaultPath,
-            env: this.getP4Env(),
-        });
-        
-        p4Process.stdin.write(newSpec);
-        p4Process.stdin.end();
-        
-        await new Promise<void>((resolve, reject) => {
-            let stderr = "";
-            p4Process.stderr.on("data", (data: Buffer) => {
-                stderr += data.toString();
-            });
-            p4Process.on("close", (code: number) => {
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(`p4 change -i failed: ${stderr}`));
-                }
-            });
-            p4Process.on("error", reject);
-        });
+        await this.runP4(["change", "-i"], { input: newSpec });
     }
 
     /**
@@ -602,38 +957,14 @@ export class P4Manager {
         // Create a new changelist spec
         const spec = `Change: new\n\nDescription:\n\t${description.replace(/\n/g, "\n\t")}\n`;
         
-        const p4Process = spawn(this.p4Path, ["change", "-i"], {
-            cwd: this.vaultPath,
-            env: this.getP4Env(),
-        });
-        
-        p4Process.stdin.write(spec);
-        p4Process.stdin.end();
-        
-        return new Promise<number>((resolve, reject) => {
-            let stdout = "";
-            let stderr = "";
-            p4Process.stdout.on("data", (data: Buffer) => {
-                stdout += data.toString();
-            });
-            p4Process.stderr.on("data", (data: Buffer) => {
-                stderr += data.toString();
-            });
-            p4Process.on("close", (code: number) => {
-                if (code === 0) {
-                    // Parse changelist number from output like "Change 12345 created."
-                    const match = stdout.match(/Change (\d+) created/);
-                    if (match && match[1]) {
-                        resolve(parseInt(match[1], 10));
-                    } else {
-                        reject(new Error(`Failed to parse changelist number: ${stdout}`));
-                    }
-                } else {
-                    reject(new Error(`p4 change -i failed: ${stderr}`));
-                }
-            });
-            p4Process.on("error", reject);
-        });
+        const stdout = await this.runP4(["change", "-i"], { input: spec });
+
+        // Parse changelist number from output like "Change 12345 created."
+        const match = stdout.match(/Change (\d+) created/);
+        if (!match || !match[1]) {
+            throw new Error(`Failed to parse changelist number: ${stdout}`);
+        }
+        return parseInt(match[1], 10);
     }
 
     /**
@@ -646,29 +977,59 @@ export class P4Manager {
     /**
      * Sync files from the depot
      */
-    async sync(filePath?: string): Promise<P4SyncResult> {
-        interface P4SyncJson {
-            depotFile?: string;
-            clientFile?: string;
-            action?: string;
-            rev?: string;
-            fileSize?: string;
-        }
-
+    async sync(filePath?: string, syncOptions: P4SyncOptions = {}): Promise<P4SyncResult> {
         // Sync specific file, or the vault directory (not entire workspace)
         let target: string;
         if (filePath) {
-            target = `"${this.toAbsolutePath(filePath)}"`;
+            target = this.toAbsolutePath(filePath);
         } else {
             // Use proper P4 path syntax with forward slashes
             const vaultPathForP4 = this.vaultPath.replace(/\\/g, "/");
-            target = `"${vaultPathForP4}/..."`;
+            target = `${vaultPathForP4}/...`;
         }
         
-        console.debug("P4 sync target:", target);
-        const results = await this.runP4Json<P4SyncJson>(["sync", target]);
+        console.debug("P4 sync target:", target, syncOptions.revision);
+        return this.runSync([target + (syncOptions.revision ?? "")], {}, syncOptions);
+    }
+
+    /**
+     * Sync all files in a folder
+     * Uses P4 wildcard syntax: path/...
+     */
+    async syncFolder(folderPath: string, syncOptions: P4SyncOptions = {}): Promise<P4SyncResult> {
+        const wildcard = this.toAbsolutePath(folderPath).replace(/\\/g, "/") + "/...";
+        return this.runSync([wildcard + (syncOptions.revision ?? "")], {}, syncOptions);
+    }
+
+    /**
+     * Sync specific revisions, e.g. the files chosen from a sync preview
+     */
+    async syncFiles(files: P4IncomingFile[], syncOptions: P4SyncOptions = {}): Promise<P4SyncResult> {
+        return this.runSync(files.map(f => `${f.depotFile}#${f.rev}`), {}, syncOptions);
+    }
+
+    /**
+     * Preview a sync of the vault: the files that would change and their changelists
+     */
+    async previewSync(options: P4CommandOptions = {}): Promise<P4SyncPreview> {
+        interface P4SyncJson {
+            depotFile?: string;
+            clientFile?: string;
+            action?: string;
+            rev?: string;
+            change?: string;
+        }
+
+        const target = `${this.vaultPath.replace(/\\/g, "/")}/...`;
+        const [records, changes, opened] = await Promise.all([
+            this.runP4Json<P4SyncJson>(["sync", "-n", target], options),
+            // Includes the changes of the have revisions, those are dropped below
+            this.runP4Json<P4ChangesJson>(["changes", "-l", "-t", "-s", "submitted", `${target}#have,#head`], options),
+            this.getOpenedFiles(),
+        ]);
 
-        const files: P4SyncedFile[] = results
+        const openedPaths = new Set(opened.map(f => f.depotFile));
+        const files: P4IncomingFile[] = records
             .filter(item => item.depotFile)
             .map(item => ({
                 depotFile: item.depotFile || "",
@@ -676,9 +1037,138 @@ export class P4Manager {
                 vaultPath: this.depotToVaultPath(item.depotFile || "", item.clientFile),
                 action: this.mapSyncAction(item.action || ""),
                 rev: parseInt(item.rev || "0", 10),
+                change: parseInt(item.change || "0", 10),
+                opened: openedPaths.has(item.depotFile || ""),
             }));
 
-        return { files };
+        const incoming = new Set(files.map(f => f.change));
+        return {
+            files,
+            changes: changes.map(toHistoryEntry).filter(c => incoming.has(c.change)),
+        };
+    }
+
+    /**
+     * Get the latest submitted change affecting the vault (0 if there is none)
+     * Cheap enough to poll, used to decide when to preview a sync again.
+     */
+    async getLatestChange(): Promise<number> {
+        const target = `${this.vaultPath.replace(/\\/g, "/")}/...#head`;
+        const results = await this.runP4Json<P4ChangesJson>(["changes", "-m1", "-s", "submitted", target], BACKGROUND);
+        return parseInt(results[0]?.change || "0", 10);
+    }
+
+    /**
+     * Sync the vault with a client other than the configured one
+     * Used by workspace setup before the client is saved to the settings.
+     */
+    async syncClient(client: string, syncOptions: P4SyncOptions = {}): Promise<P4SyncResult> {
+        return this.runSync([`${this.vaultPath.replace(/\\/g, "/")}/...`], { client }, syncOptions);
+    }
+
+    /**
+     * Run p4 sync on the targets, streaming the synced files as p4 reports them
+     * There is no timeout: a single large file can take longer than the command timeout
+     * without any output, and the sync can be cancelled instead. A cancelled sync resolves
+     * with the files synced so far.
+     * Several targets are passed on stdin (-x -) so long selections don't hit command line limits.
+     */
+    private async runSync(targets: string[], options: P4CommandOptions, syncOptions: P4SyncOptions): Promise<P4SyncResult> {
+        interface P4SyncJson {
+            depotFile?: string;
+            clientFile?: string;
+            action?: string;
+            rev?: string;
+            fileSize?: string;
+            totalFileSize?: string;
+            totalFileCount?: string;
+        }
+
+        let files: P4SyncedFile[] = [];
+        let messages: P4ErrorMessage[] = [];
+        let progress: P4SyncProgress = { files: 0, bytes: 0, totalFiles: 0, totalBytes: 0, currentFile: "" };
+
+        const onLine = (line: string): void => {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(line);
+            } catch {
+                return;
+            }
+            const message = toP4ErrorMessage(parsed);
+            if (message) {
+                if (message.severity >= P4Severity.failed) {
+                    messages.push(message);
+                }
+                return;
+            }
+
+            const item = parsed as P4SyncJson;
+            if (!item.depotFile) return;
+            const file: P4SyncedFile = {
+                depotFile: item.depotFile,
+                clientFile: item.clientFile || "",
+                vaultPath: this.depotToVaultPath(item.depotFile, item.clientFile),
+                action: this.mapSyncAction(item.action || ""),
+                rev: parseInt(item.rev || "0", 10),
+            };
+            files.push(file);
+
+            // The first record carries the totals for the whole sync
+            progress = {
+                files: progress.files + 1,
+                bytes: progress.bytes + (parseInt(item.fileSize || "0", 10) || 0),
+                totalFiles: parseInt(item.totalFileCount || "", 10) || progress.totalFiles,
+                totalBytes: parseInt(item.totalFileSize || "", 10) || progress.totalBytes,
+                currentFile: file.vaultPath,
+            };
+            syncOptions.onProgress?.(progress);
+        };
+
+        let complete = true;
+        try {
+            await this.withLoginRetry(async () => {
+                // Start over if the sync is retried after logging in
+                files = [];
+                messages = [];
+                const args = targets.length === 1
+                    ? ["-Mj", "-ztag", "sync", targets[0]!]
+                    : ["-x", "-", "-Mj", "-ztag", "sync"];
+                const { stderr, exitCode } = await this.spawnP4(args, {
+                    ...options,
+                    input: targets.length === 1 ? undefined : targets.join("\n"),
+                    timeout: 0,
+                    signal: syncOptions.signal,
+                    onLine,
+                });
+
+                // Connection-level errors fail the whole sync, per-file errors are reported in the result
+                const error = messages.length > 0 ? createP4Error(messages) : null;
+                if (error && (FATAL_SYNC_ERRORS.includes(error.kind) || files.length === 0)) {
+                    throw error;
+                }
+                if (exitCode !== 0 && stderr.trim() && files.length === 0 && messages.length === 0) {
+                    throw p4ErrorFromText(stderr.trim());
+                }
+            }, options);
+        } catch (error) {
+            if (!(error instanceof P4CancelledError)) {
+                throw error;
+            }
+            complete = false;
+        }
+
+        console.debug("P4 sync results:", complete ? "complete" : "cancelled", files.length);
+        // Another client's sync (workspace setup) doesn't change this client's files
+        if (!options.client) {
+            await this.updateFileStates(files.map(f => f.vaultPath));
+        }
+        return {
+            files,
+            totalBytes: progress.bytes,
+            complete,
+            errors: messages.map(m => m.data.trim()),
+        };
     }
 
     private mapSyncAction(action: string): P4SyncedFile["action"] {
@@ -693,34 +1183,151 @@ export class P4Manager {
 
     /**
      * Submit a changelist
+     * Files left out of options.files are moved to options.moveOthersTo first.
+     * A description for a numbered changelist replaces its current one.
+     * @returns The submitted changelist number
      */
-    async submit(changelist: number | "default", description?: string): Promise<number> {
+    async submit(changelist: number | "default", description?: string, options: P4SubmitOptions = {}): Promise<number> {
         interface P4SubmitJson {
             submittedChange?: string;
         }
 
-        let args: string[];
-        if (changelist === "default") {
-            if (!description) {
-                throw new Error("Description is required for default changelist");
-            }
-            args = ["submit", "-d", `"${description}"`];
-        } else {
-            args = ["submit", "-c", changelist.toString()];
+        if (changelist === "default" && !description) {
+            throw new Error("Description is required for default changelist");
+        }
+
+        // The server submits what it has in the changelist, which may differ from the file states
+        const paths = await this.refreshChangelistFiles(changelist);
+        const chosen = options.files?.filter(p => paths.includes(p));
+        const others = chosen ? paths.filter(p => !chosen.includes(p)) : [];
+        const moveOthersTo = options.moveOthersTo ?? "default";
+        if (others.length > 0 && moveOthersTo !== changelist) {
+            await this.runP4(["reopen", "-c", moveOthersTo.toString(), ...others.map(p => this.toAbsolutePath(p))]);
         }
 
-        const results = await this.runP4Json<P4SubmitJson>(args);
+        const args = ["submit"];
+        if (options.revertUnchanged) {
+            args.push("-f", options.reopen ? "revertunchanged+reopen" : "revertunchanged");
+        } else if (options.reopen) {
+            args.push("-r");
+        }
+
+        let results: P4SubmitJson[];
+        try {
+            if (changelist === "default") {
+                // Submit a change form so the description isn't a command line argument
+                // and only the chosen files are listed
+                let spec = await this.runP4(["change", "-o"]);
+                spec = setSpecField(spec, "Description", description!.split("\n"));
+                if (options.jobs?.length) {
+                    spec = setSpecField(spec, "Jobs", options.jobs);
+                }
+                if (chosen) {
+                    spec = setSpecField(spec, "Files", chosen.map(p => this.fileStates.get(p)?.depotFile ?? this.toAbsolutePath(p)));
+                }
+                results = await this.runP4Json<P4SubmitJson>([...args, "-i"], { input: spec });
+            } else {
+                if (description !== undefined) {
+                    await this.updateChangelistDescription(changelist, description);
+                }
+                if (options.jobs?.length) {
+                    await this.runP4(["fix", "-c", changelist.toString(), ...options.jobs]);
+                }
+                results = await this.runP4Json<P4SubmitJson>([...args, "-c", changelist.toString()]);
+            }
+        } catch (error) {
+            if (error instanceof P4NeedsResolveError) {
+                throw await this.prepareResubmit(changelist, chosen ?? paths, error, options);
+            }
+            throw error;
+        } finally {
+            await this.updateFileStates(paths);
+        }
+        if (this.failedSubmit?.changelist === changelist) {
+            this.failedSubmit = null;
+        }
         const submitted = results.find(r => r.submittedChange);
         return submitted && submitted.submittedChange ? parseInt(submitted.submittedChange, 10) : 0;
     }
 
     /**
-     * Move files between changelists
+     * Submit the changelist of the last failed submit again, once its files are resolved
      */
-    async moveToChangelist(filePath: string, changelist: number | "default"): Promise<void> {
+    async retrySubmit(): Promise<number> {
+        if (!this.failedSubmit) {
+            throw new Error("There is no failed submit to retry");
+        }
+        const { changelist, options } = this.failedSubmit;
+        return this.submit(changelist, undefined, options);
+    }
+
+    /**
+     * Remember a submit that failed on out of date or unresolved files and sync them to schedule their resolves
+     * @param submitted Vault paths that were submitted, in case the failure doesn't name them
+     * @returns The error to throw
+     */
+    private async prepareResubmit(changelist: number | "default", submitted: string[], error: P4NeedsResolveError, options: P4SubmitOptions): Promise<P4Error> {
+        const failure = parseSubmitFailure(error.messages);
+        const retryChangelist = failure.changelist ?? (changelist === "default" ? null : changelist);
+        if (retryChangelist === null) {
+            return error;
+        }
+
+        // Files are reported in depot or local syntax, sync takes both
+        const targets = failure.files.length > 0 ? failure.files : submitted.map(p => this.toAbsolutePath(p));
+        const found = new Set(failure.files.filter(file => !file.startsWith("//")).map(file => this.toVaultPath(file)));
+        try {
+            // Syncing opened files schedules the resolves
+            const result = await this.runSync(targets, {}, {});
+            for (const file of result.files) {
+                found.add(file.vaultPath);
+            }
+        } catch (syncError) {
+            console.error("P4: failed to sync the files of a failed submit", syncError);
+        }
+        const files = found.size > 0 ? Array.from(found).sort() : submitted;
+
+        // Jobs and the description are already part of the changelist
+        this.failedSubmit = {
+            changelist: retryChangelist,
+            files,
+            options: { reopen: options.reopen, revertUnchanged: options.revertUnchanged },
+        };
+        return new P4SubmitFailedError(error.message, error.messages, this.failedSubmit);
+    }
+
+    /**
+     * Get the open jobs a submit can fix
+     */
+    async getOpenJobs(maxResults: number = 100): Promise<P4Job[]> {
+        interface P4JobJson {
+            Job?: string;
+            Status?: string;
+            User?: string;
+            Date?: string;
+            Description?: string;
+        }
+
+        const results = await this.runP4Json<P4JobJson>(["jobs", "-e", "status=open", "-m", maxResults.toString()], BACKGROUND);
+        return results
+            .filter(item => item.Job)
+            .map(item => ({
+                job: item.Job!,
+                status: item.Status || "",
+                user: item.User || "",
+                date: item.Date || "",
+                description: (item.Description || "").trim(),
+            }));
+    }
+
+    /**
+     * Move files between changelists
+     */
+    async moveToChangelist(filePath: string, changelist: number | "default"): Promise<void> {
         const absPath = this.toAbsolutePath(filePath);
         const clArg = changelist === "default" ? "default" : changelist.toString();
-        await this.runP4(["reopen", "-c", clArg, `"${absPath}"`]);
+        await this.runP4(["reopen", "-c", clArg, absPath]);
+        await this.updateFileStates([filePath]);
     }
 
     /**
@@ -730,7 +1337,7 @@ export class P4Manager {
     async getDepotContent(filePath: string): Promise<string | null> {
         const absPath = this.toAbsolutePath(filePath);
         try {
-            return await this.runP4(["print", "-q", `"${absPath}"`]);
+            return await this.runP4(["print", "-q", absPath]);
         } catch {
             return null;
         }
@@ -745,7 +1352,7 @@ export class P4Manager {
         // Get the diff output
         let diffText = "";
         try {
-            diffText = await this.runP4(["diff", `"${absPath}"`]);
+            diffText = await this.runP4(["diff", absPath]);
         } catch {
             // No differences
             diffText = "";
@@ -754,7 +1361,7 @@ export class P4Manager {
         // Get depot content for comparison
         let depotContent = "";
         try {
-            depotContent = await this.runP4(["print", "-q", `"${absPath}"`]);
+            depotContent = await this.runP4(["print", "-q", absPath]);
         } catch {
             depotContent = "";
         }
@@ -792,6 +1399,8 @@ export class P4Manager {
             args.push("-c", targetChangelist === "default" ? "default" : targetChangelist.toString());
         }
         await this.runP4(args);
+        // The shelved files aren't known here
+        await this.updateFileStates([ALL_FILES]);
     }
 
     /**
@@ -802,193 +1411,173 @@ export class P4Manager {
     }
 
     /**
-     * Get list of files synced in the vault (files we have locally from depot)
-     * Returns a Set of vault-relative paths
+     * Get the shelved changelists touching the vault, newest first
      */
-    async getHaveFiles(): Promise<Set<string>> {
-        interface P4HaveJson {
-            depotFile?: string;
-            clientFile?: string;
-            haveRev?: string;
+    async getShelves(filter: P4ShelfFilter = {}, maxResults: number = 100): Promise<P4HistoryEntry[]> {
+        const args = ["changes", "-s", "shelved", "-l", "-t", "-m", maxResults.toString()];
+        if (filter.user) args.push("-u", filter.user);
+        if (filter.client) args.push("-c", filter.client);
+        if (filter.path) {
+            // The path can be a note or a folder, each spec matches only one of them
+            const target = this.toAbsolutePath(normalizePath(filter.path)).replace(/\\/g, "/");
+            args.push(target, `${target}/...`);
+        } else {
+            args.push(`${this.vaultPath.replace(/\\/g, "/")}/...`);
         }
+        const results = await this.runP4Json<P4ChangesJson>(args, BACKGROUND);
+        return results.filter(item => item.change).map(toHistoryEntry);
+    }
 
-        const syncedFiles = new Set<string>();
+    /**
+     * Get the files of a shelved changelist with the revisions this client has
+     */
+    async getShelvedFiles(changelist: number): Promise<P4ShelvedFile[]> {
+        interface P4WhereJson {
+            depotFile?: string;
+            path?: string;
+        }
 
-        try {
-            // Get files in the vault directory that we have synced
-            const vaultPathForP4 = this.vaultPath.replace(/\\/g, "/");
-            const results = await this.runP4Json<P4HaveJson>(["have", `"${vaultPathForP4}/..."`]);
+        // Shelved files are numbered fields (depotFile0, action0, rev0, ...)
+        const [record] = await this.runP4Json<Record<string, string | undefined>>(["describe", "-S", "-s", changelist.toString()], BACKGROUND);
+        const files: P4ShelvedFile[] = [];
+        for (let i = 0; record?.[`depotFile${i}`]; i++) {
+            files.push({
+                depotFile: record[`depotFile${i}`]!,
+                vaultPath: null,
+                action: (record[`action${i}`] || "edit") as P4Action,
+                rev: parseInt(record[`rev${i}`] || "0", 10),
+                haveRev: 0,
+            });
+        }
+        if (files.length === 0) return files;
+
+        await this.ensureFileStates();
+        // Files outside the client view are reported as warnings and left out
+        const mapped = await this.runP4Json<P4WhereJson>(["where", ...files.map(f => f.depotFile)], BACKGROUND);
+        const localPaths = new Map(mapped.filter(m => m.depotFile && m.path).map(m => [m.depotFile, m.path!]));
+        for (const file of files) {
+            const localPath = localPaths.get(file.depotFile);
+            const vaultPath = localPath ? this.toVaultPath(localPath) : null;
+            if (vaultPath && !vaultPath.startsWith("..")) {
+                file.vaultPath = vaultPath;
+                file.haveRev = this.fileStates.get(vaultPath)?.haveRev ?? 0;
+            }
+        }
+        return files;
+    }
 
-            const info = this.info || await this.getInfo();
-            const clientRoot = info.clientRoot.replace(/\\/g, "/");
-            const vaultPathNormalized = this.vaultPath.replace(/\\/g, "/").toLowerCase();
+    /**
+     * Get the content a shelved file had before (the have revision) and in the shelf
+     */
+    async getShelvedFileDiff(changelist: number, file: P4ShelvedFile): Promise<P4DiffResult> {
+        const shelvedContent = file.action === "delete"
+            ? ""
+            : await this.runP4(["print", "-q", `${file.depotFile}@=${changelist}`], BACKGROUND);
+        const haveContent = file.haveRev > 0
+            ? await this.runP4(["print", "-q", `${file.depotFile}#${file.haveRev}`], BACKGROUND)
+            : "";
+        return {
+            depotFile: file.depotFile,
+            localFile: file.vaultPath ?? "",
+            depotContent: haveContent,
+            localContent: shelvedContent,
+        };
+    }
 
-            for (const item of results) {
-                const clientFile = item.clientFile || "";
-                
-                // clientFile is in format //clientName/path or absolute path
-                let absolutePath = clientFile;
-                
-                if (clientFile.startsWith("//")) {
-                    const afterDoubleSlash = clientFile.substring(2);
-                    const slashIndex = afterDoubleSlash.indexOf("/");
-                    if (slashIndex !== -1) {
-                        const relativePath = afterDoubleSlash.substring(slashIndex + 1);
-                        absolutePath = `${clientRoot}/${relativePath}`;
-                    }
-                }
-                
-                // Normalize path for comparison (forward slashes, lowercase)
-                const normalizedPath = absolutePath.replace(/\\/g, "/").toLowerCase();
-                
-                // Check if file is in vault
-                if (normalizedPath.startsWith(vaultPathNormalized)) {
-                    // Convert to vault-relative path using normalized paths for correct substring extraction
-                    // We must use normalized path lengths to avoid issues with mixed case/slashes on Windows
-                    let vaultRelative = normalizedPath.substring(vaultPathNormalized.length);
-                    vaultRelative = vaultRelative.replace(/^\/+/, ""); // Remove leading slashes
-                    syncedFiles.add(vaultRelative);
-                }
+    /**
+     * Find the shelved files that can't be unshelved cleanly into this client
+     */
+    getUnshelveConflicts(files: P4ShelvedFile[]): P4UnshelveConflict[] {
+        const conflicts: P4UnshelveConflict[] = [];
+        for (const file of files) {
+            if (!file.vaultPath) {
+                conflicts.push({ file, kind: "not-in-vault", message: "Not mapped into the vault" });
+                continue;
+            }
+            const state = this.fileStates.get(file.vaultPath);
+            if (state?.action) {
+                const changelist = state.changelist === "default" ? "the default changelist" : `changelist ${state.changelist ?? ""}`;
+                conflicts.push({ file, kind: "opened", message: `Already opened for ${state.action} in ${changelist}, it can't be unshelved` });
+            } else if (file.action !== "add" && file.rev !== file.haveRev) {
+                conflicts.push({ file, kind: "out-of-date", message: `Shelved at #${file.rev} but you have #${file.haveRev}, it will need a resolve` });
             }
-        } catch (error) {
-            console.debug("P4 have: Error getting synced files:", error);
-            // Return empty set on error - non-critical
         }
-
-        return syncedFiles;
+        return conflicts;
     }
 
     /**
      * Get blame/annotate information for a file
+     * Uses tagged output: -c reports changelists instead of revisions, -I follows
+     * integrations and -T keeps the line content tab-safe.
      */
     async annotate(filePath: string): Promise<P4BlameResult> {
+        interface P4AnnotateJson {
+            depotFile?: string;
+            lower?: string;
+            upper?: string;
+            user?: string;
+            time?: string;
+            data?: string;
+        }
+
         const absPath = this.toAbsolutePath(filePath);
-        
-        // Use p4 annotate with -u (show user) and -c (show changelist)
-        // Quote the path since runP4 joins arguments with spaces and paths may contain spaces
-        const output = await this.runP4(["annotate", "-u", "-c", `"${absPath}"`]);
-        
-        console.debug("P4 annotate raw output:", output.substring(0, 500));
-        
+        const results = await this.runP4Json<P4AnnotateJson>(
+            ["annotate", "-I", "-T", "-u", "-c", absPath],
+            BACKGROUND,
+        );
+
         const lines: P4BlameLine[] = [];
-        // Handle Windows line endings (\r\n) by removing \r
-        const outputLines = output.replace(/\r/g, "").split("\n");
-        
-        // Track actual line number (some output lines may be headers)
-        let lineNumber = 0;
-        
-        for (let i = 0; i < outputLines.length; i++) {
-            const line = outputLines[i];
-            if (!line || line.trim() === "") continue;
-            
-            // Skip depot file header line (e.g., "//depot/path/file.md - edit change 1234")
-            if (line.startsWith("//")) continue;
-            
-            // Main format: changelist: user date [content]
-            // Example: 48: mord4r 2025/11/08  - pojedyncze, powtarzalne zadania
-            // Use a more permissive regex that captures everything after the date
-            // Date can use / or - as separator
-            const mainMatch = line.match(/^(\d+):\s*(\S+)\s+(\d{4}[-/]\d{2}[-/]\d{2})(.*)$/);
-            if (mainMatch && mainMatch[1] && mainMatch[2] && mainMatch[3]) {
-                lineNumber++;
-                // Content is everything after the date, trimmed
-                const content = (mainMatch[4] || "").replace(/^[\s:]+/, "").trim();
-                console.debug("P4 annotate: matched line", lineNumber, "changelist:", mainMatch[1], "user:", mainMatch[2], "date:", mainMatch[3]);
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(mainMatch[1], 10),
-                    user: mainMatch[2],
-                    date: mainMatch[3],
-                    content: content,
-                });
-                continue;
-            }
-            
-            // Debug: log what we're trying to match
-            console.debug("P4 annotate: trying to match:", JSON.stringify(line.substring(0, 60)));
-            
-            // Alternate format: changelist: user date: content (colon after date)
-            // Example: 12345: john 2024/01/15: line content here
-            const match2 = line.match(/^(\d+):\s*(\S+)\s+(\d{4}\/\d{2}\/\d{2}):\s*(.*)$/);
-            if (match2 && match2[1] && match2[2] && match2[3]) {
-                lineNumber++;
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(match2[1], 10),
-                    user: match2[2],
-                    date: match2[3],
-                    content: (match2[4] || "").trim(),
-                });
-                continue;
-            }
-            
-            // Simpler format without date: changelist: user: content
-            const match3 = line.match(/^(\d+):\s*(\S+):\s*(.*)$/);
-            if (match3 && match3[1] && match3[2]) {
-                lineNumber++;
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(match3[1], 10),
-                    user: match3[2],
-                    content: (match3[3] || "").trim(),
-                });
-                continue;
-            }
-            
-            // Format 4: changelist - user date: content (dash separator)
-            const match4 = line.match(/^(\d+)\s*-\s*(\S+)\s+(\d{4}\/\d{2}\/\d{2}):\s?(.*)$/);
-            if (match4 && match4[1] && match4[2] && match4[3]) {
-                lineNumber++;
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(match4[1], 10),
-                    user: match4[2],
-                    date: match4[3],
-                    content: match4[4] || "",
-                });
-                continue;
-            }
-            
-            // Format 5: changelist: content (no user/date, basic format)
-            const match5 = line.match(/^(\d+):\s*(.*)$/);
-            if (match5 && match5[1]) {
-                lineNumber++;
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(match5[1], 10),
-                    user: "unknown",
-                    content: match5[2] || "",
-                });
-                continue;
-            }
-            
-            // Format 6: user changelist date: content (alternate order)
-            const match6 = line.match(/^(\S+)\s+(\d+)\s+(\d{4}\/\d{2}\/\d{2}):\s?(.*)$/);
-            if (match6 && match6[1] && match6[2] && match6[3]) {
-                lineNumber++;
-                lines.push({
-                    lineNumber,
-                    changelist: parseInt(match6[2], 10),
-                    user: match6[1],
-                    date: match6[3],
-                    content: match6[4] || "",
-                });
-                continue;
+        const blocks: P4BlameBlock[] = [];
+
+        for (const r of results) {
+            // The first record describes the file itself, every following record is one line
+            if (r.lower === undefined || r.data === undefined) continue;
+
+            const lineNumber = lines.length + 1;
+            const lower = parseInt(r.lower, 10);
+            const upper = parseInt(r.upper ?? r.lower, 10);
+            const user = r.user || "unknown";
+            const date = r.time ? this.formatAnnotateDate(r.time) : undefined;
+
+            lines.push({
+                lineNumber,
+                changelist: lower,
+                user,
+                date,
+                content: r.data.replace(/\r?\n$/, ""),
+            });
+
+            // Consecutive lines from the same change range form one block
+            const last = blocks[blocks.length - 1];
+            if (last && last.lower === lower && last.upper === upper && last.user === user) {
+                last.endLine = lineNumber;
+            } else {
+                blocks.push({ startLine: lineNumber, endLine: lineNumber, lower, upper, user, date });
             }
-            
-            // Unmatched lines don't increment lineNumber - they're not content lines
-            console.debug("P4 annotate: unmatched line format:", line);
         }
 
-        console.debug("P4 annotate: parsed", lines.length, "lines");
-        
+        console.debug("P4 annotate: parsed", lines.length, "lines in", blocks.length, "blocks");
+
         return {
             filePath,
             lines,
+            blocks,
             fetchedAt: Date.now(),
         };
     }
 
+    /**
+     * Normalize an annotate time field (epoch seconds or YYYY/MM/DD) to YYYY/MM/DD
+     */
+    private formatAnnotateDate(time: string): string {
+        if (!/^\d+$/.test(time)) return time;
+
+        const date = new Date(parseInt(time, 10) * 1000);
+        const month = String(date.getMonth() + 1).padStart(2, "0");
+        const day = String(date.getDate()).padStart(2, "0");
+        return `${date.getFullYear()}/${month}/${day}`;
+    }
+
     /**
      * Get description for a specific changelist
      */
@@ -998,7 +1587,7 @@ export class P4Manager {
         }
 
         try {
-            const results = await this.runP4Json<P4DescribeJson>(["describe", "-s", changelist.toString()]);
+            const results = await this.runP4Json<P4DescribeJson>(["describe", "-s", changelist.toString()], BACKGROUND);
             if (results.length > 0 && results[0]?.desc) {
                 return results[0].desc.trim();
             }
@@ -1008,18 +1597,19 @@ export class P4Manager {
         return "";
     }
 
+    /**
+     * Get the jobs a pending changelist fixes
+     */
+    async getChangelistJobs(changelist: number): Promise<string[]> {
+        const spec = await this.runP4(["change", "-o", changelist.toString()], BACKGROUND);
+        // Job lines end in a comment with the job's description
+        return getSpecField(spec, "Jobs").map(line => line.replace(/\s+#.*$/, "").trim()).filter(Boolean);
+    }
+
     /**
      * Get submitted changelist history
      */
     async getHistory(maxResults: number = 50): Promise<P4HistoryEntry[]> {
-        interface P4ChangesJson {
-            change?: string;
-            user?: string;
-            client?: string;
-            time?: string;
-            desc?: string;
-        }
-
         const results = await this.runP4Json<P4ChangesJson>([
             "changes",
             "-m", maxResults.toString(),
@@ -1028,13 +1618,7 @@ export class P4Manager {
             "...",
         ]);
 
-        return results.map(item => ({
-            change: parseInt(item.change || "0", 10),
-            user: item.user || "",
-            client: item.client || "",
-            date: item.time || "",
-            description: (item.desc || "").trim(),
-        }));
+        return results.map(toHistoryEntry);
     }
 
     /**
@@ -1063,39 +1647,11 @@ export class P4Manager {
             }));
     }
 
-    /**
-     * Check if a file is opened for edit
-     */
-    async isFileOpened(filePath: string): Promise<boolean> {
-        const absPath = this.toAbsolutePath(filePath);
-        try {
-            const output = await this.runP4(["opened", `"${absPath}"`]);
-            return output.trim().length > 0;
-        } catch {
-            return false;
-        }
-    }
-
-    /**
-     * Check if a file exists in the depot (has been added/synced)
-     */
-    async isFileInDepot(filePath: string): Promise<boolean> {
-        const absPath = this.toAbsolutePath(filePath);
-        try {
-            // p4 files will return info if the file is in the depot
-            const output = await this.runP4(["files", `"${absPath}"`]);
-            // If output contains the file path, it's in the depot
-            return output.trim().length > 0 && !output.includes("no such file");
-        } catch {
-            return false;
-        }
-    }
-
     /**
      * Ensure a file is checked out (for auto-checkout feature)
      */
     async ensureCheckedOut(filePath: string): Promise<boolean> {
-        if (await this.isFileOpened(filePath)) {
+        if (this.fileStates.isOpened(filePath)) {
             return true;
         }
 
@@ -1117,38 +1673,8 @@ export class P4Manager {
      * Login to Perforce
      */
     async login(password: string): Promise<void> {
-        // Use spawn with stdin to avoid shell injection vulnerabilities
-        const { spawn } = await import("child_process");
-        
-        return new Promise((resolve, reject) => {
-            const p4Process = spawn(this.p4Path || "p4", ["login"], {
-                cwd: this.vaultPath,
-                stdio: ["pipe", "pipe", "pipe"],
-                env: this.getP4Env(),
-            });
-
-            let stderr = "";
-
-            p4Process.stderr.on("data", (data: Buffer) => {
-                stderr += data.toString();
-            });
-
-            p4Process.on("close", (code) => {
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(stderr || `p4 login failed with code ${code}`));
-                }
-            });
-
-            p4Process.on("error", (err) => {
-                reject(err);
-            });
-
-            // Write password to stdin and close it
-            p4Process.stdin.write(password + "\n");
-            p4Process.stdin.end();
-        });
+        // Password goes through stdin so it never appears in the argument list
+        await this.runP4(["login"], { input: password + "\n", skipLoginRetry: true });
     }
 
     /**
@@ -1156,7 +1682,7 @@ export class P4Manager {
      */
     async isLoggedIn(): Promise<boolean> {
         try {
-            await this.runP4(["login", "-s"]);
+            await this.runP4(["login", "-s"], { skipLoginRetry: true });
             return true;
         } catch {
             return false;
@@ -1170,6 +1696,13 @@ export class P4Manager {
         return this.clientRoot;
     }
 
+    /**
+     * Get the vault's folder on disk
+     */
+    getVaultPath(): string {
+        return this.vaultPath;
+    }
+
     /**
      * Refresh cached info
      */
@@ -1178,6 +1711,506 @@ export class P4Manager {
         this.clientRoot = this.info.clientRoot;
     }
 
+    // ========== Client Spec ==========
+
+    /**
+     * Get the current client (workspace) spec
+     */
+    async getClientSpec(): Promise<P4ClientSpec> {
+        const results = await this.runP4Json<Record<string, string>>(["client", "-o"]);
+        if (!results[0]) {
+            throw new Error("p4 client -o returned no spec");
+        }
+        return parseClientSpec(results[0]);
+    }
+
+    /**
+     * Save a client spec through `p4 client -i`
+     */
+    async saveClientSpec(spec: P4ClientSpec): Promise<void> {
+        await this.runP4(["client", "-i"], { input: formatClientSpec(spec) });
+        // The root may have changed
+        await this.refresh();
+        // The view may map other files, load them again on the next refresh
+        this.fileStates.clear();
+    }
+
+    /**
+     * Determine how much of the vault folder a client spec maps
+     */
+    getVaultCoverage(spec: P4ClientSpec): P4ViewCoverage {
+        const relative = this.vaultRelativeTo(spec.root);
+        if (relative === null) {
+            return "none";
+        }
+        const folder = relative ? `//${spec.client}/${relative}` : `//${spec.client}`;
+        return getViewCoverage(spec.view, folder);
+    }
+
+    /**
+     * Check whether the vault folder is inside a client root
+     */
+    isVaultUnderRoot(root: string): boolean {
+        return this.vaultRelativeTo(root) !== null;
+    }
+
+    /**
+     * Path of the vault relative to a client root ("" for the root itself), or null if outside
+     */
+    private vaultRelativeTo(root: string): string | null {
+        if (!root) return null;
+        const relative = path.relative(root, this.vaultPath);
+        if (relative.startsWith("..") || path.isAbsolute(relative)) {
+            return null;
+        }
+        return relative ? normalizePath(relative) : "";
+    }
+
+    /**
+     * List the clients owned by a user (the current user by default)
+     */
+    async getClients(user?: string): Promise<P4ClientSummary[]> {
+        interface P4ClientsJson {
+            client?: string;
+            Owner?: string;
+            Root?: string;
+            Host?: string;
+            Stream?: string;
+            Description?: string;
+        }
+
+        const owner = user || (await this.getInfo()).userName;
+        const results = await this.runP4Json<P4ClientsJson>(["clients", "-u", owner]);
+        return results
+            .filter(item => item.client)
+            .map(item => ({
+                client: item.client || "",
+                owner: item.Owner || "",
+                root: item.Root || "",
+                host: item.Host || "",
+                stream: item.Stream || "",
+                description: (item.Description || "").trim(),
+            }));
+    }
+
+    /**
+     * Check whether a client with this exact name exists on the server
+     */
+    async clientExists(name: string): Promise<boolean> {
+        const results = await this.runP4Json<{ client?: string }>(["clients", "-e", name]);
+        return results.some(item => item.client === name);
+    }
+
+    /**
+     * List stream paths on the server
+     */
+    async getStreams(): Promise<string[]> {
+        const results = await this.runP4Json<{ Stream?: string }>(["streams"]);
+        return results.map(item => item.Stream || "").filter(Boolean);
+    }
+
+    /**
+     * List local and stream depots as depot paths (e.g. //depot)
+     */
+    async getDepots(): Promise<string[]> {
+        const results = await this.runP4Json<{ name?: string; type?: string }>(["depots"]);
+        return results
+            .filter(item => item.name && (item.type === "local" || item.type === "stream"))
+            .map(item => `//${item.name}`);
+    }
+
+    /**
+     * Create a client rooted at the vault folder
+     * A depot path source maps that path to the client root, a stream source
+     * takes its view from the stream.
+     */
+    async createClient(name: string, source: P4ClientSource): Promise<P4ClientSpec> {
+        if (await this.clientExists(name)) {
+            throw new P4Error(`Client ${name} already exists`);
+        }
+
+        const args = "stream" in source ? ["client", "-o", "-S", source.stream, name] : ["client", "-o", name];
+        const results = await this.runP4Json<Record<string, string>>(args);
+        if (!results[0]) {
+            throw new Error("p4 client -o returned no spec");
+        }
+
+        const spec = parseClientSpec(results[0]);
+        spec.root = this.vaultPath;
+        if ("depotPath" in source) {
+            const depotPath = source.depotPath.replace(/\/*(\.\.\.)?$/, "");
+            spec.view = [{ prefix: "", depotPath: `${depotPath}/...`, clientPath: `//${name}/...` }];
+        }
+        await this.runP4(["client", "-i"], { input: formatClientSpec(spec) });
+        return spec;
+    }
+
+    // ========== Reconcile ==========
+
+    /**
+     * Find work done outside Perforce: edited, new and deleted files that aren't opened
+     * Files matched by the ignore rules (see getIgnoreRules) are left out.
+     */
+    async previewReconcile(): Promise<P4ReconcileFile[]> {
+        interface P4ReconcileJson {
+            depotFile?: string;
+            clientFile?: string;
+            action?: string;
+        }
+
+        const target = `${this.vaultPath.replace(/\\/g, "/")}/...`;
+        const results = await this.runP4Json<P4ReconcileJson>(["reconcile", "-n", "-e", "-a", "-d", target]);
+        const rules = await this.getIgnoreRules(true);
+
+        return results
+            .filter(item => item.depotFile && ["edit", "add", "delete"].includes(item.action || ""))
+            .map(item => ({
+                depotFile: item.depotFile || "",
+                clientFile: item.clientFile || "",
+                vaultPath: this.depotToVaultPath(item.depotFile || "", item.clientFile),
+                action: item.action as P4ReconcileFile["action"],
+            }))
+            .filter(file => !isIgnored(rules, file.vaultPath));
+    }
+
+    /**
+     * Open files found by previewReconcile in a changelist
+     * The paths are passed on stdin (-x -), so long selections don't hit command line limits.
+     */
+    async reconcile(files: P4ReconcileFile[], changelist: number | "default"): Promise<void> {
+        if (files.length === 0) return;
+        await this.runP4(
+            ["-x", "-", "reconcile", "-c", changelist.toString()],
+            { input: files.map(f => f.clientFile || f.depotFile).join("\n") },
+        );
+        await this.updateFileStates(files.map(f => f.vaultPath));
+    }
+
+    // ========== File States ==========
+
+    /**
+     * Read the state of every depot file in the vault with `p4 fstat`
+     * Replaces the separate `p4 have` and `p4 opened` lookups, operations then keep
+     * the store current with updateFileStates.
+     */
+    async loadFileStates(): Promise<void> {
+        const target = `${this.vaultPath.replace(/\\/g, "/")}/...`;
+        const results = await this.runP4Json<P4FstatJson>(["fstat", target], BACKGROUND);
+        this.fileStates.replace(results.flatMap(item => this.toFileState(item)));
+    }
+
+    /**
+     * Load the file states unless they are loaded (they are dropped when an update fails)
+     */
+    async ensureFileStates(): Promise<void> {
+        if (!this.fileStates.isLoaded()) {
+            await this.loadFileStates();
+        }
+    }
+
+    /**
+     * Read the state of the files an operation touched again
+     * A failed update drops the whole store, so the next refresh loads it in full.
+     * @param targets Vault paths, a folder ending in "/..." for everything below it, or ALL_FILES
+     */
+    async updateFileStates(targets: string[]): Promise<void> {
+        if (targets.length === 0 || !this.fileStates.isLoaded()) return;
+        try {
+            const results = await this.runP4Json<P4FstatJson>(
+                ["-x", "-", "fstat"],
+                { ...BACKGROUND, input: targets.map(t => this.toAbsolutePath(t).replace(/\\/g, "/")).join("\n") },
+            );
+            this.fileStates.update(targets, results.flatMap(item => this.toFileState(item)));
+        } catch (error) {
+            console.error("P4 file state update failed:", error);
+            this.fileStates.clear();
+        }
+    }
+
+    /**
+     * Convert a `p4 fstat` record (empty for files outside the vault)
+     */
+    private toFileState(item: P4FstatJson): P4FileState[] {
+        if (!item.depotFile || !item.clientFile) return [];
+        const vaultPath = this.depotToVaultPath(item.depotFile, item.clientFile);
+        if (vaultPath.startsWith("..")) return [];
+
+        const change = item.change;
+        return [{
+            vaultPath,
+            depotFile: item.depotFile,
+            clientFile: item.clientFile,
+            headRev: parseInt(item.headRev || "0", 10),
+            headAction: item.headAction,
+            headType: item.headType,
+            haveRev: parseInt(item.haveRev || "0", 10),
+            action: item.action as P4Action | undefined,
+            changelist: item.action ? (change && change !== "default" ? parseInt(change, 10) : "default") : undefined,
+            type: item.type,
+            workRev: item.workRev ? parseInt(item.workRev, 10) : undefined,
+            ourLock: item.ourLock !== undefined,
+            otherOpens: this.toOtherOpens(item),
+            unresolved: item.unresolved !== undefined,
+        }];
+    }
+
+    /**
+     * Read the files opened in a changelist from the server and update their states
+     * Files may have been opened into it or reverted outside the plugin.
+     * @returns Vault paths of the files opened in the changelist
+     */
+    async refreshChangelistFiles(changelist: number | "default"): Promise<string[]> {
+        const paths = (await this.getOpenedFiles())
+            .filter(f => f.changelist === changelist)
+            .map(f => f.vaultPath);
+        await this.updateFileStates(Array.from(new Set([...this.getChangelistPaths(changelist), ...paths])));
+        return paths;
+    }
+
+    /**
+     * Vault paths of the files opened in a changelist
+     */
+    private getChangelistPaths(changelist: number | "default"): string[] {
+        return this.fileStates.getOpenedFiles().filter(f => f.changelist === changelist).map(f => f.vaultPath);
+    }
+
+    /**
+     * Convert the numbered otherOpen fields of a `p4 fstat` record
+     * A file is locked for an opener holding the lock, or for everyone when its type is exclusive (+l).
+     */
+    private toOtherOpens(item: P4FstatJson): P4OtherOpen[] {
+        const count = parseInt(item.otherOpen || "0", 10);
+        if (!item.depotFile || count === 0) return [];
+
+        const lockedBy = new Set(Object.keys(item).filter(key => /^otherLock\d+$/.test(key)).map(key => item[key]));
+        const exclusive = (item.headType || "").includes("+l");
+        const opens: P4OtherOpen[] = [];
+        for (let i = 0; i < count; i++) {
+            const opener = item[`otherOpen${i}`] || "";
+            const at = opener.lastIndexOf("@");
+            const change = item[`otherChange${i}`];
+            opens.push({
+                vaultPath: this.depotToVaultPath(item.depotFile, item.clientFile),
+                depotFile: item.depotFile,
+                user: at >= 0 ? opener.slice(0, at) : opener,
+                client: at >= 0 ? opener.slice(at + 1) : "",
+                action: (item[`otherAction${i}`] || "edit") as P4Action,
+                changelist: change && change !== "default" ? parseInt(change, 10) : "default",
+                // Older servers only report that someone holds a lock
+                locked: exclusive || lockedBy.has(opener) || (lockedBy.size === 0 && item.otherLock !== undefined && count === 1),
+            });
+        }
+        return opens;
+    }
+
+    // ========== Offline Journal ==========
+
+    /**
+     * Check if a vault file can be written (depot files that aren't opened are read-only)
+     * Works without a connection, so offline mode uses it to tell depot files apart.
+     */
+    async isWritable(filePath: string): Promise<boolean> {
+        try {
+            await access(this.toAbsolutePath(filePath), fsConstants.W_OK);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Make a vault file writable without opening it, so it can be edited offline
+     */
+    async makeWritable(filePath: string): Promise<void> {
+        const absPath = this.toAbsolutePath(filePath);
+        const stats = await stat(absPath);
+        await chmod(absPath, stats.mode | 0o200);
+    }
+
+    /**
+     * Check offline journal entries against the server before replaying them
+     * A file that changed on the server since the last sync needs a resolve, one that
+     * was deleted, added or locked there can't be replayed.
+     */
+    async reviewJournal(entries: P4JournalEntry[]): Promise<P4JournalReview[]> {
+        interface P4FstatJson {
+            depotFile?: string;
+            clientFile?: string;
+            headAction?: string;
+            headRev?: string;
+            haveRev?: string;
+            action?: string;
+            otherLock?: string;
+        }
+
+        const paths = Array.from(new Set(entries.flatMap(e => e.fromPath ? [e.fromPath, e.vaultPath] : [e.vaultPath])));
+        if (paths.length === 0) return [];
+        // Files that aren't in the depot are reported as warnings and skipped
+        const results = await this.runP4Json<P4FstatJson>(
+            ["-x", "-", "fstat"],
+            { input: paths.map(p => this.toAbsolutePath(p)).join("\n") },
+        );
+        const states = new Map(results
+            .filter(item => item.depotFile)
+            .map(item => [this.depotToVaultPath(item.depotFile || "", item.clientFile), item]));
+
+        const headRev = (state?: P4FstatJson): number => parseInt(state?.headRev || "0", 10);
+        const inDepot = (state?: P4FstatJson): boolean => headRev(state) > 0 && !state?.headAction?.includes("delete");
+        const outOfDate = (state?: P4FstatJson): boolean => parseInt(state?.haveRev || "0", 10) < headRev(state);
+
+        return entries.map((entry): P4JournalReview => {
+            const review = (status: P4JournalReview["status"], reason: string = "", action = entry.action): P4JournalReview =>
+                ({ entry, action, status, reason });
+            const state = states.get(entry.vaultPath);
+
+            switch (entry.action) {
+                case "edit":
+                    if (state?.action) return review("skip", `Already opened for ${state.action}`);
+                    if (headRev(state) === 0) return review("skip", "Not in the depot");
+                    if (!inDepot(state)) return review("conflict", "Deleted on the server");
+                    if (state?.otherLock !== undefined) return review("conflict", "Locked by another user");
+                    if (outOfDate(state)) return review("needs-resolve", "Changed on the server, resolve after replaying");
+                    return review("ready");
+                case "add":
+                    if (state?.action) return review("skip", `Already opened for ${state.action}`);
+                    if (!existsSync(this.toAbsolutePath(entry.vaultPath))) return review("skip", "No longer in the vault");
+                    if (inDepot(state)) return review("conflict", "Added on the server");
+                    return review("ready");
+                case "delete":
+                    if (state?.action) return review("skip", `Already opened for ${state.action}`);
+                    if (headRev(state) === 0) return review("skip", "Not in the depot");
+                    if (!inDepot(state)) return review("skip", "Already deleted on the server");
+                    if (state?.otherLock !== undefined) return review("conflict", "Locked by another user");
+                    if (outOfDate(state)) return review("conflict", "Changed on the server since your last sync");
+                    return review("ready");
+                case "move": {
+                    const source = states.get(entry.fromPath ?? "");
+                    if (inDepot(state)) return review("conflict", `${entry.vaultPath} was added on the server`);
+                    if (!inDepot(source)) return review("ready", "Not in the depot, the file is added", "add");
+                    if (source?.otherLock !== undefined) return review("conflict", "Locked by another user");
+                    if (outOfDate(source)) return review("needs-resolve", "Changed on the server, resolve after replaying");
+                    return review("ready");
+                }
+            }
+        });
+    }
+
+    /**
+     * Replay a reviewed journal entry in a changelist
+     * A file that changed on the server is synced afterwards, which schedules a resolve.
+     */
+    async replayJournalEntry(review: P4JournalReview, changelist: number | "default"): Promise<void> {
+        const { entry } = review;
+        const change = changelist.toString();
+        const target = this.toAbsolutePath(entry.vaultPath);
+
+        switch (review.action) {
+            case "edit":
+                await this.runP4(["edit", "-c", change, target]);
+                break;
+            case "add":
+                await this.runP4(["add", "-c", change, target]);
+                break;
+            case "delete":
+                await this.runP4(["delete", "-c", change, target]);
+                break;
+            case "move": {
+                const source = this.toAbsolutePath(entry.fromPath ?? "");
+                await this.runP4(["edit", "-c", change, source]);
+                // The file was already moved in the vault, -k only moves it on the server
+                await this.runP4(["move", "-k", "-c", change, source, target]);
+                break;
+            }
+        }
+
+        if (review.status === "needs-resolve") {
+            await this.runP4(["sync", target]);
+        }
+        await this.updateFileStates(entry.fromPath ? [entry.fromPath, entry.vaultPath] : [entry.vaultPath]);
+    }
+
+    // ========== Ignore Rules ==========
+
+    /**
+     * Get the rules for files that are never added to the depot
+     * The built-in rules come first, then the P4IGNORE files (outer folders before
+     * inner ones) and the plugin settings, so later rules can re-include files.
+     * @param refresh Read the P4IGNORE files again instead of using the cached rules
+     */
+    async getIgnoreRules(refresh: boolean = false): Promise<P4IgnoreRule[]> {
+        if (refresh || !this.ignoreFileRules) {
+            this.ignoreFileRules = await this.readIgnoreFiles();
+        }
+        return [
+            ...parseIgnoreRules(getDefaultIgnoreRules(this.plugin.app.vault.configDir), "Built-in"),
+            ...this.ignoreFileRules,
+            ...parseIgnoreRules(this.plugin.settings.ignoreRules, "Plugin settings"),
+        ];
+    }
+
+    /**
+     * Forget the cached P4IGNORE rules if a vault file with an ignore file name changed
+     */
+    handleIgnoreFileChange(vaultPath: string): void {
+        const name = vaultPath.slice(vaultPath.lastIndexOf("/") + 1);
+        if (this.ignoreFileNames.has(name)) {
+            this.ignoreFileRules = null;
+        }
+    }
+
+    /**
+     * Find the rule that ignores a vault path (null if the path isn't ignored)
+     */
+    async getIgnoreRule(vaultPath: string, refresh: boolean = false): Promise<P4IgnoreRule | null> {
+        return findIgnoreRule(await this.getIgnoreRules(refresh), vaultPath);
+    }
+
+    /**
+     * Read the P4IGNORE files that apply to the vault
+     * P4IGNORE holds one or more file names: relative names are looked up in every
+     * vault folder and apply to that folder, absolute paths apply to the whole vault.
+     */
+    private async readIgnoreFiles(): Promise<P4IgnoreRule[]> {
+        if (!this.vaultPath) return [];
+
+        const variable = (await this.getSetVariables()).get("P4IGNORE")?.value || P4IGNORE_DEFAULT_FILE_NAME;
+        const names = variable.split(path.delimiter).map(name => name.trim()).filter(Boolean);
+        const rules: P4IgnoreRule[] = [];
+
+        for (const name of names.filter(n => path.isAbsolute(n))) {
+            const text = await readFile(name, "utf8").catch(() => null);
+            if (text !== null) {
+                rules.push(...parseIgnoreRules(text, name));
+            }
+        }
+
+        const fileNames = new Set(names.filter(n => !path.isAbsolute(n)));
+        this.ignoreFileNames = fileNames;
+        if (fileNames.size === 0) return rules;
+
+        // Breadth-first (the loop picks up folders pushed while iterating), so outer
+        // folders come before inner ones. Hidden folders such as the config folder are skipped.
+        const folders = [""];
+        for (const folder of folders) {
+            let entries: Dirent[];
+            try {
+                entries = await readdir(path.join(this.vaultPath, folder), { withFileTypes: true });
+            } catch {
+                continue;
+            }
+            for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+                const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    if (!entry.name.startsWith(".")) folders.push(entryPath);
+                } else if (fileNames.has(entry.name)) {
+                    const text = await readFile(path.join(this.vaultPath, entryPath), "utf8");
+                    rules.push(...parseIgnoreRules(text, entryPath, folder));
+                }
+            }
+        }
+        return rules;
+    }
+
     // ========== Conflict Resolution ==========
 
     /**
@@ -1199,7 +2232,7 @@ export class P4Manager {
         try {
             // -n means preview (don't actually resolve), this shows what needs resolving
             const vaultPathForP4 = this.vaultPath.replace(/\\/g, "/");
-            const results = await this.runP4Json<P4ResolveJson>(["resolve", "-n", `"${vaultPathForP4}/..."`]);
+            const results = await this.runP4Json<P4ResolveJson>(["resolve", "-n", `${vaultPathForP4}/...`], BACKGROUND);
 
             const info = this.info || await this.getInfo();
             const clientRoot = info.clientRoot.replace(/\\/g, "/");
@@ -1270,25 +2303,21 @@ export class P4Manager {
         // Get depot head content (theirs)
         let theirs = "";
         try {
-            theirs = await this.runP4(["print", "-q", `"${absPath}"`]);
+            theirs = await this.runP4(["print", "-q", absPath]);
         } catch {
             theirs = "";
         }
 
-        // Get base version - this is trickier as P4 stores it during resolve
-        // The base is typically the version you synced to before making changes
-        // We can try to get it from p4 resolve -o or use have rev
+        // Get base version from the pending resolve
+        // Syncing an opened file already moves #have to the new revision, so the
+        // base revision has to come from `p4 resolve -n`
         let base = "";
         try {
-            // Try to get the version we have synced
-            const haveOutput = await this.runP4(["have", `"${absPath}"`]);
-            // Parse have output to get revision: //depot/path#rev - /local/path
-            const match = haveOutput.match(/#(\d+)\s*-/);
-            if (match && match[1]) {
-                const haveRev = parseInt(match[1], 10);
-                // Get content at that revision
-                base = await this.runP4(["print", "-q", `"${absPath}#${haveRev}"`]);
-            }
+            const pending = await this.runP4Json<{ baseRev?: string }>(["resolve", "-n", absPath]);
+            const baseRev = pending.find(r => r.baseRev)?.baseRev;
+            base = baseRev
+                ? await this.runP4(["print", "-q", `${absPath}#${baseRev}`])
+                : theirs;
         } catch {
             // Fall back to depot head if we can't get base
             base = theirs;
@@ -1309,12 +2338,12 @@ export class P4Manager {
         switch (action) {
             case "accept-yours":
                 // -ay: accept yours (keep local changes)
-                await this.runP4(["resolve", "-ay", `"${absPath}"`]);
+                await this.runP4(["resolve", "-ay", absPath]);
                 break;
             
             case "accept-theirs":
                 // -at: accept theirs (use depot version)
-                await this.runP4(["resolve", "-at", `"${absPath}"`]);
+                await this.runP4(["resolve", "-at", absPath]);
                 break;
             
             case "accept-merged":
@@ -1328,7 +2357,7 @@ export class P4Manager {
                         await this.plugin.app.vault.adapter.write(filePath, mergedContent);
                     }
                     // -ae: accept edit (accept the file as-is after manual edit)
-                    await this.runP4(["resolve", "-ae", `"${absPath}"`]);
+                    await this.runP4(["resolve", "-ae", absPath]);
                 } finally {
                     this.plugin.isResolvingMerge = false;
                 }
@@ -1336,9 +2365,10 @@ export class P4Manager {
             
             case "accept-safe-merge":
                 // -as: accept safe merge (auto-merge if no conflicts, else fail)
-                await this.runP4(["resolve", "-as", `"${absPath}"`]);
+                await this.runP4(["resolve", "-as", absPath]);
                 break;
         }
+        await this.updateFileStates([filePath]);
     }
 
     /**
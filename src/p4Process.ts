@@ -0,0 +1,160 @@
+import { spawn } from "child_process";
+import { StringDecoder } from "string_decoder";
+import { P4CancelledError, P4Error, P4MissingError, P4TimeoutError } from "./p4Errors";
+
+/**
+ * Options for a single p4 invocation
+ */
+export interface P4RunOptions {
+    /** Working directory (defaults to the vault root) */
+    cwd?: string;
+    /** Text written to stdin, which is closed afterwards */
+    input?: string;
+    /** Kill the process after this many milliseconds (0 disables the timeout) */
+    timeout?: number;
+    /** Signal used to cancel the command */
+    signal?: AbortSignal;
+    /**
+     * Receive stdout line by line instead of collecting it
+     * The result's stdout is then empty, maxBuffer doesn't apply and the timeout
+     * restarts with every chunk of output (it limits inactivity, not the total time).
+     */
+    onLine?: (line: string) => void;
+}
+
+/**
+ * Options for spawning the p4 process
+ */
+export interface P4ProcessOptions extends P4RunOptions {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    /** Maximum size of stdout in bytes before the process is killed */
+    maxBuffer?: number;
+}
+
+/**
+ * Output of a finished p4 process
+ */
+export interface P4ProcessResult {
+    stdout: string;
+    stderr: string;
+    /** Exit code, or null if the process was terminated by a signal */
+    exitCode: number | null;
+}
+
+/**
+ * Spawn p4 with a real argv array (no shell involved) and collect its output.
+ * Arguments are passed through verbatim, so paths and descriptions never need quoting.
+ * Resolves with the exit code instead of rejecting on non-zero exit; rejects with a
+ * P4Error only when the process cannot be started, times out, is cancelled or
+ * overflows maxBuffer.
+ */
+export function runP4Process(p4Path: string, args: string[], options: P4ProcessOptions): Promise<P4ProcessResult> {
+    return new Promise((resolve, reject) => {
+        if (options.signal?.aborted) {
+            reject(new P4CancelledError("P4 command was cancelled"));
+            return;
+        }
+
+        const child = spawn(p4Path, args, {
+            cwd: options.cwd,
+            env: options.env,
+            stdio: ["pipe", "pipe", "pipe"],
+            windowsHide: true,
+        });
+
+        const stdoutChunks: Buffer[] = [];
+        const stderrChunks: Buffer[] = [];
+        let stdoutSize = 0;
+        let settled = false;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const decoder = new StringDecoder("utf8");
+        let partialLine = "";
+
+        const finish = (error: Error | null, result?: P4ProcessResult): void => {
+            if (settled) return;
+            settled = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            options.signal?.removeEventListener("abort", onAbort);
+            if (error) {
+                reject(error);
+            } else if (result) {
+                resolve(result);
+            }
+        };
+
+        const kill = (error: P4Error): void => {
+            child.kill();
+            finish(error);
+        };
+
+        const onAbort = (): void => {
+            kill(new P4CancelledError("P4 command was cancelled"));
+        };
+
+        const startTimer = (): void => {
+            if (!options.timeout || options.timeout <= 0) return;
+            const seconds = options.timeout / 1000;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(() => {
+                kill(new P4TimeoutError(`P4 command timed out after ${seconds} seconds`));
+            }, options.timeout);
+        };
+        startTimer();
+        options.signal?.addEventListener("abort", onAbort);
+
+        child.stdout.on("data", (data: Buffer) => {
+            if (options.onLine) {
+                if (settled) return;
+                startTimer();
+                const lines = (partialLine + decoder.write(data)).split("\n");
+                partialLine = lines.pop() ?? "";
+                for (const line of lines) {
+                    options.onLine(line.replace(/\r$/, ""));
+                }
+                return;
+            }
+            stdoutSize += data.length;
+            if (options.maxBuffer && stdoutSize > options.maxBuffer) {
+                kill(new P4Error("P4 command output exceeded the maximum buffer size"));
+                return;
+            }
+            stdoutChunks.push(data);
+        });
+
+        child.stderr.on("data", (data: Buffer) => {
+            stderrChunks.push(data);
+        });
+
+        child.on("error", (error: NodeJS.ErrnoException) => {
+            if (error.code === "ENOENT") {
+                finish(new P4MissingError(`p4 executable not found: ${p4Path}`));
+            } else {
+                finish(error);
+            }
+        });
+
+        child.on("close", (code: number | null) => {
+            const rest = partialLine + decoder.end();
+            if (options.onLine && rest && !settled) {
+                options.onLine(rest.replace(/\r$/, ""));
+            }
+            finish(null, {
+                stdout: Buffer.concat(stdoutChunks).toString("utf8"),
+                stderr: Buffer.concat(stderrChunks).toString("utf8"),
+                exitCode: code,
+            });
+        });
+
+        // Ignore EPIPE if p4 exits before reading its input
+        child.stdin.on("error", () => {});
+        if (options.input !== undefined) {
+            child.stdin.write(options.input);
+        }
+        child.stdin.end();
+    });
+}
@@ -0,0 +1,108 @@
+/**
+ * Scheduling priority of a p4 command
+ * Interactive commands (checkout, submit, ...) always start before background ones (refreshes, blame)
+ */
+export type P4Priority = "interactive" | "background";
+
+/**
+ * Snapshot of the queue for status displays
+ */
+export interface P4QueueState {
+    /** Commands currently running */
+    running: number;
+    /** Commands waiting for a free slot */
+    queued: number;
+}
+
+/**
+ * Central scheduler for p4 processes.
+ * Caps the number of concurrent commands, starts interactive commands before
+ * background ones and lets identical in-flight commands share a single process.
+ */
+export class P4CommandQueue {
+    private maxConcurrent: number;
+    private running: number = 0;
+    private waiting: Record<P4Priority, (() => void)[]> = {
+        interactive: [],
+        background: [],
+    };
+    /** In-flight commands by de-duplication key */
+    private inFlight: Map<string, Promise<unknown>> = new Map();
+    private listeners: Set<(state: P4QueueState) => void> = new Set();
+
+    constructor(maxConcurrent: number) {
+        this.maxConcurrent = Math.max(1, maxConcurrent);
+    }
+
+    /**
+     * Schedule a task
+     * @param task - function that starts the command
+     * @param priority - scheduling priority
+     * @param key - commands with the same key share one run while in flight (omit to never share)
+     */
+    run<T>(task: () => Promise<T>, priority: P4Priority, key?: string): Promise<T> {
+        if (key !== undefined) {
+            const existing = this.inFlight.get(key);
+            if (existing) {
+                return existing as Promise<T>;
+            }
+        }
+
+        const promise = new Promise<T>((resolve, reject) => {
+            this.waiting[priority].push(() => {
+                this.running++;
+                task()
+                    .then(resolve, reject)
+                    .finally(() => {
+                        this.running--;
+                        this.startNext();
+                    });
+            });
+            this.startNext();
+        });
+
+        if (key !== undefined) {
+            this.inFlight.set(key, promise);
+            const cleanup = (): void => {
+                this.inFlight.delete(key);
+            };
+            promise.then(cleanup, cleanup);
+        }
+
+        return promise;
+    }
+
+    /**
+     * Current number of running and waiting commands
+     */
+    getState(): P4QueueState {
+        return {
+            running: this.running,
+            queued: this.waiting.interactive.length + this.waiting.background.length,
+        };
+    }
+
+    /**
+     * Listen for queue changes, returns a function that removes the listener
+     */
+    onChange(listener: (state: P4QueueState) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Start waiting commands while there are free slots
+     */
+    private startNext(): void {
+        while (this.running < this.maxConcurrent) {
+            const start = this.waiting.interactive.shift() ?? this.waiting.background.shift();
+            if (!start) break;
+            start();
+        }
+
+        const state = this.getState();
+        for (const listener of this.listeners) {
+            listener(state);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import type { P4PluginSettings, P4RevisionKind } from "./types";
+
+/** Revision specifier that syncs to the latest revision */
+export const HEAD_REVISION = "#head";
+
+/**
+ * Build a p4 revision specifier from user input, e.g. ("change", "1234") -> "@1234"
+ * Returns null if the value isn't valid for the kind.
+ */
+export function toRevisionSpec(kind: P4RevisionKind, value: string): string | null {
+    const input = value.trim();
+    switch (kind) {
+        case "change": {
+            const match = /^@?(\d+)$/.exec(input);
+            return match ? `@${match[1]}` : null;
+        }
+        case "label": {
+            const label = input.replace(/^@/, "");
+            if (!label || /[\s@#%*,]|\.\.\./.test(label) || /^-|^\d+$/.test(label)) return null;
+            return `@${label}`;
+        }
+        case "date": {
+            const match = /^@?(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:[\s:](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(input);
+            if (!match) return null;
+            const part = (index: number): number => parseInt(match[index] ?? "0", 10);
+            const [year, month, day, hours, minutes, seconds] = [part(1), part(2), part(3), part(4), part(5), part(6)];
+            const date = new Date(year, month - 1, day);
+            if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+            const pad = (n: number): string => String(n).padStart(2, "0");
+            let spec = `@${year}/${pad(month)}/${pad(day)}`;
+            if (match[4] !== undefined) {
+                if (hours > 23 || minutes > 59 || seconds > 59) return null;
+                spec += `:${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+            }
+            return spec;
+        }
+        case "rev": {
+            const match = /^#?(\d+)$/.exec(input);
+            return match ? `#${match[1]}` : null;
+        }
+    }
+}
+
+/**
+ * Split a revision specifier back into its kind and value (null for head)
+ */
+export function parseRevisionSpec(spec: string): { kind: P4RevisionKind; value: string } | null {
+    if (!spec || spec === HEAD_REVISION) return null;
+    if (spec.startsWith("#")) return { kind: "rev", value: spec.slice(1) };
+    const value = spec.replace(/^@/, "");
+    if (/^\d+$/.test(value)) return { kind: "change", value };
+    if (/^\d{4}\/\d{2}\/\d{2}/.test(value)) return { kind: "date", value };
+    return { kind: "label", value };
+}
+
+/**
+ * Describe a revision specifier for display, e.g. "change 1234"
+ */
+export function describeRevision(spec: string): string {
+    const parsed = parseRevisionSpec(spec);
+    if (!parsed) return "head";
+    switch (parsed.kind) {
+        case "change": return `change ${parsed.value}`;
+        case "label": return `label ${parsed.value}`;
+        case "date": return parsed.value;
+        case "rev": return `revision #${parsed.value}`;
+    }
+}
+
+/**
+ * Record the revision a vault path was synced to ("" for the whole vault)
+ * Pins on the path and everything below it are replaced, syncing to head only clears them.
+ */
+export function setPinnedRevision(settings: P4PluginSettings, vaultPath: string, revision: string): void {
+    const pins: Record<string, string> = {};
+    for (const [pinnedPath, pinnedRevision] of Object.entries(settings.pinnedRevisions)) {
+        if (!isPathUnder(pinnedPath, vaultPath)) {
+            pins[pinnedPath] = pinnedRevision;
+        }
+    }
+    if (revision !== HEAD_REVISION) {
+        pins[vaultPath] = revision;
+    }
+    settings.pinnedRevisions = pins;
+}
+
+/**
+ * Check if a vault path is the folder itself or inside it ("" is the vault root)
+ */
+function isPathUnder(vaultPath: string, folder: string): boolean {
+    return folder === "" || vaultPath === folder || vaultPath.startsWith(`${folder}/`);
+}
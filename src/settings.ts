@@ -1,7 +1,12 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type ObsidianP4 from "./main";
-import { DEFAULT_SETTINGS } from "./constants";
-import type { P4PluginSettings } from "./types";
+import { DEFAULT_SETTINGS, P4_CHARSETS } from "./constants";
+import { describeIgnoreRule } from "./ignoreRules";
+import { getSubmitCheckLevel } from "./submitChecks";
+import type { P4ConnectionProfile, P4DescriptionTemplate, P4PluginSettings, P4SubmitCheckLevel } from "./types";
+import { createProfile, getActiveConnection, updateActiveConnection } from "./connectionProfiles";
+import { ProfileModal } from "./ui/modals/profileModal";
+import { DescriptionTemplateModal } from "./ui/modals/descriptionTemplateModal";
 
 export { DEFAULT_SETTINGS };
 export type { P4PluginSettings };
@@ -10,6 +15,9 @@ export type { P4PluginSettings };
 const ENV_P4PORT = "P4PORT";
 const ENV_P4USER = "P4USER";
 const ENV_P4CLIENT = "P4CLIENT";
+const ENV_P4CHARSET = "P4CHARSET";
+const ENV_P4CONFIG = "P4CONFIG";
+const ENV_P4IGNORE = "P4IGNORE";
 const ENV_PATH = "PATH";
 const PERFORCE = "Perforce";
 
@@ -33,6 +41,22 @@ export class P4SettingsTab extends PluginSettingTab {
             .setName("Connection")
             .setHeading();
 
+        new Setting(containerEl)
+            .setName("Connection profile")
+            .setDesc("Profile used to connect, or the default connection settings. The fields below edit the selected one.")
+            .addDropdown(dropdown => {
+                dropdown.addOption("", "Default connection settings");
+                for (const profile of this.plugin.settings.connectionProfiles) {
+                    dropdown.addOption(profile.name, profile.name);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.activeProfile)
+                    .onChange(async (value) => {
+                        await this.plugin.switchProfile(value);
+                        this.display();
+                    });
+            });
+
         new Setting(containerEl)
             .setName("P4 executable path")
             .setDesc(`Path to the p4 executable, leave empty to use p4 from ${ENV_PATH}`)
@@ -44,14 +68,17 @@ export class P4SettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // Edits apply to the active profile, or to the default connection when none is active
+        const connection = getActiveConnection(this.plugin.settings);
+
         new Setting(containerEl)
             .setName(`Server address (${ENV_P4PORT})`)
             .setDesc(`${PERFORCE} server address, e.g. perforce.server.com:1666, leave empty to use system ${ENV_P4PORT}`)
             .addText(text => text
                 .setPlaceholder("Server:1666".toLowerCase())
-                .setValue(this.plugin.settings.p4Port)
+                .setValue(connection.p4Port)
                 .onChange(async (value) => {
-                    this.plugin.settings.p4Port = value;
+                    updateActiveConnection(this.plugin.settings, { p4Port: value });
                     await this.plugin.saveSettings();
                 }));
 
@@ -60,9 +87,9 @@ export class P4SettingsTab extends PluginSettingTab {
             .setDesc(`${PERFORCE} username, leave empty to use system ${ENV_P4USER}`)
             .addText(text => text
                 .setPlaceholder("Username")
-                .setValue(this.plugin.settings.p4User)
+                .setValue(connection.p4User)
                 .onChange(async (value) => {
-                    this.plugin.settings.p4User = value;
+                    updateActiveConnection(this.plugin.settings, { p4User: value });
                     await this.plugin.saveSettings();
                 }));
 
@@ -71,9 +98,46 @@ export class P4SettingsTab extends PluginSettingTab {
             .setDesc(`${PERFORCE} client/workspace name, leave empty to use system ${ENV_P4CLIENT}`)
             .addText(text => text
                 .setPlaceholder("My-workspace".toLowerCase())
-                .setValue(this.plugin.settings.p4Client)
+                .setValue(connection.p4Client)
+                .onChange(async (value) => {
+                    updateActiveConnection(this.plugin.settings, { p4Client: value });
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName(`Character set (${ENV_P4CHARSET})`)
+            .setDesc(`Required for unicode-mode servers, leave unset to use system ${ENV_P4CHARSET}`)
+            .addDropdown(dropdown => {
+                for (const charset of P4_CHARSETS) {
+                    dropdown.addOption(charset, charset || "Not set");
+                }
+                dropdown
+                    .setValue(connection.p4Charset)
+                    .onChange(async (value) => {
+                        updateActiveConnection(this.plugin.settings, { p4Charset: value });
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName(`Config file name (${ENV_P4CONFIG})`)
+            .setDesc(`Name of the config file p4 looks for, leave empty to use system ${ENV_P4CONFIG} or a .p4config file found in or above the vault`)
+            .addText(text => text
+                .setPlaceholder(".p4config")
+                .setValue(connection.p4Config)
                 .onChange(async (value) => {
-                    this.plugin.settings.p4Client = value;
+                    updateActiveConnection(this.plugin.settings, { p4Config: value });
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Trusted server fingerprint")
+            .setDesc("Fingerprint of an SSL server to trust without asking, filled in when you trust a server")
+            .addText(text => text
+                .setPlaceholder("AB:CD:...".toLowerCase())
+                .setValue(connection.trustFingerprint)
+                .onChange(async (value) => {
+                    updateActiveConnection(this.plugin.settings, { trustFingerprint: value.trim() });
                     await this.plugin.saveSettings();
                 }));
 
@@ -105,6 +169,8 @@ export class P4SettingsTab extends PluginSettingTab {
                     }, 2000);
                 }));
 
+        this.displayProfiles(containerEl);
+
         // Auto-checkout section
         new Setting(containerEl)
             .setName("Editing")
@@ -145,22 +211,179 @@ export class P4SettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("Check for incoming changes (minutes)")
+            .setDesc("How often to look for changes submitted by others, 0 to turn off")
+            .addText(text => {
+                text.inputEl.type = "number";
+                text.setPlaceholder("5")
+                    .setValue(this.plugin.settings.incomingCheckInterval.toString())
+                    .onChange(async (value) => {
+                        const num = parseInt(value, 10);
+                        if (!isNaN(num) && num >= 0) {
+                            this.plugin.settings.incomingCheckInterval = num;
+                            await this.plugin.saveSettings();
+                            this.plugin.restartIncomingWatcher();
+                        }
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Auto-sync incoming changes")
+            .setDesc("Sync incoming files as soon as they are found. Files you have opened are left for you to sync and resolve.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncIncoming)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncIncoming = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.restartIncomingWatcher();
+                }));
+
+        new Setting(containerEl)
+            .setName("Preview before syncing")
+            .setDesc("Show the incoming changes and files before a sync, so you can sync only some of them")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.previewBeforeSync)
+                .onChange(async (value) => {
+                    this.plugin.settings.previewBeforeSync = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Ignored files section
+        new Setting(containerEl)
+            .setName("Ignored files")
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName("Ignore rules")
+            .setDesc(`Files that auto-add, add folder and reconcile never add, one rule per line in ${ENV_P4IGNORE} syntax (*, **, ! to re-include, trailing / for folders). They apply on top of Obsidian's workspace files, cache and trash and the ${ENV_P4IGNORE} files in the vault.`)
+            .addTextArea(text => {
+                text.inputEl.rows = 6;
+                text.inputEl.addClass("p4-ignore-rules");
+                text.setPlaceholder("drafts/\n*.bak")
+                    .setValue(this.plugin.settings.ignoreRules)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ignoreRules = value;
+                        await this.plugin.saveSettings();
+                        void this.displayIgnoreRules(rulesContainer, false);
+                    });
+            });
+
+        let checkResult: HTMLElement;
+        new Setting(containerEl)
+            .setName("Check a file")
+            .setDesc("Enter a vault path to see which rule ignores it")
+            .addText(text => text
+                .setPlaceholder("notes/draft.md")
+                .onChange(async (value) => {
+                    if (!value.trim()) {
+                        checkResult.setText("");
+                        return;
+                    }
+                    try {
+                        const rule = await this.plugin.p4Manager.getIgnoreRule(value.trim());
+                        checkResult.setText(rule
+                            ? `Ignored by "${rule.text}" (${describeIgnoreRule(rule)})`
+                            : "Not ignored");
+                    } catch (error) {
+                        checkResult.setText((error as Error).message);
+                    }
+                }));
+        checkResult = containerEl.createEl("p", { cls: "p4-muted p4-ignore-check" });
+
+        const rulesContainer = containerEl.createDiv({ cls: "p4-ignore-rules-list" });
+        void this.displayIgnoreRules(rulesContainer, true);
+
         // Submit section
         new Setting(containerEl)
             .setName("Submit")
             .setHeading();
 
         new Setting(containerEl)
-            .setName("Default submit message")
-            .setDesc("Template for submit messages. Use {{date}} for current date")
+            .setName("Default description template")
+            .setDesc("Description of changelists without one. Placeholders: {{date}}, {{user}}, {{client}}, {{jobs}}, {{files}}, {{titles}} and {{frontmatter.<key>}}")
+            .addTextArea(text => {
+                text.inputEl.rows = 3;
+                text.inputEl.addClass("p4-template-input");
+                text.setPlaceholder("vault update: {{date}}")
+                    .setValue(this.plugin.settings.submitMessageTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.submitMessageTemplate = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        for (const template of this.plugin.settings.descriptionTemplates) {
+            new Setting(containerEl)
+                .setName(template.name)
+                .setDesc(template.folder ? `Default for ${template.folder}/` : "Picked by hand")
+                .addExtraButton(button => button
+                    .setIcon("pencil")
+                    .setTooltip("Edit template")
+                    .onClick(() => void this.editTemplate(template)))
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Delete template")
+                    .onClick(() => void this.deleteTemplate(template)));
+        }
+
+        new Setting(containerEl)
+            .setName("Add description template")
+            .setDesc("Named templates can be picked when editing or submitting a changelist, a template with a folder is the default for changes in it")
+            .addButton(button => button
+                .setButtonText("Add template")
+                .onClick(() => void this.editTemplate(null)));
+
+        new Setting(containerEl)
+            .setName("Check files before submitting")
+            .setDesc("Run the checks below on the files to submit. Errors block the submit unless you submit anyway.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.checkBeforeSubmit)
+                .onChange(async (value) => {
+                    this.plugin.settings.checkBeforeSubmit = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        for (const check of this.plugin.submitChecks) {
+            new Setting(containerEl)
+                .setName(check.name)
+                .addDropdown(dropdown => dropdown
+                    .addOption("error", "Error")
+                    .addOption("warning", "Warning")
+                    .addOption("off", "Off")
+                    .setValue(getSubmitCheckLevel(check, this.plugin.settings))
+                    .onChange(async (value) => {
+                        this.plugin.settings.submitChecks[check.id] = value as P4SubmitCheckLevel;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName("Required frontmatter keys")
+            .setDesc("Keys every submitted note needs, separated by commas")
             .addText(text => text
-                .setPlaceholder("vault update: {{date}}")
-                .setValue(this.plugin.settings.submitMessageTemplate)
+                .setValue(this.plugin.settings.requiredFrontmatter)
                 .onChange(async (value) => {
-                    this.plugin.settings.submitMessageTemplate = value;
+                    this.plugin.settings.requiredFrontmatter = value;
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("File size limit in megabytes")
+            .setDesc("Largest file that can be submitted, 0 for no limit")
+            .addText(text => {
+                text.inputEl.type = "number";
+                text.setPlaceholder("10")
+                    .setValue(this.plugin.settings.maxSubmitFileSize.toString())
+                    .onChange(async (value) => {
+                        const size = parseFloat(value);
+                        if (!isNaN(size) && size >= 0) {
+                            this.plugin.settings.maxSubmitFileSize = size;
+                            await this.plugin.saveSettings();
+                        }
+                    });
+            });
+
         // UI section
         new Setting(containerEl)
             .setName("Interface")
@@ -245,6 +468,139 @@ export class P4SettingsTab extends PluginSettingTab {
         void this.displayConnectionInfo(containerEl);
     }
 
+    /**
+     * List the connection profiles with edit/delete actions
+     */
+    private displayProfiles(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName("Connection profiles")
+            .setHeading();
+
+        for (const profile of this.plugin.settings.connectionProfiles) {
+            const active = profile.name === this.plugin.settings.activeProfile;
+            new Setting(containerEl)
+                .setName(active ? `${profile.name} (active)` : profile.name)
+                .setDesc([profile.p4Port, profile.p4User, profile.p4Client].filter(Boolean).join(" · ") || "Uses system settings")
+                .addExtraButton(button => button
+                    .setIcon("pencil")
+                    .setTooltip("Edit profile")
+                    .onClick(() => void this.editProfile(profile)))
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Delete profile")
+                    .onClick(() => void this.deleteProfile(profile)));
+        }
+
+        new Setting(containerEl)
+            .setName("Add profile")
+            .setDesc("Save a named set of connection settings, starting from the current connection")
+            .addButton(button => button
+                .setButtonText("Add profile")
+                .onClick(() => void this.editProfile(null)));
+    }
+
+    /**
+     * Create (profile = null) or edit a connection profile
+     */
+    private async editProfile(profile: P4ConnectionProfile | null): Promise<void> {
+        const settings = this.plugin.settings;
+        const initial = profile ?? createProfile("", getActiveConnection(settings));
+        const takenNames = settings.connectionProfiles
+            .filter(p => p !== profile)
+            .map(p => p.name);
+
+        const result = await new ProfileModal(this.app, initial, takenNames).openAndGetResult();
+        if (!result) return;
+
+        if (profile) {
+            const index = settings.connectionProfiles.indexOf(profile);
+            settings.connectionProfiles[index] = result;
+        } else {
+            settings.connectionProfiles.push(result);
+        }
+
+        // Reconnect if the active profile changed
+        if (profile && profile.name === settings.activeProfile) {
+            await this.plugin.switchProfile(result.name);
+        } else {
+            await this.plugin.saveSettings();
+            this.plugin.updateProfileStatus();
+        }
+        this.display();
+    }
+
+    /**
+     * Delete a connection profile, falling back to the default settings if it was active
+     */
+    private async deleteProfile(profile: P4ConnectionProfile): Promise<void> {
+        const settings = this.plugin.settings;
+        settings.connectionProfiles = settings.connectionProfiles.filter(p => p !== profile);
+
+        if (profile.name === settings.activeProfile) {
+            await this.plugin.switchProfile("");
+        } else {
+            await this.plugin.saveSettings();
+            this.plugin.updateProfileStatus();
+        }
+        this.display();
+    }
+
+    /**
+     * Create (template = null) or edit a description template
+     */
+    private async editTemplate(template: P4DescriptionTemplate | null): Promise<void> {
+        const settings = this.plugin.settings;
+        const initial = template ?? { name: "", template: "", folder: "" };
+        const takenNames = settings.descriptionTemplates
+            .filter(t => t !== template)
+            .map(t => t.name);
+
+        const result = await new DescriptionTemplateModal(this.app, initial, takenNames).openAndGetResult();
+        if (!result) return;
+
+        if (template) {
+            const index = settings.descriptionTemplates.indexOf(template);
+            settings.descriptionTemplates[index] = result;
+        } else {
+            settings.descriptionTemplates.push(result);
+        }
+        await this.plugin.saveSettings();
+        this.display();
+    }
+
+    /**
+     * Delete a description template
+     */
+    private async deleteTemplate(template: P4DescriptionTemplate): Promise<void> {
+        this.plugin.settings.descriptionTemplates = this.plugin.settings.descriptionTemplates.filter(t => t !== template);
+        await this.plugin.saveSettings();
+        this.display();
+    }
+
+    /**
+     * List the ignore rules in effect and where each one comes from
+     * @param refresh Read the P4IGNORE files again
+     */
+    private async displayIgnoreRules(container: HTMLElement, refresh: boolean): Promise<void> {
+        try {
+            const rules = await this.plugin.p4Manager.getIgnoreRules(refresh);
+            container.empty();
+            container.createDiv({ text: "Rules in effect (a later rule wins)", cls: "p4-info-subheading" });
+            const table = container.createEl("table", { cls: "p4-info-table" });
+            for (const rule of rules) {
+                const row = table.createEl("tr");
+                row.createEl("td", { text: rule.text, cls: "p4-info-value p4-ignore-rule" });
+                row.createEl("td", { text: describeIgnoreRule(rule), cls: "p4-info-source" });
+            }
+        } catch (error) {
+            container.empty();
+            container.createEl("p", {
+                text: `Error reading the ignore rules: ${(error as Error).message}`,
+                cls: "p4-error",
+            });
+        }
+    }
+
     private async displayConnectionInfo(containerEl: HTMLElement): Promise<void> {
         const infoContainer = containerEl.createDiv({ cls: "p4-connection-info" });
 
@@ -265,6 +621,8 @@ export class P4SettingsTab extends PluginSettingTab {
                 ["User", info.userName],
                 ["Client", info.clientName],
                 ["Server", info.serverAddress],
+                ["Version", info.serverVersion ?? ""],
+                ["Unicode", info.serverUnicode ? "Enabled" : "Disabled"],
                 ["Root", info.clientRoot],
             ];
 
@@ -273,6 +631,17 @@ export class P4SettingsTab extends PluginSettingTab {
                 row.createEl("td", { text: label, cls: "p4-info-label" });
                 row.createEl("td", { text: value, cls: "p4-info-value" });
             }
+
+            // Resolved connection variables and where each value came from
+            const variables = await this.plugin.p4Manager.getConnectionVariables();
+            infoContainer.createDiv({ text: "Environment", cls: "p4-info-subheading" });
+            const variableTable = infoContainer.createEl("table", { cls: "p4-info-table" });
+            for (const variable of variables) {
+                const row = variableTable.createEl("tr");
+                row.createEl("td", { text: variable.name, cls: "p4-info-label" });
+                row.createEl("td", { text: variable.value, cls: "p4-info-value" });
+                row.createEl("td", { text: variable.source, cls: "p4-info-source" });
+            }
         } catch (error) {
             infoContainer.createEl("p", {
                 text: `Error getting P4 info: ${(error as Error).message}`,
@@ -1,6 +1,9 @@
 import type ObsidianP4 from "./main";
 import { STATUS_MESSAGES } from "./constants";
-import { CurrentP4Action } from "./types";
+import { CurrentP4Action, type P4SyncPreview, type P4SyncProgress } from "./types";
+import { formatSyncProgress } from "./syncProgress";
+import { describeRevision } from "./revisionSpec";
+import type { P4QueueState } from "./p4Queue";
 import { setIcon } from "obsidian";
 
 /**
@@ -10,8 +13,14 @@ export class P4StatusBar {
     private plugin: ObsidianP4;
     private statusBarEl: HTMLElement;
     private pendingCount: number = 0;
+    private queueState: P4QueueState = { running: 0, queued: 0 };
     private currentAction: CurrentP4Action = CurrentP4Action.idle;
+    private syncProgress: P4SyncProgress | null = null;
     private spinnerEl: HTMLElement | null = null;
+    private profileEl: HTMLElement | null = null;
+    private pinnedEl: HTMLElement | null = null;
+    private incomingEl: HTMLElement | null = null;
+    private offlineEl: HTMLElement | null = null;
     private textEl: HTMLElement | null = null;
 
     constructor(plugin: ObsidianP4, statusBarEl: HTMLElement) {
@@ -24,6 +33,46 @@ export class P4StatusBar {
         this.spinnerEl = this.statusBarEl.createSpan({ cls: "p4-status-spinner p4-hidden" });
         setIcon(this.spinnerEl, "loader-2");
         
+        // Create profile element (click to switch profiles)
+        this.profileEl = this.statusBarEl.createSpan({ cls: "p4-status-profile" });
+        this.profileEl.hide();
+        this.profileEl.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this.plugin.openProfileSwitcher();
+        });
+        
+        // Create pinned revision element (click to sync to another revision or back to head)
+        this.pinnedEl = this.statusBarEl.createSpan({ cls: "p4-status-pinned" });
+        this.pinnedEl.hide();
+        this.pinnedEl.addEventListener("click", (e) => {
+            e.stopPropagation();
+            void this.plugin.openSyncToRevision(null);
+        });
+        
+        // Create incoming changes element (click to sync)
+        this.incomingEl = this.statusBarEl.createSpan({ cls: "p4-status-incoming" });
+        this.incomingEl.hide();
+        this.incomingEl.addEventListener("click", (e) => {
+            e.stopPropagation();
+            void this.plugin.syncWithPreview().then((result) => {
+                if (result) {
+                    this.plugin.app.workspace.trigger("obsidian-p4:refresh-now");
+                }
+            });
+        });
+        
+        // Create offline element (click to reconnect, or to replay the journal once connected)
+        this.offlineEl = this.statusBarEl.createSpan({ cls: "p4-status-offline" });
+        this.offlineEl.hide();
+        this.offlineEl.addEventListener("click", (e) => {
+            e.stopPropagation();
+            if (this.plugin.offline) {
+                void this.plugin.tryReconnect(true);
+            } else {
+                void this.plugin.reviewOfflineJournal();
+            }
+        });
+        
         // Create text element
         this.textEl = this.statusBarEl.createSpan({ cls: "p4-status-text" });
         
@@ -45,7 +94,9 @@ export class P4StatusBar {
 
         switch (this.currentAction) {
             case CurrentP4Action.syncing:
-                text = STATUS_MESSAGES.syncing;
+                text = this.syncProgress
+                    ? `${STATUS_MESSAGES.syncing} ${formatSyncProgress(this.syncProgress)}`
+                    : STATUS_MESSAGES.syncing;
                 break;
             case CurrentP4Action.submitting:
                 text = STATUS_MESSAGES.submitting;
@@ -67,6 +118,10 @@ export class P4StatusBar {
                 }
         }
 
+        if (this.queueState.queued > 0) {
+            text += ` (${this.queueState.queued} queued)`;
+        }
+
         // Show/hide spinner based on activity
         if (this.spinnerEl) {
             this.spinnerEl.style.display = this.isBusy() ? "inline-flex" : "none";
@@ -86,6 +141,15 @@ export class P4StatusBar {
         this.display();
     }
 
+    /**
+     * Show the progress of a running sync (null when the sync has finished)
+     */
+    setSyncProgress(progress: P4SyncProgress | null): void {
+        this.syncProgress = progress;
+        this.currentAction = progress ? CurrentP4Action.syncing : CurrentP4Action.idle;
+        this.display();
+    }
+
     /**
      * Set the pending file count
      */
@@ -94,6 +158,79 @@ export class P4StatusBar {
         this.display();
     }
 
+    /**
+     * Set the name of the active connection profile (null for the default connection)
+     * Shown whenever there are profiles to switch to, so switching works from the default connection too.
+     */
+    setProfile(name: string | null, hasProfiles: boolean): void {
+        if (!this.profileEl) return;
+        this.profileEl.setText(`[${name ?? "default"}]`);
+        this.profileEl.setAttr("aria-label", "Switch connection profile");
+        this.profileEl.toggle(hasProfiles);
+    }
+
+    /**
+     * Show the revisions the vault or parts of it are pinned to (hidden when all at head)
+     */
+    setPinned(pins: Record<string, string>): void {
+        if (!this.pinnedEl) return;
+        const entries = Object.entries(pins);
+        this.pinnedEl.empty();
+        this.pinnedEl.toggle(entries.length > 0);
+        if (entries.length === 0) return;
+
+        setIcon(this.pinnedEl.createSpan({ cls: "p4-status-pinned-icon" }), "pin");
+        const vaultPin = pins[""];
+        this.pinnedEl.createSpan({ text: vaultPin ?? `${entries.length} pinned` });
+        const lines = entries.map(([vaultPath, revision]) => `${vaultPath || "Vault"}: ${describeRevision(revision)}`);
+        this.pinnedEl.setAttr("aria-label", `${lines.join("\n")}\nClick to sync to another revision`);
+    }
+
+    /**
+     * Show the number of incoming changes (hidden when there are none)
+     */
+    setIncoming(incoming: P4SyncPreview | null): void {
+        if (!this.incomingEl) return;
+        this.incomingEl.empty();
+        this.incomingEl.toggle(!!incoming);
+        if (!incoming) return;
+
+        setIcon(this.incomingEl.createSpan({ cls: "p4-status-incoming-icon" }), "arrow-down-circle");
+        this.incomingEl.createSpan({ text: String(incoming.changes.length || incoming.files.length) });
+        this.incomingEl.setAttr(
+            "aria-label",
+            `${incoming.changes.length} incoming change(s), ${incoming.files.length} file(s)\nClick to sync`,
+        );
+    }
+
+    /**
+     * Show the offline state and the number of recorded operations
+     * (hidden when online with nothing left to replay)
+     */
+    setOffline(offline: boolean, journalCount: number): void {
+        if (!this.offlineEl) return;
+        this.offlineEl.empty();
+        this.offlineEl.toggle(offline || journalCount > 0);
+        if (!offline && journalCount === 0) return;
+
+        setIcon(this.offlineEl.createSpan({ cls: "p4-status-offline-icon" }), offline ? "cloud-off" : "cloud-upload");
+        this.offlineEl.createSpan({ text: offline ? `Offline (${journalCount})` : String(journalCount) });
+        this.offlineEl.setAttr(
+            "aria-label",
+            offline
+                ? `Working offline, ${journalCount} operation(s) recorded\nClick to reconnect`
+                : `${journalCount} offline operation(s) to replay\nClick to review`,
+        );
+    }
+
+    /**
+     * Set the command queue state
+     */
+    setQueueState(state: P4QueueState): void {
+        this.queueState = state;
+        this.display();
+    }
+
     /**
      * Handle click on status bar
      */
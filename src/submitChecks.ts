@@ -0,0 +1,180 @@
+import type { P4Action, P4PluginSettings, P4SubmitCheckLevel, P4SubmitIssue } from "./types";
+
+/**
+ * A link or embed in a submitted note
+ */
+export interface P4SubmitCheckLink {
+    /** The link as written, e.g. "Other note#Heading" */
+    link: string;
+    /** 1-based line of the link */
+    line: number;
+    /** Vault path the link resolves to (null if it is broken) */
+    target: string | null;
+    embed: boolean;
+}
+
+/**
+ * A file about to be submitted, as seen by the pre-submit checks
+ */
+export interface P4SubmitCheckFile {
+    vaultPath: string;
+    action: P4Action;
+    /** Text content (null for deleted and binary files) */
+    content: string | null;
+    /** Size in bytes (0 for deleted files) */
+    size: number;
+    /** Frontmatter of a note (null if it has none) */
+    frontmatter: Record<string, unknown> | null;
+    links: P4SubmitCheckLink[];
+}
+
+/**
+ * What the checks know about the rest of the submit
+ */
+export interface P4SubmitCheckContext {
+    settings: P4PluginSettings;
+    /** Vault paths of all files in the submit */
+    submitted: Set<string>;
+    /** Check if a vault file has been submitted to the depot before */
+    isInDepot(vaultPath: string): boolean;
+}
+
+/**
+ * A check run on each file before it is submitted
+ * Other plugins can add their own with ObsidianP4.registerSubmitCheck.
+ */
+export interface P4SubmitCheck {
+    id: string;
+    /** Name shown in the settings and the report */
+    name: string;
+    /** Severity of the issues unless the settings say otherwise */
+    defaultLevel: Exclude<P4SubmitCheckLevel, "off">;
+    check(file: P4SubmitCheckFile, context: P4SubmitCheckContext): Pick<P4SubmitIssue, "message" | "line">[];
+}
+
+/** Conflict markers left by a merge, at the start of a line */
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})( |$)/;
+
+/** Bytes in a megabyte */
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Check if a file is a note (links and frontmatter only apply to notes)
+ */
+function isNote(file: P4SubmitCheckFile): boolean {
+    return file.vaultPath.toLowerCase().endsWith(".md") && file.action !== "delete";
+}
+
+/**
+ * Checks that come with the plugin
+ */
+export const DEFAULT_SUBMIT_CHECKS: P4SubmitCheck[] = [
+    {
+        id: "broken-links",
+        name: "Broken links",
+        defaultLevel: "warning",
+        check: (file) => !isNote(file) ? [] : file.links
+            .filter(link => link.target === null)
+            .map(link => ({ message: `Broken ${link.embed ? "embed" : "link"} [[${link.link}]]`, line: link.line })),
+    },
+    {
+        id: "required-frontmatter",
+        name: "Required frontmatter",
+        defaultLevel: "error",
+        check: (file, context) => {
+            if (!isNote(file)) return [];
+            const required = context.settings.requiredFrontmatter.split(",").map(key => key.trim()).filter(Boolean);
+            return required
+                .filter(key => file.frontmatter?.[key] === undefined)
+                .map(key => ({ message: `Missing frontmatter key "${key}"`, line: 1 }));
+        },
+    },
+    {
+        id: "file-size",
+        name: "File size limit",
+        defaultLevel: "error",
+        check: (file, context) => {
+            const limit = context.settings.maxSubmitFileSize;
+            if (limit <= 0 || file.size <= limit * MEGABYTE) return [];
+            return [{ message: `${(file.size / MEGABYTE).toFixed(1)} MB is over the ${limit} MB limit` }];
+        },
+    },
+    {
+        id: "conflict-markers",
+        name: "Conflict markers",
+        defaultLevel: "error",
+        check: (file) => {
+            if (file.content === null) return [];
+            const issues: Pick<P4SubmitIssue, "message" | "line">[] = [];
+            const marker = (line: number, text: string): Pick<P4SubmitIssue, "message" | "line"> =>
+                ({ message: `Unresolved conflict marker ${text.slice(0, 7)}`, line });
+            // A ======= line is also a setext heading underline, it only counts between <<<<<<< and >>>>>>>
+            let separators: Pick<P4SubmitIssue, "message" | "line">[] | null = null;
+            file.content.split(/\r?\n/).forEach((line, index) => {
+                const kind = CONFLICT_MARKER.exec(line)?.[1]?.[0];
+                if (kind === "<") {
+                    issues.push(marker(index + 1, line));
+                    separators = [];
+                } else if (kind === "=") {
+                    separators?.push(marker(index + 1, line));
+                } else if (kind === ">") {
+                    issues.push(...(separators ?? []), marker(index + 1, line));
+                    separators = null;
+                }
+            });
+            return issues;
+        },
+    },
+    {
+        id: "unadded-attachments",
+        name: "Attachments not in Perforce",
+        defaultLevel: "error",
+        check: (file, context) => {
+            if (!isNote(file)) return [];
+            const reported = new Set<string>();
+            const issues: Pick<P4SubmitIssue, "message" | "line">[] = [];
+            for (const link of file.links) {
+                const target = link.target;
+                if (!target || target.toLowerCase().endsWith(".md") || reported.has(target)) continue;
+                if (context.submitted.has(target) || context.isInDepot(target)) continue;
+                reported.add(target);
+                issues.push({ message: `${target} is referenced but not part of this submit or the depot`, line: link.line });
+            }
+            return issues;
+        },
+    },
+];
+
+/**
+ * Get the severity a check runs with ("off" if it is turned off)
+ */
+export function getSubmitCheckLevel(check: P4SubmitCheck, settings: P4PluginSettings): P4SubmitCheckLevel {
+    return settings.submitChecks[check.id] ?? check.defaultLevel;
+}
+
+/**
+ * Run the checks on the files of a submit
+ * A check that throws is reported as a warning on the file rather than stopping the others.
+ */
+export function runSubmitChecks(checks: P4SubmitCheck[], files: P4SubmitCheckFile[], context: P4SubmitCheckContext): P4SubmitIssue[] {
+    const issues: P4SubmitIssue[] = [];
+    for (const check of checks) {
+        const level = getSubmitCheckLevel(check, context.settings);
+        if (level === "off") continue;
+        for (const file of files) {
+            try {
+                for (const issue of check.check(file, context)) {
+                    issues.push({ ...issue, check: check.id, severity: level, vaultPath: file.vaultPath });
+                }
+            } catch (error) {
+                issues.push({
+                    check: check.id,
+                    severity: "warning",
+                    vaultPath: file.vaultPath,
+                    message: `${check.name} failed: ${(error as Error).message}`,
+                });
+            }
+        }
+    }
+    return issues;
+}
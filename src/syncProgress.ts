@@ -0,0 +1,29 @@
+import type { P4SyncProgress } from "./types";
+
+/**
+ * Format a byte count for display, e.g. 1.5 MB
+ */
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} ${units[0]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Describe sync progress, e.g. "12/40 files, 1.2 MB of 3.4 MB"
+ * Totals are left out until p4 has reported them.
+ */
+export function formatSyncProgress(progress: P4SyncProgress): string {
+    const files = progress.totalFiles > 0
+        ? `${progress.files}/${progress.totalFiles} files`
+        : `${progress.files} files`;
+    const bytes = progress.totalBytes > 0
+        ? `${formatBytes(progress.bytes)} of ${formatBytes(progress.totalBytes)}`
+        : formatBytes(progress.bytes);
+    return `${files}, ${bytes}`;
+}
@@ -8,7 +8,7 @@ export type P4Action = "edit" | "add" | "delete" | "branch" | "integrate" | "mov
 /**
  * Extended status for file decorators (includes synced status)
  */
-export type P4DecoratorStatus = P4Action | "synced" | "locked";
+export type P4DecoratorStatus = P4Action | "synced" | "locked" | "others" | "others-locked" | "stale";
 
 /**
  * Status of a file in a changelist
@@ -32,6 +32,51 @@ export interface P4FileStatus {
     haveRev?: number;
 }
 
+/**
+ * State of a depot file in the vault, from `p4 fstat`
+ */
+export interface P4FileState {
+    /** Path relative to vault */
+    vaultPath: string;
+    depotFile: string;
+    /** Local path */
+    clientFile: string;
+    /** Head revision (0 if the file was never submitted) */
+    headRev: number;
+    headAction?: string;
+    headType?: string;
+    /** Revision the client has (0 if none) */
+    haveRev: number;
+    /** Open action on this client, undefined if not opened */
+    action?: P4Action;
+    changelist?: number | "default";
+    /** File type the file is opened as */
+    type?: string;
+    /** Revision the open is based on */
+    workRev?: number;
+    /** Locked by this client */
+    ourLock: boolean;
+    /** Opens by other users or clients */
+    otherOpens: P4OtherOpen[];
+    /** A resolve is pending */
+    unresolved: boolean;
+}
+
+/**
+ * A file in the vault opened by another user or client
+ */
+export interface P4OtherOpen {
+    /** Path relative to vault */
+    vaultPath: string;
+    depotFile: string;
+    user: string;
+    client: string;
+    action: P4Action;
+    changelist: number | "default";
+    /** Locked by that user, or opened exclusively (+l file type) */
+    locked: boolean;
+}
+
 /**
  * A Perforce changelist
  */
@@ -52,6 +97,76 @@ export interface P4Changelist {
     files?: P4FileStatus[];
 }
 
+/**
+ * A job that a submit can fix
+ */
+export interface P4Job {
+    job: string;
+    /** e.g. open, suspended or closed */
+    status: string;
+    user: string;
+    date: string;
+    description: string;
+}
+
+/**
+ * Options chosen in the submit dialog
+ */
+export interface P4SubmitOptions {
+    /** Vault paths to submit (all files in the changelist if unset) */
+    files?: string[];
+    /** Changelist for the files left out of the submit (default: the default changelist) */
+    moveOthersTo?: number | "default";
+    /** Jobs fixed by the submit */
+    jobs?: string[];
+    /** Open the submitted files for edit again */
+    reopen?: boolean;
+    /** Revert files whose content didn't change instead of submitting them */
+    revertUnchanged?: boolean;
+}
+
+/**
+ * A submit that failed because files were out of date or unresolved
+ */
+export interface P4FailedSubmit {
+    /** Changelist holding the files (a new one when the default changelist was submitted) */
+    changelist: number;
+    /** Vault paths that had to be synced and resolved */
+    files: string[];
+    /** Options for the retry */
+    options: P4SubmitOptions;
+}
+
+/**
+ * A named changelist description template
+ */
+export interface P4DescriptionTemplate {
+    name: string;
+    /** Description with {{placeholders}} */
+    template: string;
+    /** Vault folder whose changes start from this template (empty for none) */
+    folder: string;
+}
+
+/**
+ * Severity of a pre-submit check, "off" to skip it
+ */
+export type P4SubmitCheckLevel = "error" | "warning" | "off";
+
+/**
+ * A problem found by a pre-submit check
+ * Errors block the submit unless overridden, warnings are only shown.
+ */
+export interface P4SubmitIssue {
+    /** Id of the check that found it */
+    check: string;
+    severity: "error" | "warning";
+    vaultPath: string;
+    message: string;
+    /** 1-based line, if the issue is on a line */
+    line?: number;
+}
+
 /**
  * Result of p4 sync operation
  */
@@ -60,8 +175,45 @@ export interface P4SyncResult {
     files: P4SyncedFile[];
     /** Total bytes synced */
     totalBytes?: number;
+    /** False if the sync was cancelled before p4 finished, files then lists what was synced so far */
+    complete: boolean;
+    /** Messages for files that could not be synced (e.g. writable files that would be clobbered) */
+    errors: string[];
 }
 
+/**
+ * Progress of a running sync
+ */
+export interface P4SyncProgress {
+    /** Files synced so far */
+    files: number;
+    /** Bytes synced so far */
+    bytes: number;
+    /** Files to sync in total (0 until p4 reports it) */
+    totalFiles: number;
+    /** Bytes to sync in total (0 until p4 reports it) */
+    totalBytes: number;
+    /** Vault path of the last synced file */
+    currentFile: string;
+}
+
+/**
+ * Options for a streaming sync
+ */
+export interface P4SyncOptions {
+    /** Called after every synced file */
+    onProgress?: (progress: P4SyncProgress) => void;
+    /** Cancels the sync, the result then covers the files synced so far */
+    signal?: AbortSignal;
+    /** Revision to sync to, e.g. "@1234", "@label", "@2024/01/15" or "#3" (head if not set) */
+    revision?: string;
+}
+
+/**
+ * Kinds of revision a sync can target
+ */
+export type P4RevisionKind = "change" | "label" | "date" | "rev";
+
 export interface P4SyncedFile {
     depotFile: string;
     clientFile: string;
@@ -70,6 +222,67 @@ export interface P4SyncedFile {
     rev: number;
 }
 
+/**
+ * A file that a sync would bring in
+ */
+export interface P4IncomingFile extends P4SyncedFile {
+    /** Changelist of the incoming revision */
+    change: number;
+    /** True if the file is opened, syncing it schedules a resolve */
+    opened: boolean;
+}
+
+/**
+ * What a sync of the vault would do, from `p4 sync -n`
+ */
+export interface P4SyncPreview {
+    files: P4IncomingFile[];
+    /** Submitted changelists the incoming revisions belong to, newest first */
+    changes: P4HistoryEntry[];
+}
+
+/**
+ * A local change made outside Perforce, found by `p4 reconcile -n`
+ */
+export interface P4ReconcileFile {
+    depotFile: string;
+    clientFile: string;
+    vaultPath: string;
+    /** How the file would be opened */
+    action: "edit" | "add" | "delete";
+}
+
+/**
+ * An operation recorded while working offline, replayed when the connection returns
+ */
+export interface P4JournalEntry {
+    action: "edit" | "add" | "delete" | "move";
+    /** Vault path of the file (the new path for a move) */
+    vaultPath: string;
+    /** Vault path a moved file came from */
+    fromPath?: string;
+    /** When the operation was recorded (ms since epoch) */
+    time: number;
+}
+
+/**
+ * A journal entry checked against the server before replaying it
+ */
+export interface P4JournalReview {
+    entry: P4JournalEntry;
+    /** How the entry is replayed (a move of a file that isn't in the depot is added instead) */
+    action: P4JournalEntry["action"];
+    /**
+     * - ready: can be replayed as is
+     * - needs-resolve: the file changed on the server, replaying schedules a resolve
+     * - conflict: can't be replayed (e.g. deleted or added on the server)
+     * - skip: nothing left to do (e.g. already opened)
+     */
+    status: "ready" | "needs-resolve" | "conflict" | "skip";
+    /** Why the entry isn't ready */
+    reason: string;
+}
+
 /**
  * P4 connection/workspace info
  */
@@ -79,12 +292,83 @@ export interface P4Info {
     clientRoot: string;
     serverAddress: string;
     serverVersion?: string;
+    /** True if the server runs in unicode mode */
+    serverUnicode?: boolean;
+}
+
+/**
+ * A line of a client view: depot path mapped to a client path
+ */
+export interface P4ViewMapping {
+    /** "-" excludes, "+" overlays, "&" maps read-only (ditto) */
+    prefix: "" | "-" | "+" | "&";
+    depotPath: string;
+    clientPath: string;
+}
+
+/**
+ * A client (workspace) spec as returned by `p4 client -o`
+ */
+export interface P4ClientSpec {
+    client: string;
+    owner: string;
+    host: string;
+    description: string;
+    root: string;
+    /** e.g. ["noallwrite", "noclobber", ...] */
+    options: string[];
+    submitOptions: string;
+    lineEnd: string;
+    /** Stream path for stream workspaces (the view is generated from the stream) */
+    stream: string;
+    view: P4ViewMapping[];
+    /** Every field as returned by p4, so saving keeps the ones not modelled here */
+    fields: Record<string, string>;
+}
+
+/**
+ * A client (workspace) as listed by `p4 clients`
+ */
+export interface P4ClientSummary {
+    client: string;
+    owner: string;
+    root: string;
+    host: string;
+    /** Stream path for stream workspaces */
+    stream: string;
+    description: string;
+}
+
+/**
+ * What a new client maps: a stream, or a depot path
+ */
+export type P4ClientSource = { stream: string } | { depotPath: string };
+
+/**
+ * How much of the vault folder the client view maps
+ */
+export type P4ViewCoverage = "full" | "partial" | "none";
+
+/**
+ * A resolved P4 environment variable and where its value came from
+ */
+export interface P4ConnectionVariable {
+    name: string;
+    value: string;
+    source: string;
 }
 
 /**
  * Result of checking P4 requirements
  */
-export type P4RequirementsResult = "valid" | "missing-p4" | "not-in-workspace" | "not-logged-in";
+export type P4RequirementsResult =
+    | "valid"
+    | "missing-p4"
+    | "not-in-workspace"
+    | "not-logged-in"
+    | "connection-failed"
+    | "untrusted-server"
+    | "charset-mismatch";
 
 /**
  * Current plugin state
@@ -135,12 +419,32 @@ export interface P4BlameLine {
     description?: string;
 }
 
+/**
+ * Range of lines attributed to the same change
+ */
+export interface P4BlameBlock {
+    /** First line of the block (1-based) */
+    startLine: number;
+    /** Last line of the block (inclusive) */
+    endLine: number;
+    /** Changelist that added these lines */
+    lower: number;
+    /** Last changelist in which these lines are present */
+    upper: number;
+    /** User who made the change */
+    user: string;
+    /** Date of the change */
+    date?: string;
+}
+
 /**
  * Full blame result for a file
  */
 export interface P4BlameResult {
     filePath: string;
     lines: P4BlameLine[];
+    /** Consecutive line ranges attributed to the same change */
+    blocks: P4BlameBlock[];
     /** Timestamp when blame was fetched */
     fetchedAt: number;
 }
@@ -161,6 +465,40 @@ export interface P4HistoryEntry {
     }[];
 }
 
+/**
+ * Filters of the shelf browser, empty fields match every shelf
+ */
+export interface P4ShelfFilter {
+    user?: string;
+    client?: string;
+    /** Vault folder or note the shelves must touch */
+    path?: string;
+}
+
+/**
+ * A file in a shelved changelist
+ */
+export interface P4ShelvedFile {
+    depotFile: string;
+    /** Path relative to vault (null if the file isn't mapped into the vault) */
+    vaultPath: string | null;
+    action: P4Action;
+    /** Revision the file was shelved from */
+    rev: number;
+    /** Revision the client has (0 if none) */
+    haveRev: number;
+}
+
+/**
+ * A shelved file that can't be unshelved cleanly
+ */
+export interface P4UnshelveConflict {
+    file: P4ShelvedFile;
+    /** "opened": already opened here, "out-of-date": needs a resolve, "not-in-vault": not mapped into the vault */
+    kind: "opened" | "out-of-date" | "not-in-vault";
+    message: string;
+}
+
 /**
  * A file with merge conflicts that needs resolution
  */
@@ -198,6 +536,32 @@ export interface P4MergeVersions {
  */
 export type P4ResolveAction = "accept-yours" | "accept-theirs" | "accept-merged" | "accept-safe-merge";
 
+/**
+ * Connection values that are switched together
+ */
+export interface P4ConnectionSettings {
+    /** P4PORT - Server address */
+    p4Port: string;
+    /** P4USER - Username */
+    p4User: string;
+    /** P4CLIENT - Workspace/client name */
+    p4Client: string;
+    /** P4CHARSET - Character set for unicode-mode servers */
+    p4Charset: string;
+    /** P4CONFIG - Name of the config file to look for */
+    p4Config: string;
+    /** Fingerprint of the SSL server to trust */
+    trustFingerprint: string;
+}
+
+/**
+ * A named connection profile
+ */
+export interface P4ConnectionProfile extends P4ConnectionSettings {
+    /** Unique display name */
+    name: string;
+}
+
 /**
  * Plugin settings interface
  */
@@ -210,6 +574,16 @@ export interface P4PluginSettings {
     p4User: string;
     /** P4CLIENT - Workspace/client name */
     p4Client: string;
+    /** P4CHARSET - Character set for unicode-mode servers */
+    p4Charset: string;
+    /** P4CONFIG - Name of the config file to look for (discovered from the vault root if empty) */
+    p4Config: string;
+    /** Fingerprint of the SSL server to trust */
+    trustFingerprint: string;
+    /** Saved connection profiles */
+    connectionProfiles: P4ConnectionProfile[];
+    /** Name of the active profile (empty to use the connection settings above) */
+    activeProfile: string;
     /** Enable auto-checkout when editing files */
     autoCheckout: boolean;
     /** Automatically add new files to Perforce */
@@ -218,8 +592,30 @@ export interface P4PluginSettings {
     showStatusBar: boolean;
     /** Sync on plugin startup */
     syncOnStartup: boolean;
-    /** Default submit message template */
+    /** Show the incoming changes before syncing the vault */
+    previewBeforeSync: boolean;
+    /** Minutes between checks for incoming changes (0 to turn off) */
+    incomingCheckInterval: number;
+    /** Sync incoming files that aren't opened as soon as they are found */
+    autoSyncIncoming: boolean;
+    /** Files never added by auto-add, add folder or reconcile, in P4IGNORE syntax (on top of the built-in rules and P4IGNORE files) */
+    ignoreRules: string;
+    /** Revisions the vault ("") or its folders and notes were synced to, when not head */
+    pinnedRevisions: Record<string, string>;
+    /** Operations recorded while working offline, oldest first */
+    offlineJournal: P4JournalEntry[];
+    /** Default changelist description template */
     submitMessageTemplate: string;
+    /** Named description templates, a template with a folder is the default for changes in it */
+    descriptionTemplates: P4DescriptionTemplate[];
+    /** Run the pre-submit checks before each submit */
+    checkBeforeSubmit: boolean;
+    /** Severity of each pre-submit check by id, checks not listed use their default */
+    submitChecks: Record<string, P4SubmitCheckLevel>;
+    /** Frontmatter keys every submitted note needs, comma separated */
+    requiredFrontmatter: string;
+    /** Largest file that can be submitted in megabytes (0 for no limit) */
+    maxSubmitFileSize: number;
     /** Show popup notifications */
     showNotices: boolean;
     /** Refresh source control view automatically */
@@ -261,6 +657,16 @@ declare module "obsidian" {
             callback: (files: P4FileStatus[]) => void,
             ctx?: unknown
         ): EventRef;
+        on(
+            name: "obsidian-p4:offline-changed",
+            callback: (offline: boolean) => void,
+            ctx?: unknown
+        ): EventRef;
+        on(
+            name: "obsidian-p4:incoming-changed",
+            callback: (incoming: P4SyncPreview | null) => void,
+            ctx?: unknown
+        ): EventRef;
         on(
             name: "obsidian-p4:menu",
             callback: (
@@ -275,6 +681,8 @@ declare module "obsidian" {
         trigger(name: "obsidian-p4:refresh"): void;
         trigger(name: "obsidian-p4:refresh-now"): void;
         trigger(name: "obsidian-p4:status-changed", files: P4FileStatus[]): void;
+        trigger(name: "obsidian-p4:incoming-changed", incoming: P4SyncPreview | null): void;
+        trigger(name: "obsidian-p4:offline-changed", offline: boolean): void;
         trigger(
             name: "obsidian-p4:menu",
             menu: Menu,
@@ -0,0 +1,207 @@
+import { ItemView, Notice, WorkspaceLeaf, setIcon } from "obsidian";
+import type ObsidianP4 from "../main";
+import { CLIENT_SPEC_VIEW_CONFIG } from "../constants";
+import { formatViewLine, parseViewLine, validateView } from "../clientSpec";
+import type { P4ClientSpec, P4ViewMapping } from "../types";
+
+/**
+ * View for inspecting the client (workspace) spec and editing its view mappings
+ */
+export class P4ClientSpecView extends ItemView {
+    private plugin: ObsidianP4;
+    private spec: P4ClientSpec | null = null;
+    private contentContainer: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianP4) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return CLIENT_SPEC_VIEW_CONFIG.type;
+    }
+
+    getDisplayText(): string {
+        return CLIENT_SPEC_VIEW_CONFIG.name;
+    }
+
+    getIcon(): string {
+        return CLIENT_SPEC_VIEW_CONFIG.icon;
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass("p4-client-spec-view");
+
+        // Header
+        const header = container.createDiv({ cls: "p4-view-header" });
+
+        const title = header.createDiv({ cls: "p4-view-title" });
+        title.createSpan({ text: "Workspace" });
+
+        const actions = header.createDiv({ cls: "p4-view-actions" });
+
+        // Refresh button
+        const refreshBtn = actions.createEl("button", {
+            cls: "p4-action-button",
+            attr: { "aria-label": "Refresh" }
+        });
+        setIcon(refreshBtn, "refresh-cw");
+        refreshBtn.addEventListener("click", () => { void this.refresh(); });
+
+        // Content container
+        this.contentContainer = container.createDiv({ cls: "p4-view-content" });
+
+        // Initial load
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        // Cleanup
+    }
+
+    /**
+     * Reload the client spec
+     */
+    async refresh(): Promise<void> {
+        if (!this.plugin.p4Ready) {
+            this.renderNotConnected();
+            return;
+        }
+
+        try {
+            this.spec = await this.plugin.p4Manager.getClientSpec();
+            this.renderContent(this.spec);
+        } catch (error) {
+            this.renderError((error as Error).message);
+        }
+    }
+
+    /**
+     * Render the spec fields, the mapping warning and the view editor
+     */
+    private renderContent(spec: P4ClientSpec): void {
+        this.contentContainer.empty();
+
+        const coverage = this.plugin.p4Manager.getVaultCoverage(spec);
+        if (coverage !== "full") {
+            this.contentContainer.createEl("p", {
+                text: coverage === "none"
+                    ? "The vault folder is not mapped by this workspace's view, files in it can't be opened or synced."
+                    : "The vault folder is only partly mapped by this workspace's view, some files can't be opened or synced.",
+                cls: "p4-warning p4-client-spec-warning",
+            });
+        }
+
+        const table = this.contentContainer.createEl("table", { cls: "p4-info-table" });
+        const rows = [
+            ["Client", spec.client],
+            ["Owner", spec.owner],
+            ["Host", spec.host],
+            ["Root", spec.root],
+            ["Stream", spec.stream],
+            ["Options", spec.options.join(" ")],
+            ["Submit", spec.submitOptions],
+            ["Line end", spec.lineEnd],
+        ];
+        for (const [label, value] of rows) {
+            if (!value) continue;
+            const row = table.createEl("tr");
+            row.createEl("td", { text: label, cls: "p4-info-label" });
+            row.createEl("td", { text: value, cls: "p4-info-value" });
+        }
+
+        if (spec.description) {
+            this.contentContainer.createEl("p", { text: spec.description, cls: "p4-muted p4-client-spec-description" });
+        }
+
+        this.renderViewEditor(spec);
+    }
+
+    /**
+     * Render the view mappings as an editable list, one mapping per line
+     */
+    private renderViewEditor(spec: P4ClientSpec): void {
+        const section = this.contentContainer.createDiv({ cls: "p4-client-spec-section" });
+        section.createDiv({ text: "View", cls: "p4-info-subheading" });
+
+        const original = spec.view.map(formatViewLine).join("\n");
+        const textarea = section.createEl("textarea", { cls: "p4-client-spec-editor" });
+        textarea.value = original;
+        textarea.rows = Math.max(4, spec.view.length + 1);
+        textarea.spellcheck = false;
+
+        if (spec.stream) {
+            // The view of a stream workspace is generated from the stream spec
+            textarea.readOnly = true;
+            section.createEl("p", { text: "The view is generated from the stream and can't be edited here.", cls: "p4-muted" });
+            return;
+        }
+
+        const errorList = section.createEl("ul", { cls: "p4-error p4-client-spec-errors" });
+        errorList.hide();
+
+        const buttons = section.createDiv({ cls: "p4-client-spec-buttons" });
+        const resetBtn = buttons.createEl("button", { text: "Reset" });
+        const saveBtn = buttons.createEl("button", { text: "Save view", cls: "mod-cta" });
+
+        const update = (): void => {
+            const errors = validateView(textarea.value.split("\n"), spec.client);
+            errorList.empty();
+            for (const error of errors) {
+                errorList.createEl("li", { text: error });
+            }
+            errorList.toggle(errors.length > 0);
+            const changed = textarea.value.trim() !== original;
+            saveBtn.disabled = !changed || errors.length > 0;
+            resetBtn.disabled = !changed;
+        };
+        update();
+
+        textarea.addEventListener("input", update);
+        resetBtn.addEventListener("click", () => {
+            textarea.value = original;
+            update();
+        });
+        saveBtn.addEventListener("click", () => {
+            const view = textarea.value.split("\n")
+                .filter(line => line.trim())
+                .map(line => parseViewLine(line) as P4ViewMapping);
+            void this.saveView(spec, view);
+        });
+    }
+
+    /**
+     * Save the edited view and reload the spec
+     */
+    private async saveView(spec: P4ClientSpec, view: P4ViewMapping[]): Promise<void> {
+        try {
+            await this.plugin.p4Manager.saveClientSpec({ ...spec, view });
+            new Notice(`Workspace ${spec.client} saved`);
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+        } catch (error) {
+            this.plugin.displayError(error);
+        }
+        await this.refresh();
+    }
+
+    /**
+     * Render not connected state
+     */
+    private renderNotConnected(): void {
+        this.contentContainer.empty();
+        const state = this.contentContainer.createDiv({ cls: "p4-empty-state" });
+        state.createEl("p", { text: "Perforce is not connected" });
+    }
+
+    /**
+     * Render error state
+     */
+    private renderError(message: string): void {
+        this.contentContainer.empty();
+        const state = this.contentContainer.createDiv({ cls: "p4-error-state" });
+        state.createEl("p", { text: "Error loading workspace" });
+        state.createEl("p", { text: message, cls: "p4-muted" });
+    }
+}
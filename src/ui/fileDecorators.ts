@@ -1,6 +1,8 @@
 import { setIcon } from "obsidian";
 import type ObsidianP4 from "../main";
-import type { P4DecoratorStatus, P4FileStatus } from "../types";
+import { countNewerRevisions } from "../fileStateStore";
+import { describeOtherOpens } from "../otherOpens";
+import type { P4DecoratorStatus, P4FileState, P4OtherOpen } from "../types";
 
 /**
  * Icons for each status (Lucide icon names)
@@ -15,6 +17,9 @@ const STATUS_ICONS: Record<P4DecoratorStatus, string> = {
     "move/delete": "copy-minus",
     synced: "folder-dot",
     locked: "user-lock",
+    others: "users",
+    "others-locked": "lock-keyhole",
+    stale: "history",
 };
 
 /**
@@ -30,6 +35,9 @@ const STATUS_CLASSES: Record<P4DecoratorStatus, string> = {
     "move/delete": "p4-status-move",
     synced: "p4-status-synced",
     locked: "p4-status-locked",
+    others: "p4-status-others",
+    "others-locked": "p4-status-others-locked",
+    stale: "p4-status-stale",
 };
 
 /**
@@ -45,21 +53,19 @@ const STATUS_TOOLTIPS: Record<P4DecoratorStatus, string> = {
     "move/delete": "Moved (delete)",
     synced: "Synced from depot (read-only)",
     locked: "Locked (exclusive)",
+    others: "Opened by another user",
+    "others-locked": "Locked by another user",
+    stale: "Not at head",
 };
 
 /**
  * Manages file status decorators in the file explorer and tabs
+ * Statuses come from the plugin's file state store, which operations keep current.
  */
 export class P4FileDecorators {
     private plugin: ObsidianP4;
     private observer: MutationObserver | null = null;
     
-    /** Files opened in P4 (checked out, add, delete, etc.) */
-    private openedFiles: Map<string, P4FileStatus> = new Map();
-    
-    /** Files synced from depot (not opened) */
-    private syncedFiles: Set<string> = new Set();
-    
     private isDecorating: boolean = false;
     private decorateTimeout: NodeJS.Timeout | null = null;
 
@@ -71,11 +77,8 @@ export class P4FileDecorators {
      * Start watching for DOM changes and decorating files
      */
     start(): void {
-        // Initial decoration (delayed to avoid blocking)
-        this.updateFileStatus(this.plugin.getCachedOpenedFiles());
-        void this.loadSyncedFiles().then(() => {
-            this.decorateAll();
-        });
+        // Initial decoration
+        this.scheduleDecorate();
 
         // Watch for DOM changes (new files appearing in explorer/tabs)
         this.observer = new MutationObserver(() => {
@@ -91,43 +94,21 @@ export class P4FileDecorators {
             });
         }
 
-        // Listen for status changes
+        // Listen for status changes, sent after every refresh
         this.plugin.registerEvent(
-            this.plugin.app.workspace.on("obsidian-p4:status-changed", (files: P4FileStatus[]) => {
-                this.updateFileStatus(files);
+            this.plugin.app.workspace.on("obsidian-p4:status-changed", () => {
                 this.scheduleDecorate();
             })
         );
 
-        // Listen for refresh events to reload synced files
+        // Incoming changes update the head revisions of the files they touch
         this.plugin.registerEvent(
-            this.plugin.app.workspace.on("obsidian-p4:refresh", () => {
-                void this.loadSyncedFiles().then(() => this.scheduleDecorate());
-            })
-        );
-        
-        // Listen for immediate refresh events
-        this.plugin.registerEvent(
-            this.plugin.app.workspace.on("obsidian-p4:refresh-now", () => {
-                void this.loadSyncedFiles().then(() => this.scheduleDecorate());
+            this.plugin.app.workspace.on("obsidian-p4:incoming-changed", () => {
+                this.scheduleDecorate();
             })
         );
     }
 
-    /**
-     * Load synced files from P4
-     */
-    private async loadSyncedFiles(): Promise<void> {
-        if (!this.plugin.p4Ready) return;
-        
-        try {
-            this.syncedFiles = await this.plugin.p4Manager.getHaveFiles();
-            console.debug("P4 decorator: loaded", this.syncedFiles.size, "synced files");
-        } catch (error) {
-            console.error("P4 decorator: failed to load synced files:", error);
-        }
-    }
-
     /**
      * Schedule decoration with debouncing to prevent infinite loops
      */
@@ -155,55 +136,50 @@ export class P4FileDecorators {
     }
 
     /**
-     * Update the opened files map
+     * Remove all decorations (e.g. after switching servers, the file states are cleared separately)
      */
-    updateFileStatus(files: P4FileStatus[]): void {
-        this.openedFiles.clear();
-        for (const file of files) {
-            this.openedFiles.set(file.vaultPath, file);
-        }
+    clear(): void {
+        this.removeAllDecorations();
     }
 
     /**
-     * Get the decorator status for a file path
+     * Find the state of a file, also trying the .md extension the explorer may leave out
      */
-    private getStatusForPath(vaultPath: string): P4DecoratorStatus | null {
+    private findState(vaultPath: string): P4FileState | undefined {
+        const { fileStates } = this.plugin.p4Manager;
+        return fileStates.get(vaultPath) ?? fileStates.get(vaultPath + ".md");
+    }
+
+    /**
+     * Get the decorator status for a file state
+     */
+    private getStatus(state: P4FileState | undefined): P4DecoratorStatus | null {
+        if (!state) return null;
+
         // First check if file is opened (checked out/add/delete/etc.)
-        const opened = this.findOpenedForPath(vaultPath);
-        if (opened) {
+        if (state.action) {
             // Check if it has exclusive lock flag in the type
-            if (opened.type?.includes("+l")) {
+            if (state.type?.includes("+l")) {
                 return "locked";
             }
-            return opened.action;
+            return state.action;
         }
         
         // Then check if file is synced from depot
-        if (this.isSyncedFile(vaultPath)) {
+        if (state.haveRev > 0) {
             return "synced";
         }
         
-        // File is not in depot (local only) - no decorator
+        // Not on this client (e.g. deleted at head) - no decorator
         return null;
     }
 
     /**
-     * Check if a file is synced from depot
+     * Get the badge for a file opened by others, shown next to the file's own status
      */
-    private isSyncedFile(vaultPath: string): boolean {
-        // Try exact match
-        if (this.syncedFiles.has(vaultPath)) return true;
-        
-        // Try with .md extension
-        if (this.syncedFiles.has(vaultPath + ".md")) return true;
-        
-        // Try case-insensitive matching
-        const lowerPath = vaultPath.toLowerCase();
-        for (const syncedPath of this.syncedFiles) {
-            if (syncedPath.toLowerCase() === lowerPath) return true;
-        }
-        
-        return false;
+    private getOthersStatus(opens: P4OtherOpen[]): P4DecoratorStatus | null {
+        if (opens.length === 0) return null;
+        return opens.some(o => o.locked) ? "others-locked" : "others";
     }
 
     /**
@@ -260,46 +236,39 @@ export class P4FileDecorators {
             const dataPath = item.getAttribute("data-path");
             if (!dataPath) continue;
 
-            // Remove existing decorator
-            const existing = item.querySelector(".p4-file-decorator");
-            if (existing) {
+            // Remove existing decorators
+            for (const existing of Array.from(item.querySelectorAll(".p4-file-decorator"))) {
                 existing.remove();
             }
 
-            // Get status for this file
-            const status = this.getStatusForPath(dataPath);
-            
-            if (status) {
-                this.addDecorator(item as HTMLElement, status);
-            }
+            const state = this.findState(dataPath);
+            this.decorate(item as HTMLElement, state, (element, status, tooltip) => this.addDecorator(element, status, tooltip));
         }
     }
 
     /**
-     * Find opened file status for a given path
+     * Add the status decorator of a file and the badges for other users' opens and newer revisions
      */
-    private findOpenedForPath(dataPath: string): P4FileStatus | undefined {
-        // Exact match
-        let status = this.openedFiles.get(dataPath);
-        if (status) return status;
-        
-        // Try with .md extension
-        status = this.openedFiles.get(dataPath + ".md");
-        if (status) return status;
-        
-        // Try matching by ending
-        for (const [storedPath, fileStatus] of this.openedFiles) {
-            if (storedPath.endsWith("/" + dataPath) || storedPath.endsWith("\\" + dataPath)) {
-                return fileStatus;
-            }
-            const storedFilename = storedPath.split(/[/\\]/).pop();
-            const dataFilename = dataPath.split(/[/\\]/).pop();
-            if (storedFilename && dataFilename && storedFilename === dataFilename) {
-                return fileStatus;
-            }
+    private decorate(
+        element: HTMLElement,
+        state: P4FileState | undefined,
+        add: (element: HTMLElement, status: P4DecoratorStatus, tooltip?: string) => void,
+    ): void {
+        const status = this.getStatus(state);
+        if (status) {
+            add(element, status);
+        }
+
+        const otherOpens = state?.otherOpens ?? [];
+        const othersStatus = this.getOthersStatus(otherOpens);
+        if (othersStatus) {
+            add(element, othersStatus, describeOtherOpens(otherOpens));
+        }
+
+        const newer = countNewerRevisions(state);
+        if (state && newer > 0) {
+            add(element, "stale", `${newer} newer revision(s) on the server (have #${state.haveRev} of #${state.headRev})`);
         }
-        
-        return undefined;
     }
 
     /**
@@ -314,55 +283,27 @@ export class P4FileDecorators {
 
             const tabText = titleEl.textContent || "";
             
-            // Remove existing decorator
-            const existing = tab.querySelector(".p4-tab-decorator");
-            if (existing) {
+            // Remove existing decorators
+            for (const existing of Array.from(tab.querySelectorAll(".p4-tab-decorator"))) {
                 existing.remove();
             }
 
             // Find matching file by name
-            const status = this.findStatusByName(tabText);
-            if (status) {
-                this.addTabDecorator(tab as HTMLElement, status);
-            }
+            const state = this.plugin.p4Manager.fileStates.findByName(tabText);
+            this.decorate(tab as HTMLElement, state, (element, status, tooltip) => this.addTabDecorator(element, status, tooltip));
         }
     }
 
-    /**
-     * Find status by filename (for tab matching)
-     */
-    private findStatusByName(filename: string): P4DecoratorStatus | null {
-        // First check opened files
-        for (const [path, fileStatus] of this.openedFiles) {
-            const name = path.split("/").pop() || path;
-            if (name === filename || name === filename + ".md") {
-                if (fileStatus.type?.includes("+l")) {
-                    return "locked";
-                }
-                return fileStatus.action;
-            }
-        }
-        
-        // Then check synced files
-        for (const path of this.syncedFiles) {
-            const name = path.split("/").pop() || path;
-            if (name === filename || name === filename + ".md") {
-                return "synced";
-            }
-        }
-        
-        return null;
-    }
-
     /**
      * Add a decorator element to a file explorer item
+     * @param tooltip Overrides the status tooltip, e.g. to name who else has the file open
      */
-    private addDecorator(element: HTMLElement, status: P4DecoratorStatus): void {
+    private addDecorator(element: HTMLElement, status: P4DecoratorStatus, tooltip: string = STATUS_TOOLTIPS[status]): void {
         const decorator = document.createElement("span");
         decorator.className = "p4-file-decorator p4-decorator-icon";
         decorator.addClass(STATUS_CLASSES[status]);
-        decorator.setAttribute("aria-label", STATUS_TOOLTIPS[status]);
-        decorator.setAttribute("title", STATUS_TOOLTIPS[status]);
+        decorator.setAttribute("aria-label", tooltip);
+        decorator.setAttribute("title", tooltip);
         decorator.setAttribute("data-status", status);
 
         const icon = STATUS_ICONS[status] || "circle";
@@ -374,15 +315,15 @@ export class P4FileDecorators {
     /**
      * Add a decorator element to a tab header
      */
-    private addTabDecorator(element: HTMLElement, status: P4DecoratorStatus): void {
+    private addTabDecorator(element: HTMLElement, status: P4DecoratorStatus, tooltip: string = STATUS_TOOLTIPS[status]): void {
         const titleInner = element.querySelector(".workspace-tab-header-inner");
         if (!titleInner) return;
 
         const decorator = document.createElement("span");
         decorator.className = "p4-tab-decorator p4-decorator-icon";
         decorator.addClass(STATUS_CLASSES[status]);
-        decorator.setAttribute("aria-label", STATUS_TOOLTIPS[status]);
-        decorator.setAttribute("title", STATUS_TOOLTIPS[status]);
+        decorator.setAttribute("aria-label", tooltip);
+        decorator.setAttribute("title", tooltip);
         decorator.setAttribute("data-status", status);
 
         const icon = STATUS_ICONS[status] || "circle";
@@ -288,9 +288,7 @@ export class P4MergeView extends ItemView {
             await this.plugin.p4Manager.resolve(this.filePath, action);
             this.plugin.displayMessage(`Resolved: ${this.filePath.split("/").pop()}`);
             this.plugin.app.workspace.trigger("obsidian-p4:refresh-now");
-            
-            // Close this view
-            this.leaf.detach();
+            await this.afterResolve();
         } catch (error) {
             this.plugin.displayError(error);
         }
@@ -308,14 +306,54 @@ export class P4MergeView extends ItemView {
             await this.plugin.p4Manager.resolve(this.filePath, "accept-merged", mergedContent);
             this.plugin.displayMessage(`Resolved with edits: ${this.filePath.split("/").pop()}`);
             this.plugin.app.workspace.trigger("obsidian-p4:refresh-now");
-            
-            // Close this view
-            this.leaf.detach();
+            await this.afterResolve();
         } catch (error) {
             this.plugin.displayError(error);
         }
     }
 
+    /**
+     * Go on with a failed submit once the file is resolved, or close this view
+     */
+    private async afterResolve(): Promise<void> {
+        if (!this.plugin.p4Manager.failedSubmit) {
+            this.leaf.detach();
+            return;
+        }
+
+        const conflicts = await this.plugin.getFailedSubmitConflicts();
+        if (conflicts.length > 0) {
+            await this.leaf.setViewState({
+                type: MERGE_VIEW_CONFIG.type,
+                state: { filePath: conflicts[0]!.vaultPath },
+            });
+            return;
+        }
+
+        this.filePath = "";
+        this.destroyEditors();
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        this.renderReadyToSubmit(container, this.plugin.p4Manager.failedSubmit.changelist);
+    }
+
+    /**
+     * Render the retry of a failed submit whose files are all resolved
+     */
+    private renderReadyToSubmit(container: HTMLElement, changelist: number): void {
+        const ready = container.createDiv({ cls: "p4-empty-state" });
+        ready.createEl("p", { text: `All files are resolved, changelist ${changelist} is ready to submit.` });
+
+        const actions = ready.createDiv({ cls: "p4-merge-quick-actions" });
+        const retryBtn = actions.createEl("button", { cls: "mod-cta", text: "Retry submit" });
+        retryBtn.addEventListener("click", () => {
+            retryBtn.disabled = true;
+            void this.plugin.retrySubmit().then(() => this.leaf.detach());
+        });
+        const closeBtn = actions.createEl("button", { text: "Close" });
+        closeBtn.addEventListener("click", () => this.leaf.detach());
+    }
+
     /**
      * Render empty state
      */
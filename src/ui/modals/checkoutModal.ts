@@ -1,9 +1,10 @@
 import { App, Modal, TFile } from "obsidian";
 import type ObsidianP4 from "../../main";
+import type { P4OtherOpen } from "../../types";
 import { mount, unmount } from "svelte";
 import CheckoutModalComponent from "../svelte/modals/CheckoutModal.svelte";
 
-export type CheckoutResult = "checkout" | "checkout-lock" | "skip" | "skip-session" | "cancel";
+export type CheckoutResult = "checkout" | "checkout-lock" | "sync-checkout" | "skip" | "skip-session" | "cancel";
 
 /**
  * Modal for prompting user to checkout a file before editing
@@ -11,14 +12,32 @@ export type CheckoutResult = "checkout" | "checkout-lock" | "skip" | "skip-sessi
 export class CheckoutModal extends Modal {
     private plugin: ObsidianP4;
     private file: TFile;
+    private offline: boolean;
+    private otherOpens: P4OtherOpen[];
+    private newerRevisions: number;
     private result: CheckoutResult = "cancel";
     private resolvePromise: ((value: CheckoutResult) => void) | null = null;
     private svelteComponent: ReturnType<typeof mount> | null = null;
 
-    constructor(app: App, plugin: ObsidianP4, file: TFile) {
+    /**
+     * @param offline Offer to edit the file offline instead of checking it out
+     * @param otherOpens Other users or clients that have the file open, shown as a warning
+     * @param newerRevisions Revisions submitted after the one the vault has, offers to sync to head first
+     */
+    constructor(
+        app: App,
+        plugin: ObsidianP4,
+        file: TFile,
+        offline: boolean = false,
+        otherOpens: P4OtherOpen[] = [],
+        newerRevisions: number = 0,
+    ) {
         super(app);
         this.plugin = plugin;
         this.file = file;
+        this.offline = offline;
+        this.otherOpens = otherOpens;
+        this.newerRevisions = newerRevisions;
     }
 
     onOpen(): void {
@@ -31,6 +50,9 @@ export class CheckoutModal extends Modal {
             props: {
                 fileName: this.file.name,
                 filePath: this.file.path,
+                offline: this.offline,
+                otherOpens: this.otherOpens,
+                newerRevisions: this.newerRevisions,
                 onCheckout: () => {
                     this.result = "checkout";
                     this.close();
@@ -39,6 +61,10 @@ export class CheckoutModal extends Modal {
                     this.result = "checkout-lock";
                     this.close();
                 },
+                onSyncCheckout: () => {
+                    this.result = "sync-checkout";
+                    this.close();
+                },
                 onSkip: () => {
                     this.result = "skip";
                     this.close();
@@ -0,0 +1,112 @@
+import { App, Modal, Setting } from "obsidian";
+import { DEFAULT_TEMPLATE_NAME } from "../../descriptionTemplates";
+import type { P4DescriptionTemplate } from "../../types";
+
+/**
+ * Modal for creating or editing a named description template
+ */
+export class DescriptionTemplateModal extends Modal {
+    private template: P4DescriptionTemplate;
+    private takenNames: string[];
+    private result: P4DescriptionTemplate | null = null;
+    private resolvePromise: ((value: P4DescriptionTemplate | null) => void) | null = null;
+
+    /**
+     * @param template - initial values
+     * @param takenNames - names of the other templates (must not be reused)
+     */
+    constructor(app: App, template: P4DescriptionTemplate, takenNames: string[]) {
+        super(app);
+        this.template = { ...template };
+        this.takenNames = [DEFAULT_TEMPLATE_NAME, ...takenNames];
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.template.name ? "Edit description template" : "New description template" });
+
+        const errorEl = contentEl.createEl("p", { cls: "p4-error" });
+        errorEl.hide();
+
+        new Setting(contentEl)
+            .setName("Name")
+            .addText(text => {
+                text.setPlaceholder("Meeting notes")
+                    .setValue(this.template.name)
+                    .onChange(value => this.template.name = value.trim());
+                setTimeout(() => text.inputEl.focus(), 50);
+            });
+
+        new Setting(contentEl)
+            .setName("Folder")
+            .setDesc("Changes to files in this folder start from this template, leave empty to only pick it by hand")
+            .addText(text => text
+                .setPlaceholder("Meetings")
+                .setValue(this.template.folder)
+                .onChange(value => this.template.folder = value.trim().replace(/^\/+|\/+$/g, "")));
+
+        new Setting(contentEl)
+            .setName("Template")
+            .setDesc("Placeholders: {{date}}, {{user}}, {{client}}, {{jobs}}, {{files}}, {{titles}} and {{frontmatter.<key>}}")
+            .addTextArea(text => {
+                text.inputEl.rows = 6;
+                text.inputEl.addClass("p4-template-input");
+                text.setValue(this.template.template)
+                    .onChange(value => this.template.template = value);
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(() => {
+                    const error = this.validate();
+                    if (error) {
+                        errorEl.setText(error);
+                        errorEl.show();
+                        return;
+                    }
+                    this.result = this.template;
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    /**
+     * Return an error message if the template can't be saved
+     */
+    private validate(): string | null {
+        if (!this.template.name) {
+            return "Enter a template name";
+        }
+        if (this.takenNames.includes(this.template.name)) {
+            return `A template named "${this.template.name}" already exists`;
+        }
+        if (!this.template.template.trim()) {
+            return "Enter the template text";
+        }
+        return null;
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the edited template (or null if cancelled)
+     */
+    openAndGetResult(): Promise<P4DescriptionTemplate | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -1,6 +1,8 @@
 import { App, Modal } from "obsidian";
 import { mount, unmount } from "svelte";
 import type ObsidianP4 from "../../main";
+import type { P4DescriptionTemplate } from "../../types";
+import { getDescriptionTemplates } from "../../descriptionTemplates";
 import EditChangelistContent from "../svelte/modals/EditChangelistContent.svelte";
 
 /**
@@ -31,6 +33,8 @@ export class EditChangelistModal extends Modal {
             props: {
                 changelist: this.changelist,
                 initialDescription: this.currentDescription,
+                templates: getDescriptionTemplates(this.plugin.settings),
+                fillTemplate: (template: P4DescriptionTemplate) => this.fillTemplate(template.template),
                 onSave: (description: string) => {
                     this.result = description;
                     this.close();
@@ -43,6 +47,23 @@ export class EditChangelistModal extends Modal {
         });
     }
 
+    /**
+     * Fill in a template for the files and jobs of the changelist (none for a new one)
+     */
+    private async fillTemplate(template: string): Promise<string> {
+        if (this.changelist === 0) {
+            return this.plugin.fillDescriptionTemplate(template, []);
+        }
+        const files = this.plugin.p4Manager.fileStates.getOpenedFiles().filter(f => f.changelist === this.changelist);
+        let jobs: string[] = [];
+        try {
+            jobs = await this.plugin.p4Manager.getChangelistJobs(this.changelist);
+        } catch (error) {
+            console.error("P4: failed to get the jobs of a changelist", error);
+        }
+        return this.plugin.fillDescriptionTemplate(template, files, jobs);
+    }
+
     onClose(): void {
         if (this.svelteComponent) {
             void unmount(this.svelteComponent);
@@ -0,0 +1,143 @@
+import { App, ButtonComponent, Modal, Setting, setIcon } from "obsidian";
+import { describeOfflineOperation } from "../../offlineJournal";
+import type { P4Changelist, P4JournalReview } from "../../types";
+
+/**
+ * Journal entries chosen in the offline journal modal and the changelist to open them in
+ */
+export interface OfflineJournalResult {
+    reviews: P4JournalReview[];
+    changelist: number | "default";
+}
+
+/** Entry groups in display order, only ready and needs-resolve entries can be replayed */
+const STATUS_GROUPS: { status: P4JournalReview["status"]; title: string; icon: string }[] = [
+    { status: "ready", title: "Ready", icon: "check-circle" },
+    { status: "needs-resolve", title: "Changed on the server", icon: "git-merge" },
+    { status: "conflict", title: "Can't be replayed", icon: "alert-triangle" },
+    { status: "skip", title: "Nothing to do", icon: "circle-slash" },
+];
+
+/**
+ * Lists the operations recorded while offline and replays the chosen ones
+ * Resolves with the selection, or null to keep the journal for later.
+ */
+export class OfflineJournalModal extends Modal {
+    private reviews: P4JournalReview[];
+    private changelists: P4Changelist[];
+    private selected: Set<P4JournalReview>;
+    private changelist: number | "default" = "default";
+    private result: OfflineJournalResult | null = null;
+    private resolvePromise: ((value: OfflineJournalResult | null) => void) | null = null;
+
+    constructor(app: App, reviews: P4JournalReview[], changelists: P4Changelist[]) {
+        super(app);
+        this.reviews = reviews;
+        this.changelists = changelists.filter(c => c.change !== "default");
+        this.selected = new Set(reviews.filter(r => this.canReplay(r)));
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("p4-offline-journal-modal");
+        contentEl.createEl("h2", { text: "Replay offline work" });
+        contentEl.createEl("p", {
+            text: `${this.reviews.length} operation(s) were recorded while offline. ` +
+                "Operations you don't replay are dropped from the journal, your files are kept as they are.",
+            cls: "p4-muted",
+        });
+
+        const list = contentEl.createDiv({ cls: "p4-pick-list" });
+        let replayButton: ButtonComponent;
+        const updateSelection = (): void => {
+            replayButton.setButtonText(this.selected.size > 0 ? `Replay ${this.selected.size} operation(s)` : "Clear journal");
+        };
+
+        for (const group of STATUS_GROUPS) {
+            const groupReviews = this.reviews.filter(r => r.status === group.status);
+            if (groupReviews.length === 0) continue;
+
+            const groupHeader = list.createDiv({ cls: "p4-pick-group" });
+            setIcon(groupHeader.createSpan({ cls: "p4-history-icon" }), group.icon);
+            groupHeader.createSpan({ text: `${group.title} (${groupReviews.length})` });
+
+            for (const review of groupReviews) {
+                const row = list.createEl("label", { cls: "p4-pick-file" });
+                const checkbox = row.createEl("input", { type: "checkbox" });
+                checkbox.checked = this.selected.has(review);
+                checkbox.disabled = !this.canReplay(review);
+                checkbox.addEventListener("change", () => {
+                    if (checkbox.checked) {
+                        this.selected.add(review);
+                    } else {
+                        this.selected.delete(review);
+                    }
+                    updateSelection();
+                });
+                row.createSpan({ text: describeOfflineOperation(review.entry), cls: "p4-pick-path" });
+                if (review.reason) {
+                    row.createSpan({ text: review.reason, cls: "p4-muted p4-offline-reason" });
+                }
+            }
+        }
+
+        new Setting(contentEl)
+            .setName("Changelist")
+            .addDropdown(dropdown => {
+                dropdown.addOption("default", "Default");
+                for (const cl of this.changelists) {
+                    const description = cl.description.split("\n")[0] ?? "";
+                    dropdown.addOption(String(cl.change), `${cl.change}: ${description}`);
+                }
+                dropdown.setValue("default").onChange(value => {
+                    this.changelist = value === "default" ? "default" : parseInt(value, 10);
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                replayButton = button;
+                button
+                    .setCta()
+                    .onClick(() => {
+                        // Replay in the order the operations were recorded
+                        this.result = {
+                            reviews: this.reviews.filter(r => this.selected.has(r)),
+                            changelist: this.changelist,
+                        };
+                        this.close();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText("Later")
+                .onClick(() => this.close()));
+        updateSelection();
+    }
+
+    /**
+     * Check if an entry can be replayed
+     */
+    private canReplay(review: P4JournalReview): boolean {
+        return review.status === "ready" || review.status === "needs-resolve";
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the chosen entries (or null to replay later)
+     */
+    openAndGetResult(): Promise<OfflineJournalResult | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
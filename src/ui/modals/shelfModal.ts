@@ -0,0 +1,158 @@
+import { App, Modal, Setting, setIcon } from "obsidian";
+import type { P4Changelist, P4HistoryEntry, P4ShelvedFile, P4UnshelveConflict } from "../../types";
+
+/**
+ * Preview of unshelving a shelf: files that won't unshelve cleanly and the changelist to unshelve into
+ * Resolves with the target changelist, or null if cancelled.
+ */
+export class UnshelvePreviewModal extends Modal {
+    private shelf: P4HistoryEntry;
+    private files: P4ShelvedFile[];
+    private conflicts: P4UnshelveConflict[];
+    private changelists: P4Changelist[];
+    private result: number | "default" | null = null;
+    private resolvePromise: ((value: number | "default" | null) => void) | null = null;
+
+    /**
+     * @param changelists Pending changelists the files can be unshelved into
+     */
+    constructor(app: App, shelf: P4HistoryEntry, files: P4ShelvedFile[], conflicts: P4UnshelveConflict[], changelists: P4Changelist[]) {
+        super(app);
+        this.shelf = shelf;
+        this.files = files;
+        this.conflicts = conflicts;
+        this.changelists = changelists;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("p4-unshelve-preview-modal");
+
+        contentEl.createEl("h2", { text: `Unshelve changelist ${this.shelf.change}` });
+        contentEl.createEl("p", {
+            text: this.conflicts.length > 0
+                ? `${this.conflicts.length} of ${this.files.length} file(s) can't be unshelved cleanly.`
+                : `All ${this.files.length} file(s) can be unshelved cleanly.`,
+            cls: "p4-muted",
+        });
+
+        if (this.conflicts.length > 0) {
+            const list = contentEl.createDiv({ cls: "p4-pick-list" });
+            for (const conflict of this.conflicts) {
+                const row = list.createDiv({ cls: `p4-pick-file p4-unshelve-conflict is-${conflict.kind}` });
+                setIcon(row.createSpan({ cls: "p4-submit-issue-icon" }), conflict.kind === "out-of-date" ? "alert-triangle" : "x-circle");
+                row.createSpan({ text: conflict.file.vaultPath ?? conflict.file.depotFile, cls: "p4-pick-path" });
+                row.createSpan({ text: conflict.message, cls: "p4-muted" });
+            }
+        }
+
+        let target: number | "default" = "default";
+        new Setting(contentEl)
+            .setName("Unshelve into")
+            .addDropdown(dropdown => {
+                for (const cl of this.changelists) {
+                    const label = cl.change === "default"
+                        ? "Default changelist"
+                        : `${cl.change}: ${cl.description.split("\n")[0] ?? ""}`;
+                    dropdown.addOption(String(cl.change), label);
+                }
+                dropdown
+                    .setValue("default")
+                    .onChange(value => target = value === "default" ? "default" : parseInt(value, 10));
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button
+                    .setButtonText(this.conflicts.length > 0 ? "Unshelve anyway" : "Unshelve")
+                    .onClick(() => {
+                        this.result = target;
+                        this.close();
+                    });
+                if (this.conflicts.length > 0) {
+                    button.setWarning();
+                } else {
+                    button.setCta();
+                }
+            })
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the changelist to unshelve into
+     */
+    openAndGetResult(): Promise<number | "default" | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
+
+/**
+ * Confirmation before deleting the shelved files of a changelist
+ */
+export class DeleteShelfModal extends Modal {
+    private shelf: P4HistoryEntry;
+    private result: boolean = false;
+    private resolvePromise: ((value: boolean) => void) | null = null;
+
+    constructor(app: App, shelf: P4HistoryEntry) {
+        super(app);
+        this.shelf = shelf;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl("h2", { text: `Delete shelf ${this.shelf.change}` });
+        contentEl.createEl("p", {
+            text: "The shelved files are deleted from the server, the changelist and its opened files stay.",
+            cls: "p4-muted",
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Delete")
+                .setWarning()
+                .onClick(() => {
+                    this.result = true;
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return whether to delete the shelf
+     */
+    openAndGetResult(): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -0,0 +1,90 @@
+import { App, Modal, Setting, setIcon } from "obsidian";
+import type { P4SubmitIssue } from "../../types";
+
+/**
+ * Report of the pre-submit checks
+ * Resolves with true to submit anyway, errors need an explicit override.
+ */
+export class SubmitCheckModal extends Modal {
+    private issues: P4SubmitIssue[];
+    /** Check names by id */
+    private checkNames: Map<string, string>;
+    private result: boolean = false;
+    private resolvePromise: ((value: boolean) => void) | null = null;
+
+    constructor(app: App, issues: P4SubmitIssue[], checkNames: Map<string, string>) {
+        super(app);
+        this.issues = issues;
+        this.checkNames = checkNames;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("p4-submit-check-modal");
+
+        const errors = this.issues.filter(i => i.severity === "error").length;
+        const warnings = this.issues.length - errors;
+        contentEl.createEl("h2", { text: errors > 0 ? "Submit blocked by checks" : "Submit checks" });
+        contentEl.createEl("p", {
+            text: `${errors} error(s) and ${warnings} warning(s) were found in the files to submit.`,
+            cls: "p4-muted",
+        });
+
+        const list = contentEl.createDiv({ cls: "p4-pick-list" });
+        const paths = Array.from(new Set(this.issues.map(i => i.vaultPath))).sort();
+        for (const vaultPath of paths) {
+            const fileIssues = this.issues
+                .filter(i => i.vaultPath === vaultPath)
+                .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+            const groupHeader = list.createDiv({ cls: "p4-pick-group" });
+            setIcon(groupHeader.createSpan({ cls: "p4-history-icon" }), "file-text");
+            groupHeader.createSpan({ text: vaultPath });
+
+            for (const issue of fileIssues) {
+                const row = list.createDiv({ cls: `p4-pick-file p4-submit-issue is-${issue.severity}` });
+                setIcon(row.createSpan({ cls: "p4-submit-issue-icon" }), issue.severity === "error" ? "x-circle" : "alert-triangle");
+                row.createSpan({ text: issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message, cls: "p4-pick-path" });
+                row.createSpan({ text: this.checkNames.get(issue.check) ?? issue.check, cls: "p4-muted" });
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button
+                    .setButtonText(errors > 0 ? "Submit anyway" : "Submit")
+                    .onClick(() => {
+                        this.result = true;
+                        this.close();
+                    });
+                if (errors > 0) {
+                    button.setWarning();
+                } else {
+                    button.setCta();
+                }
+            })
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return whether to submit
+     */
+    openAndGetResult(): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -1,20 +1,46 @@
-import { App, Modal, moment } from "obsidian";
+import { App, Modal } from "obsidian";
 import { mount, unmount } from "svelte";
 import type ObsidianP4 from "../../main";
+import type { P4Changelist, P4FileStatus, P4SubmitOptions } from "../../types";
+import { getDescriptionTemplates } from "../../descriptionTemplates";
 import SubmitModalContent from "../svelte/modals/SubmitModalContent.svelte";
 
 /**
- * Modal for entering a submit description
+ * Description and options chosen in the submit modal
+ */
+export interface SubmitResult {
+    description: string;
+    options: P4SubmitOptions;
+}
+
+/**
+ * Modal for submitting a changelist: description, files, jobs and submit options
  */
 export class SubmitModal extends Modal {
     private plugin: ObsidianP4;
-    private result: string | null = null;
-    private resolvePromise: ((value: string | null) => void) | null = null;
+    private changelist: number | "default";
+    private files: P4FileStatus[];
+    private changelists: P4Changelist[];
+    private description: string;
+    private jobs: string[];
+    private result: SubmitResult | null = null;
+    private resolvePromise: ((value: SubmitResult | null) => void) | null = null;
     private svelteComponent: ReturnType<typeof mount> | null = null;
 
-    constructor(app: App, plugin: ObsidianP4) {
+    /**
+     * @param files Files opened in the changelist
+     * @param changelists Pending changelists, unchecked files can be moved to them
+     * @param description Initial description
+     * @param jobs Jobs the changelist already fixes
+     */
+    constructor(app: App, plugin: ObsidianP4, changelist: number | "default", files: P4FileStatus[], changelists: P4Changelist[], description: string = "", jobs: string[] = []) {
         super(app);
         this.plugin = plugin;
+        this.changelist = changelist;
+        this.files = files;
+        this.changelists = changelists.filter(c => c.change !== changelist || c.change === "default");
+        this.description = description;
+        this.jobs = jobs;
     }
 
     onOpen(): void {
@@ -22,16 +48,26 @@ export class SubmitModal extends Modal {
         contentEl.empty();
         contentEl.addClass("p4-submit-modal");
 
-        // Get default message from template
-        let defaultMessage = this.plugin.settings.submitMessageTemplate;
-        defaultMessage = defaultMessage.replace("{{date}}", moment().format("YYYY-MM-DD HH:mm:ss"));
-
         this.svelteComponent = mount(SubmitModalContent, {
             target: contentEl,
             props: {
-                defaultMessage,
-                onSubmit: (description: string) => {
-                    this.result = description;
+                changelist: this.changelist,
+                defaultMessage: this.description,
+                files: this.files,
+                changelists: this.changelists,
+                templates: getDescriptionTemplates(this.plugin.settings),
+                fillTemplate: (template: string, files: P4FileStatus[], jobs: string[]) =>
+                    this.plugin.fillDescriptionTemplate(template, files, Array.from(new Set([...this.jobs, ...jobs]))),
+                loadJobs: () => this.plugin.p4Manager.getOpenJobs(),
+                loadDiff: (vaultPath: string) => this.plugin.p4Manager.diff(vaultPath),
+                onSubmit: async (description: string, options: P4SubmitOptions) => {
+                    // The dialog stays open when the checks block the submit or the report is cancelled
+                    const chosen = options.files;
+                    const files = chosen ? this.files.filter(f => chosen.includes(f.vaultPath)) : this.files;
+                    if (this.plugin.settings.checkBeforeSubmit && !await this.plugin.checkSubmit(files)) {
+                        return;
+                    }
+                    this.result = { description, options };
                     this.close();
                 },
                 onCancel: () => {
@@ -59,7 +95,7 @@ export class SubmitModal extends Modal {
     /**
      * Open the modal and return the result
      */
-    openAndGetResult(): Promise<string | null> {
+    openAndGetResult(): Promise<SubmitResult | null> {
         return new Promise((resolve) => {
             this.resolvePromise = resolve;
             this.open();
@@ -0,0 +1,158 @@
+import { App, ButtonComponent, Modal, Setting, setIcon } from "obsidian";
+import type { P4IncomingFile, P4SyncedFile, P4SyncPreview } from "../../types";
+
+/**
+ * Choice made in the sync preview: sync everything, only some files, or nothing (null)
+ */
+export type SyncPreviewResult = { mode: "all" } | { mode: "selected"; files: P4IncomingFile[] } | null;
+
+/** File groups in display order */
+const ACTION_GROUPS: { action: P4SyncedFile["action"]; title: string; icon: string }[] = [
+    { action: "added", title: "To add", icon: "file-plus" },
+    { action: "updated", title: "To update", icon: "file-edit" },
+    { action: "deleted", title: "To delete", icon: "file-minus" },
+    { action: "upToDate", title: "Other", icon: "file" },
+];
+
+/**
+ * Summary of what a vault sync would bring in, shown before syncing
+ * Lists the incoming changelists and files, and flags opened files that will need resolving.
+ */
+export class SyncPreviewModal extends Modal {
+    private preview: P4SyncPreview;
+    private selected: Set<P4IncomingFile>;
+    private result: SyncPreviewResult = null;
+    private resolvePromise: ((value: SyncPreviewResult) => void) | null = null;
+
+    constructor(app: App, preview: P4SyncPreview) {
+        super(app);
+        this.preview = preview;
+        this.selected = new Set(preview.files);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const { files, changes } = this.preview;
+        contentEl.empty();
+        contentEl.addClass("p4-sync-preview-modal");
+        contentEl.createEl("h2", { text: "Incoming changes" });
+
+        const counts = ACTION_GROUPS
+            .map(group => ({ group, count: files.filter(f => f.action === group.action).length }))
+            .filter(({ count }) => count > 0)
+            .map(({ group, count }) => `${count} ${group.title.toLowerCase()}`);
+        contentEl.createEl("p", {
+            text: `${files.length} file(s) from ${changes.length} change(s): ${counts.join(", ")}`,
+            cls: "p4-muted",
+        });
+
+        const conflicts = files.filter(f => f.opened);
+        if (conflicts.length > 0) {
+            contentEl.createEl("p", {
+                text: `${conflicts.length} incoming file(s) are opened in this workspace and will need to be resolved after syncing.`,
+                cls: "p4-sync-preview-warning",
+            });
+        }
+
+        if (changes.length > 0) {
+            contentEl.createEl("h3", { text: "Changes" });
+            const changeList = contentEl.createDiv({ cls: "p4-pick-list" });
+            for (const change of changes) {
+                const item = changeList.createDiv({ cls: "p4-sync-preview-change" });
+                const header = item.createDiv({ cls: "p4-sync-preview-change-header" });
+                header.createSpan({ text: `#${change.change}`, cls: "p4-history-change" });
+                header.createSpan({ text: change.user, cls: "p4-history-user" });
+                header.createSpan({ text: this.formatDate(change.date), cls: "p4-history-date" });
+                item.createDiv({
+                    text: change.description.split("\n")[0] || "(no description)",
+                    cls: "p4-sync-preview-description",
+                });
+            }
+        }
+
+        contentEl.createEl("h3", { text: "Files" });
+        const fileList = contentEl.createDiv({ cls: "p4-pick-list" });
+
+        let syncSelectedButton: ButtonComponent;
+        const updateSelection = (): void => {
+            syncSelectedButton.setButtonText(`Sync selected (${this.selected.size})`);
+            syncSelectedButton.setDisabled(this.selected.size === 0);
+        };
+
+        for (const group of ACTION_GROUPS) {
+            const groupFiles = files.filter(f => f.action === group.action);
+            if (groupFiles.length === 0) continue;
+
+            const groupHeader = fileList.createDiv({ cls: "p4-pick-group" });
+            setIcon(groupHeader.createSpan({ cls: "p4-history-icon" }), group.icon);
+            groupHeader.createSpan({ text: `${group.title} (${groupFiles.length})` });
+
+            for (const file of groupFiles) {
+                const row = fileList.createEl("label", { cls: "p4-pick-file" });
+                const checkbox = row.createEl("input", { type: "checkbox" });
+                checkbox.checked = true;
+                checkbox.addEventListener("change", () => {
+                    if (checkbox.checked) {
+                        this.selected.add(file);
+                    } else {
+                        this.selected.delete(file);
+                    }
+                    updateSelection();
+                });
+                row.createSpan({ text: file.vaultPath, cls: "p4-pick-path" });
+                row.createSpan({ text: `#${file.rev}`, cls: "p4-muted" });
+                if (file.opened) {
+                    row.createSpan({ text: "Needs resolve", cls: "p4-sync-preview-badge" });
+                }
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Sync all")
+                .setCta()
+                .onClick(() => {
+                    this.result = { mode: "all" };
+                    this.close();
+                }))
+            .addButton(button => {
+                syncSelectedButton = button;
+                button.onClick(() => {
+                    // Keep the preview order
+                    this.result = { mode: "selected", files: files.filter(f => this.selected.has(f)) };
+                    this.close();
+                });
+            })
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+        updateSelection();
+    }
+
+    /**
+     * Format a p4 timestamp (seconds) for display
+     */
+    private formatDate(date: string): string {
+        const timestamp = parseInt(date, 10);
+        return isNaN(timestamp) ? date : new Date(timestamp * 1000).toLocaleString();
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the user's choice (null if cancelled)
+     */
+    openAndGetResult(): Promise<SyncPreviewResult> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -0,0 +1,136 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import { HEAD_REVISION, describeRevision, parseRevisionSpec, toRevisionSpec } from "../../revisionSpec";
+import type { P4RevisionKind } from "../../types";
+
+/** Revision kinds offered in the dropdown */
+const REVISION_KINDS: { kind: P4RevisionKind; name: string; placeholder: string }[] = [
+    { kind: "change", name: "Changelist", placeholder: "1234" },
+    { kind: "label", name: "Label", placeholder: "release-1.0" },
+    { kind: "date", name: "Date", placeholder: "2024/01/15 or 2024/01/15 14:30" },
+    { kind: "rev", name: "File revision", placeholder: "3" },
+];
+
+/**
+ * Modal for choosing the revision to sync the vault, a folder or a note to
+ * Resolves with a revision specifier ("#head" to return to head) or null if cancelled.
+ */
+export class SyncToRevisionModal extends Modal {
+    private targetName: string;
+    private current: string | undefined;
+    private result: string | null = null;
+    private resolvePromise: ((value: string | null) => void) | null = null;
+
+    /**
+     * @param targetName What is synced, shown in the title
+     * @param current Revision the target is pinned to, if any
+     */
+    constructor(app: App, targetName: string, current?: string) {
+        super(app);
+        this.targetName = targetName;
+        this.current = current;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("p4-sync-revision-modal");
+        contentEl.createEl("h2", { text: `Sync ${this.targetName} to a revision` });
+
+        if (this.current) {
+            contentEl.createEl("p", {
+                text: `Currently pinned to ${describeRevision(this.current)}.`,
+                cls: "p4-muted",
+            });
+        }
+
+        const initial = this.current ? parseRevisionSpec(this.current) : null;
+        let kind: P4RevisionKind = initial?.kind ?? "change";
+        let value = initial?.value ?? "";
+
+        let input: HTMLInputElement;
+        let errorEl: HTMLElement;
+        let syncButton: ButtonComponent;
+        const update = (): void => {
+            const spec = toRevisionSpec(kind, value);
+            syncButton.setDisabled(!spec);
+            errorEl.toggle(!spec && value.trim() !== "");
+            errorEl.setText(`Not a valid ${REVISION_KINDS.find(k => k.kind === kind)!.name.toLowerCase()}`);
+        };
+
+        new Setting(contentEl)
+            .setName("Sync to")
+            .addDropdown(dropdown => {
+                for (const option of REVISION_KINDS) {
+                    dropdown.addOption(option.kind, option.name);
+                }
+                dropdown.setValue(kind).onChange(selected => {
+                    kind = selected as P4RevisionKind;
+                    input.setAttr("placeholder", REVISION_KINDS.find(k => k.kind === kind)!.placeholder);
+                    update();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName("Revision")
+            .addText(text => {
+                input = text.inputEl;
+                text.setPlaceholder(REVISION_KINDS.find(k => k.kind === kind)!.placeholder)
+                    .setValue(value)
+                    .onChange(newValue => {
+                        value = newValue;
+                        update();
+                    });
+                text.inputEl.addEventListener("keydown", (e) => {
+                    if (e.key === "Enter" && toRevisionSpec(kind, value)) {
+                        e.preventDefault();
+                        this.finish(toRevisionSpec(kind, value));
+                    }
+                });
+            });
+        errorEl = contentEl.createEl("p", { cls: "p4-error" });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                syncButton = button;
+                button
+                    .setButtonText("Sync")
+                    .setCta()
+                    .onClick(() => this.finish(toRevisionSpec(kind, value)));
+            })
+            .addButton(button => button
+                .setButtonText("Sync to head")
+                .onClick(() => this.finish(HEAD_REVISION)))
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+        update();
+    }
+
+    /**
+     * Close the modal with the chosen revision
+     */
+    private finish(revision: string | null): void {
+        if (!revision) return;
+        this.result = revision;
+        this.close();
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the chosen revision (or null if cancelled)
+     */
+    openAndGetResult(): Promise<string | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Modal asking whether to trust an SSL server's fingerprint
+ */
+export class TrustModal extends Modal {
+    private server: string;
+    private fingerprint: string;
+    private keyChanged: boolean;
+    private result = false;
+    private resolvePromise: ((value: boolean) => void) | null = null;
+
+    constructor(app: App, server: string, fingerprint: string, keyChanged: boolean) {
+        super(app);
+        this.server = server;
+        this.fingerprint = fingerprint;
+        this.keyChanged = keyChanged;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.keyChanged ? "Server key has changed" : "Trust this server?" });
+
+        if (this.keyChanged) {
+            contentEl.createEl("p", {
+                text: `The key sent by ${this.server} does not match the fingerprint trusted before. ` +
+                    "This can mean the server was reinstalled, or that someone is intercepting the connection. " +
+                    "Check the fingerprint with your administrator before replacing it.",
+                cls: "p4-warning",
+            });
+        } else {
+            contentEl.createEl("p", {
+                text: `The authenticity of ${this.server} can't be established. ` +
+                    "Compare the fingerprint with the one published by your administrator.",
+            });
+        }
+
+        contentEl.createEl("code", { text: this.fingerprint, cls: "p4-trust-fingerprint" });
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn
+                    .setButtonText(this.keyChanged ? "Replace fingerprint" : "Trust")
+                    .setWarning()
+                    .onClick(() => {
+                        this.result = true;
+                        this.close();
+                    })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Cancel")
+                    .onClick(() => {
+                        this.result = false;
+                        this.close();
+                    })
+            );
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return true if the user trusts the fingerprint
+     */
+    openAndGetResult(): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
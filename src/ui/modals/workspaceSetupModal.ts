@@ -0,0 +1,329 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import * as os from "os";
+import type ObsidianP4 from "../../main";
+import { getActiveConnection } from "../../connectionProfiles";
+import { formatSyncProgress } from "../../syncProgress";
+import type { P4ClientSource, P4ClientSummary } from "../../types";
+
+/**
+ * Guided setup for vaults that aren't in a workspace yet
+ * Lets the user pick one of their clients or create one rooted at the vault,
+ * then runs the initial sync. Resolves with the client name (null if cancelled).
+ */
+export class WorkspaceSetupModal extends Modal {
+    private plugin: ObsidianP4;
+    private result: string | null = null;
+    private resolvePromise: ((value: string | null) => void) | null = null;
+    /** Cancels the initial sync while it is running */
+    private syncController: AbortController | null = null;
+
+    constructor(app: App, plugin: ObsidianP4) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen(): void {
+        this.contentEl.addClass("p4-workspace-setup-modal");
+        void this.showClientList();
+    }
+
+    /**
+     * Step 1: list the user's clients, or offer to create one
+     */
+    private async showClientList(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Set up a workspace" });
+        contentEl.createEl("p", {
+            text: "This vault is not inside a workspace. Use one of your workspaces or create a new one rooted at the vault folder.",
+            cls: "p4-muted",
+        });
+
+        const loading = contentEl.createEl("p", { text: "Loading workspaces...", cls: "p4-muted" });
+        let clients: P4ClientSummary[];
+        try {
+            clients = await this.plugin.p4Manager.getClients();
+        } catch (error) {
+            loading.setText(`Error loading workspaces: ${(error as Error).message}`);
+            loading.className = "p4-error";
+            this.addCancelButton();
+            return;
+        }
+        loading.remove();
+
+        // Workspaces containing the vault first
+        const usable = clients.filter(c => this.plugin.p4Manager.isVaultUnderRoot(c.root));
+        const others = clients.filter(c => !usable.includes(c));
+
+        const list = contentEl.createDiv({ cls: "p4-workspace-list" });
+        for (const client of [...usable, ...others]) {
+            const inVault = usable.includes(client);
+            new Setting(list)
+                .setName(client.client)
+                .setDesc([client.stream || client.root, client.host].filter(Boolean).join(" · "))
+                .addButton(button => {
+                    button
+                        .setButtonText("Use")
+                        .onClick(() => this.showSync(client.client));
+                    if (inVault) {
+                        button.setCta();
+                    } else {
+                        button.setDisabled(true);
+                        button.setTooltip("The vault is not under this workspace's root");
+                    }
+                });
+        }
+        if (clients.length === 0) {
+            list.createEl("p", { text: "You don't own any workspaces on this server yet.", cls: "p4-muted" });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Create new workspace")
+                .setCta()
+                .onClick(() => void this.showCreateForm()))
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    /**
+     * Step 2: name the new client and choose what it maps
+     */
+    private async showCreateForm(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Create a workspace" });
+
+        const errorEl = contentEl.createEl("p", { cls: "p4-error" });
+        errorEl.hide();
+
+        // Either list may be unavailable (e.g. servers without streams), the form still works
+        const [streams, depots] = await Promise.all([
+            this.plugin.p4Manager.getStreams().catch((): string[] => []),
+            this.plugin.p4Manager.getDepots().catch((): string[] => []),
+        ]);
+
+        let name = this.defaultClientName();
+        let useStream = streams.length > 0;
+        let stream = streams[0] ?? "";
+        let depotPath = depots[0] ? `${depots[0]}/` : "//depot/";
+
+        new Setting(contentEl)
+            .setName("Workspace name")
+            .addText(text => text
+                .setValue(name)
+                .onChange(value => name = value.trim()));
+
+        new Setting(contentEl)
+            .setName("Root")
+            .setDesc(this.plugin.p4Manager.getVaultPath());
+
+        const streamSetting = new Setting(contentEl)
+            .setName("Stream")
+            .setDesc("The workspace view is generated from the stream")
+            .addDropdown(dropdown => {
+                for (const s of streams) {
+                    dropdown.addOption(s, s);
+                }
+                dropdown.setValue(stream).onChange(value => stream = value);
+            });
+
+        const depotSetting = new Setting(contentEl)
+            .setName("Depot path")
+            .setDesc(depots.length > 0 ? `Folder mapped to the vault, depots: ${depots.join(", ")}` : "Folder mapped to the vault")
+            .addText(text => text
+                .setPlaceholder("//depot/notes/")
+                .setValue(depotPath)
+                .onChange(value => depotPath = value.trim()));
+
+        const updateSource = (): void => {
+            streamSetting.settingEl.toggle(useStream);
+            depotSetting.settingEl.toggle(!useStream);
+        };
+
+        if (streams.length > 0) {
+            new Setting(contentEl)
+                .setName("Map a stream")
+                .setDesc("Turn off to map a depot path instead")
+                .addToggle(toggle => toggle
+                    .setValue(useStream)
+                    .onChange(value => {
+                        useStream = value;
+                        updateSource();
+                    }));
+            // Keep the toggle above the fields it switches
+            contentEl.append(streamSetting.settingEl, depotSetting.settingEl);
+        }
+        updateSource();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Create")
+                .setCta()
+                .onClick(async () => {
+                    const error = this.validate(name, useStream ? stream : depotPath, useStream);
+                    if (error) {
+                        errorEl.setText(error);
+                        errorEl.show();
+                        return;
+                    }
+                    const source: P4ClientSource = useStream ? { stream } : { depotPath };
+                    button.setDisabled(true);
+                    button.setButtonText("Creating...");
+                    try {
+                        await this.plugin.p4Manager.createClient(name, source);
+                        this.showSync(name);
+                    } catch (createError) {
+                        errorEl.setText((createError as Error).message);
+                        errorEl.show();
+                        button.setDisabled(false);
+                        button.setButtonText("Create");
+                    }
+                }))
+            .addButton(button => button
+                .setButtonText("Back")
+                .onClick(() => void this.showClientList()));
+    }
+
+    /**
+     * Return an error message if the new client can't be created
+     */
+    private validate(name: string, source: string, useStream: boolean): string | null {
+        if (!name) {
+            return "Enter a workspace name";
+        }
+        if (/[\s@#%*/]|\.\.\./.test(name) || /^-|^\d+$/.test(name)) {
+            return "Workspace names can't contain spaces, @, #, %, *, / or ..., start with - or be all digits";
+        }
+        if (!source) {
+            return useStream ? "Choose a stream" : "Enter a depot path";
+        }
+        if (!useStream && !source.startsWith("//")) {
+            return "Depot paths start with //";
+        }
+        return null;
+    }
+
+    /**
+     * Step 3: optionally sync the files, then finish
+     * The sync can be cancelled and restarted, p4 skips files that are already synced.
+     */
+    private showSync(client: string): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: `Workspace ${client}` });
+        contentEl.createEl("p", {
+            text: "Sync now to get the files mapped to the vault. You can also sync later from the command palette.",
+            cls: "p4-muted",
+        });
+
+        const status = contentEl.createDiv({ cls: "p4-workspace-setup-status" });
+        const progressEl = contentEl.createEl("progress", { cls: "p4-workspace-setup-progress" });
+        progressEl.hide();
+
+        let skipButton: ButtonComponent;
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Sync and finish")
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    skipButton.setButtonText("Cancel sync");
+                    status.removeClass("p4-error");
+                    status.setText("Syncing files...");
+                    progressEl.removeAttribute("value");
+                    progressEl.show();
+
+                    this.syncController = new AbortController();
+                    try {
+                        const result = await this.plugin.p4Manager.syncClient(client, {
+                            signal: this.syncController.signal,
+                            onProgress: (progress) => {
+                                status.setText(`Syncing ${formatSyncProgress(progress)}`);
+                                if (progress.totalFiles > 0) {
+                                    progressEl.max = progress.totalFiles;
+                                    progressEl.value = progress.files;
+                                }
+                            },
+                        });
+                        if (result.complete) {
+                            this.finish(client);
+                            return;
+                        }
+                        status.setText(`Sync cancelled after ${result.files.length} file(s), sync again or finish and sync later`);
+                    } catch (error) {
+                        status.setText(`Sync failed: ${(error as Error).message}`);
+                        status.addClass("p4-error");
+                    } finally {
+                        this.syncController = null;
+                        progressEl.hide();
+                    }
+                    button.setDisabled(false);
+                    skipButton.setButtonText("Finish without syncing");
+                }))
+            .addButton(button => {
+                skipButton = button;
+                button
+                    .setButtonText("Finish without syncing")
+                    .onClick(() => {
+                        if (this.syncController) {
+                            this.syncController.abort();
+                        } else {
+                            this.finish(client);
+                        }
+                    });
+            });
+    }
+
+    /**
+     * Close the wizard with the chosen client
+     */
+    private finish(client: string): void {
+        this.result = client;
+        this.close();
+    }
+
+    /**
+     * Add a single cancel button (used when the wizard can't continue)
+     */
+    private addCancelButton(): void {
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()));
+    }
+
+    /**
+     * Suggest a client name from the user, host and vault names
+     */
+    private defaultClientName(): string {
+        const vaultName = this.app.vault.getName();
+        return [getActiveConnection(this.plugin.settings).p4User || os.userInfo().username, os.hostname().split(".")[0], vaultName]
+            .filter(Boolean)
+            .join("-")
+            .replace(/[\s@#%*/]+/g, "-")
+            .replace(/\.\.\.+/g, "-");
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing the wizard stops the initial sync, what was synced so far stays
+        this.syncController?.abort();
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+        }
+    }
+
+    /**
+     * Open the modal and return the chosen client name (or null if cancelled)
+     */
+    openAndGetResult(): Promise<string | null> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+}
@@ -0,0 +1,320 @@
+import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
+import { mount, unmount } from "svelte";
+import type ObsidianP4 from "../main";
+import { SHELF_VIEW_CONFIG } from "../constants";
+import type { P4HistoryEntry, P4ShelfFilter, P4ShelvedFile } from "../types";
+import { DeleteShelfModal, UnshelvePreviewModal } from "./modals/shelfModal";
+import InlineDiff from "./svelte/InlineDiff.svelte";
+
+/**
+ * View for browsing our own and other users' shelved changelists
+ */
+export class P4ShelfView extends ItemView {
+    private plugin: ObsidianP4;
+    private filter: P4ShelfFilter = {};
+    private shelves: P4HistoryEntry[] = [];
+    /** Client of this workspace, only its shelves can be deleted */
+    private clientName: string = "";
+    private contentContainer: HTMLElement;
+    /** Inline diffs currently shown */
+    private diffComponents: ReturnType<typeof mount>[] = [];
+
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianP4) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return SHELF_VIEW_CONFIG.type;
+    }
+
+    getDisplayText(): string {
+        return SHELF_VIEW_CONFIG.name;
+    }
+
+    getIcon(): string {
+        return SHELF_VIEW_CONFIG.icon;
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass("p4-shelf-view");
+
+        // Header
+        const header = container.createDiv({ cls: "p4-view-header" });
+
+        const title = header.createDiv({ cls: "p4-view-title" });
+        title.createSpan({ text: "Shelves" });
+
+        const actions = header.createDiv({ cls: "p4-view-actions" });
+
+        // Refresh button
+        const refreshBtn = actions.createEl("button", {
+            cls: "p4-action-button",
+            attr: { "aria-label": "Refresh" }
+        });
+        setIcon(refreshBtn, "refresh-cw");
+        refreshBtn.addEventListener("click", () => { void this.refresh(); });
+
+        // Filters, applied when a field is left or Enter is pressed
+        const filters = container.createDiv({ cls: "p4-shelf-filters" });
+        this.createFilterInput(filters, "User", "user");
+        this.createFilterInput(filters, "Client", "client");
+        this.createFilterInput(filters, "Folder or note", "path");
+
+        // Content container
+        this.contentContainer = container.createDiv({ cls: "p4-view-content" });
+
+        // Initial load
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        this.destroyDiffs();
+    }
+
+    /**
+     * Create a text input bound to a filter field
+     */
+    private createFilterInput(container: HTMLElement, placeholder: string, key: keyof P4ShelfFilter): void {
+        const input = container.createEl("input", { type: "text", cls: "p4-shelf-filter", attr: { placeholder } });
+        input.addEventListener("change", () => {
+            this.filter[key] = input.value.trim() || undefined;
+            void this.refresh();
+        });
+    }
+
+    private destroyDiffs(): void {
+        for (const component of this.diffComponents) {
+            void unmount(component);
+        }
+        this.diffComponents = [];
+    }
+
+    /**
+     * Reload the shelves matching the filters
+     */
+    async refresh(): Promise<void> {
+        if (!this.plugin.p4Ready) {
+            this.renderNotConnected();
+            return;
+        }
+
+        try {
+            const [shelves, info] = await Promise.all([
+                this.plugin.p4Manager.getShelves(this.filter),
+                this.plugin.p4Manager.getInfo(),
+            ]);
+            this.shelves = shelves;
+            this.clientName = info.clientName;
+            this.renderContent();
+        } catch (error) {
+            this.renderError((error as Error).message);
+        }
+    }
+
+    /**
+     * Render the list of shelves
+     */
+    private renderContent(): void {
+        this.destroyDiffs();
+        this.contentContainer.empty();
+
+        if (this.shelves.length === 0) {
+            const empty = this.contentContainer.createDiv({ cls: "p4-empty-state" });
+            empty.createEl("p", { text: "No shelved changelists found" });
+            return;
+        }
+
+        const list = this.contentContainer.createDiv({ cls: "p4-history-list" });
+
+        for (const shelf of this.shelves) {
+            this.renderShelf(list, shelf);
+        }
+    }
+
+    /**
+     * Render a shelf, its files are loaded when it is expanded
+     */
+    private renderShelf(container: HTMLElement, shelf: P4HistoryEntry): void {
+        const item = container.createDiv({ cls: "p4-history-item p4-shelf-item" });
+
+        // Header row
+        const header = item.createDiv({ cls: "p4-history-header" });
+        header.createSpan({ cls: "p4-history-change", text: `#${shelf.change}` });
+
+        const user = header.createSpan({ cls: "p4-history-user" });
+        setIcon(user.createSpan({ cls: "p4-history-icon" }), "user");
+        user.createSpan({ text: `${shelf.user}@${shelf.client}` });
+
+        const date = header.createSpan({ cls: "p4-history-date" });
+        setIcon(date.createSpan({ cls: "p4-history-icon" }), "calendar");
+        date.createSpan({ text: this.formatDate(shelf.date) });
+
+        // Description
+        const desc = item.createDiv({ cls: "p4-history-description" });
+        desc.createEl("p", { text: shelf.description || "(no description)" });
+
+        let filesContainer: HTMLElement | null = null;
+        item.addEventListener("click", (event) => {
+            // Clicks inside the expanded files don't collapse the shelf
+            if (filesContainer && filesContainer.contains(event.target as Node)) return;
+            if (filesContainer) {
+                filesContainer.remove();
+                filesContainer = null;
+                return;
+            }
+            filesContainer = item.createDiv({ cls: "p4-history-files" });
+            void this.renderShelfFiles(filesContainer, shelf);
+        });
+    }
+
+    /**
+     * Render the files of an expanded shelf and its actions
+     */
+    private async renderShelfFiles(container: HTMLElement, shelf: P4HistoryEntry): Promise<void> {
+        container.createEl("p", { text: "Loading files...", cls: "p4-muted" });
+        let files: P4ShelvedFile[];
+        try {
+            files = await this.plugin.p4Manager.getShelvedFiles(shelf.change);
+        } catch (error) {
+            container.empty();
+            container.createEl("p", { text: `Error loading files: ${(error as Error).message}`, cls: "p4-error" });
+            return;
+        }
+        container.empty();
+
+        const actions = container.createDiv({ cls: "p4-shelf-actions" });
+        const unshelveBtn = actions.createEl("button", { cls: "mod-cta", text: "Unshelve" });
+        unshelveBtn.addEventListener("click", () => void this.unshelve(shelf, files));
+        if (shelf.client === this.clientName) {
+            const deleteBtn = actions.createEl("button", { cls: "mod-warning", text: "Delete shelf" });
+            deleteBtn.addEventListener("click", () => void this.deleteShelf(shelf));
+        }
+
+        if (files.length === 0) {
+            container.createEl("p", { text: "No files", cls: "p4-muted" });
+            return;
+        }
+
+        for (const file of files) {
+            const fileItem = container.createDiv({ cls: "p4-history-file p4-shelf-file" });
+            setIcon(fileItem.createSpan({ cls: "p4-history-file-icon" }), this.getActionIcon(file.action));
+            fileItem.createSpan({ text: file.vaultPath ?? file.depotFile, attr: { title: file.depotFile } });
+
+            let diffContainer: HTMLElement | null = null;
+            let diffComponent: ReturnType<typeof mount> | null = null;
+            fileItem.addEventListener("click", () => {
+                if (diffContainer) {
+                    if (diffComponent) {
+                        void unmount(diffComponent);
+                        this.diffComponents = this.diffComponents.filter(c => c !== diffComponent);
+                        diffComponent = null;
+                    }
+                    diffContainer.remove();
+                    diffContainer = null;
+                    return;
+                }
+                const target = container.createDiv({ cls: "p4-shelf-diff" });
+                fileItem.after(target);
+                diffContainer = target;
+                target.createEl("p", { text: "Loading diff...", cls: "p4-muted" });
+                void this.plugin.p4Manager.getShelvedFileDiff(shelf.change, file)
+                    .then((diff) => {
+                        // Collapsed again while loading
+                        if (diffContainer !== target) return;
+                        target.empty();
+                        if (diff.depotContent === diff.localContent) {
+                            target.createEl("p", { text: "No content changes", cls: "p4-muted" });
+                            return;
+                        }
+                        diffComponent = mount(InlineDiff, {
+                            target,
+                            props: { original: diff.depotContent, modified: diff.localContent },
+                        });
+                        this.diffComponents.push(diffComponent);
+                    })
+                    .catch((error: Error) => {
+                        target.empty();
+                        target.createEl("p", { text: `Couldn't load the diff: ${error.message}`, cls: "p4-muted" });
+                    });
+            });
+        }
+    }
+
+    /**
+     * Preview the conflicts of a shelf and unshelve it into the changelist the user picks
+     */
+    private async unshelve(shelf: P4HistoryEntry, files: P4ShelvedFile[]): Promise<void> {
+        try {
+            const conflicts = this.plugin.p4Manager.getUnshelveConflicts(files);
+            const changelists = await this.plugin.p4Manager.getPendingChangelists();
+            const target = await new UnshelvePreviewModal(this.app, shelf, files, conflicts, changelists).openAndGetResult();
+            if (target === null) return;
+
+            await this.plugin.p4Manager.unshelve(shelf.change, target);
+            this.plugin.displayMessage(`Unshelved changelist ${shelf.change}`);
+            this.app.workspace.trigger("obsidian-p4:refresh-now");
+        } catch (error) {
+            this.plugin.displayError(error);
+        }
+    }
+
+    /**
+     * Delete a shelf of this client after confirming
+     */
+    private async deleteShelf(shelf: P4HistoryEntry): Promise<void> {
+        if (!await new DeleteShelfModal(this.app, shelf).openAndGetResult()) return;
+        try {
+            await this.plugin.p4Manager.deleteShelve(shelf.change);
+            this.plugin.displayMessage(`Deleted shelved files from changelist ${shelf.change}`);
+            await this.refresh();
+        } catch (error) {
+            this.plugin.displayError(error);
+        }
+    }
+
+    /**
+     * Format date for display
+     */
+    private formatDate(dateStr: string): string {
+        const timestamp = parseInt(dateStr, 10);
+        return isNaN(timestamp) ? dateStr : new Date(timestamp * 1000).toLocaleString();
+    }
+
+    /**
+     * Get icon for file action
+     */
+    private getActionIcon(action: string): string {
+        switch (action) {
+            case "add": return "file-plus";
+            case "edit": return "edit";
+            case "delete": return "file-minus";
+            case "move/add": return "file-input";
+            case "move/delete": return "file-output";
+            default: return "file";
+        }
+    }
+
+    /**
+     * Render not connected state
+     */
+    private renderNotConnected(): void {
+        this.destroyDiffs();
+        this.contentContainer.empty();
+        const state = this.contentContainer.createDiv({ cls: "p4-empty-state" });
+        state.createEl("p", { text: "Perforce is not connected" });
+    }
+
+    /**
+     * Render error state
+     */
+    private renderError(message: string): void {
+        this.destroyDiffs();
+        this.contentContainer.empty();
+        const state = this.contentContainer.createDiv({ cls: "p4-error-state" });
+        state.createEl("p", { text: "Error loading shelves" });
+        state.createEl("p", { text: message, cls: "p4-muted" });
+    }
+}
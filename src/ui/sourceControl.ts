@@ -2,9 +2,8 @@ import { ItemView, WorkspaceLeaf } from "obsidian";
 import { mount, unmount } from "svelte";
 import type ObsidianP4 from "../main";
 import { SOURCE_CONTROL_VIEW_CONFIG } from "../constants";
-import type { P4Changelist, P4ConflictFile, P4FileStatus } from "../types";
+import type { P4Changelist, P4ConflictFile, P4FileStatus, P4OtherOpen } from "../types";
 import SourceControlViewComponent from "./svelte/SourceControlView.svelte";
-import { SubmitModal } from "./modals/submitModal";
 
 /**
  * Source control sidebar view showing pending changes
@@ -15,6 +14,7 @@ export class P4SourceControlView extends ItemView {
     private changelists: P4Changelist[] = [];
     private openedFiles: P4FileStatus[] = [];
     private conflicts: P4ConflictFile[] = [];
+    private otherOpens: P4OtherOpen[] = [];
     private error: string | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: ObsidianP4) {
@@ -45,6 +45,7 @@ export class P4SourceControlView extends ItemView {
         this.registerEvent(
             this.app.workspace.on("obsidian-p4:status-changed", (files: P4FileStatus[]) => {
                 this.openedFiles = files;
+                this.otherOpens = this.plugin.p4Manager.fileStates.getOtherOpens();
                 // Also refresh changelists to keep everything in sync
                 void this.plugin.p4Manager.getPendingChangelists()
                     .then((changelists) => {
@@ -60,6 +61,20 @@ export class P4SourceControlView extends ItemView {
             })
         );
 
+        // Show the incoming changes badge as soon as a background check finds them
+        this.registerEvent(
+            this.app.workspace.on("obsidian-p4:incoming-changed", () => {
+                this.updateSvelte(container);
+            })
+        );
+
+        // Show the offline state and the number of recorded operations
+        this.registerEvent(
+            this.app.workspace.on("obsidian-p4:offline-changed", () => {
+                this.updateSvelte(container);
+            })
+        );
+
         // Initial load
         await this.refresh();
     }
@@ -83,11 +98,21 @@ export class P4SourceControlView extends ItemView {
                 openedFiles: this.openedFiles,
                 changelists: this.changelists,
                 conflicts: this.conflicts,
+                failedSubmit: this.plugin.p4Manager.failedSubmit,
+                otherOpens: this.otherOpens,
                 isConnected: this.plugin.p4Ready,
                 error: this.error,
+                pinnedRevisions: this.plugin.settings.pinnedRevisions,
+                incoming: this.plugin.getIncoming(),
+                offline: this.plugin.offline,
+                journalCount: this.plugin.settings.offlineJournal.length,
                 onRefresh: () => this.refresh(),
                 onSync: () => this.sync(),
+                onSyncToHead: () => this.syncToHead(),
+                onChangeRevision: () => this.plugin.openSyncToRevision(null),
                 onSubmit: () => this.submit(),
+                onReconnect: () => this.plugin.tryReconnect(true),
+                onReviewJournal: () => this.plugin.reviewOfflineJournal(),
             },
         });
     }
@@ -99,7 +124,7 @@ export class P4SourceControlView extends ItemView {
     }
 
     /**
-     * Refresh the view
+     * Refresh the view, reading the file states from the server again
      */
     async refresh(): Promise<void> {
         const container = this.containerEl.children[1] as HTMLElement;
@@ -109,12 +134,15 @@ export class P4SourceControlView extends ItemView {
             this.openedFiles = [];
             this.changelists = [];
             this.conflicts = [];
+            this.otherOpens = [];
             this.updateSvelte(container);
             return;
         }
 
         try {
-            this.openedFiles = await this.plugin.p4Manager.getOpenedFiles();
+            await this.plugin.p4Manager.loadFileStates();
+            this.openedFiles = this.plugin.p4Manager.fileStates.getOpenedFiles();
+            this.otherOpens = this.plugin.p4Manager.fileStates.getOtherOpens();
             this.changelists = await this.plugin.p4Manager.getPendingChangelists();
             this.conflicts = await this.plugin.p4Manager.getConflicts();
             this.error = null;
@@ -131,17 +159,19 @@ export class P4SourceControlView extends ItemView {
     private async sync(): Promise<void> {
         if (!this.plugin.p4Ready) return;
 
-        try {
-            this.plugin.displayMessage("Syncing...");
-            const result = await this.plugin.p4Manager.sync();
-            if (result.files.length > 0) {
-                this.plugin.displayMessage(`Synced ${result.files.length} file(s)`);
-            } else {
-                this.plugin.displayMessage("Already up to date");
-            }
+        if (await this.plugin.syncWithPreview()) {
+            await this.refresh();
+        }
+    }
+
+    /**
+     * Return the pinned vault to head
+     */
+    private async syncToHead(): Promise<void> {
+        if (!this.plugin.p4Ready) return;
+
+        if (await this.plugin.syncVault()) {
             await this.refresh();
-        } catch (err) {
-            this.plugin.displayError(err);
         }
     }
 
@@ -151,19 +181,9 @@ export class P4SourceControlView extends ItemView {
     private async submit(): Promise<void> {
         if (!this.plugin.p4Ready) return;
 
-        const modal = new SubmitModal(this.app, this.plugin);
-        const description = await modal.openAndGetResult();
-
-        if (description) {
-            try {
-                this.plugin.displayMessage("Submitting...");
-                const changeNum = await this.plugin.p4Manager.submit("default", description);
-                this.plugin.displayMessage(`Submitted changelist ${changeNum}`);
-                await this.refresh();
-                this.plugin.app.workspace.trigger("obsidian-p4:refresh-now");
-            } catch (err) {
-                this.plugin.displayError(err);
-            }
+        const changeNum = await this.plugin.openSubmit("default");
+        if (changeNum !== null) {
+            await this.refresh();
         }
     }
 }
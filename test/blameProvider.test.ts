@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeWorkspace } from "./helpers/fakeWorkspace";
+
+test("blame lines carry changelist descriptions", async () => {
+    const ws = await createFakeWorkspace({
+        files: {
+            "//depot/vault/note.md": [
+                { change: 4, action: "add", content: "intro\nbody\n" },
+                { change: 9, action: "edit", content: "intro\nnew body\n" },
+            ],
+        },
+        have: { "//depot/vault/note.md": 2 },
+        changes: [
+            { change: 4, status: "submitted", user: "bob", client: "bob-ws", desc: "Start the note\n", time: 1735689600 },
+            { change: 9, status: "submitted", user: "carol", client: "carol-ws", desc: "Rewrite the body\n", time: 1735776000 },
+        ],
+    });
+    try {
+        const blame = await ws.blameProvider.getBlame("note.md");
+        assert.ok(blame);
+        assert.deepEqual(
+            blame.lines.map(l => [l.lineNumber, l.user, l.description]),
+            [[1, "bob", "Start the note"], [2, "carol", "Rewrite the body"]],
+        );
+
+        const line = await ws.blameProvider.getBlameForLine("note.md", 2);
+        assert.equal(line?.changelist, 9);
+        assert.ok(ws.blameProvider.isCached("note.md"));
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("files outside the depot have no blame", async () => {
+    const ws = await createFakeWorkspace({ local: { "draft.md": "not added\n" } });
+    try {
+        assert.equal(await ws.blameProvider.getBlame("draft.md"), null);
+        assert.equal(await ws.blameProvider.getBlame("image.png"), null);
+    } finally {
+        ws.cleanup();
+    }
+});
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeWorkspace } from "./helpers/fakeWorkspace";
+import { formatViewLine, getViewCoverage, parseViewLine, validateView } from "../src/clientSpec";
+import type { P4ViewMapping } from "../src/types";
+
+const mapping = (line: string): P4ViewMapping => parseViewLine(line) as P4ViewMapping;
+
+test("view lines round-trip, including quoted paths and prefixes", () => {
+    assert.deepEqual(parseViewLine(`-"//depot/my notes/..." "//ws/my notes/..."`), {
+        prefix: "-",
+        depotPath: "//depot/my notes/...",
+        clientPath: "//ws/my notes/...",
+    });
+    assert.equal(formatViewLine(mapping(`-"//depot/my notes/..." "//ws/my notes/..."`)), `"-//depot/my notes/..." "//ws/my notes/..."`);
+    assert.equal(formatViewLine(mapping("+//depot/a/... //ws/a/...")), "+//depot/a/... //ws/a/...");
+});
+
+test("view validation reports each invalid line", () => {
+    assert.deepEqual(validateView([
+        "//depot/vault/... //ws/vault/...",
+        "",
+        "//depot/only-one-side/...",
+        "depot/... //ws/...",
+        "//depot/a/... //other/a/...",
+        "//depot/a/*.md //ws/a/...",
+    ], "ws"), [
+        "Line 3: A mapping needs a depot path and a client path",
+        "Line 4: Depot path must start with //: depot/...",
+        "Line 5: Client path must start with //ws/: //other/a/...",
+        "Line 6: Both sides must use the same wildcards",
+    ]);
+});
+
+test("view coverage of the vault folder", () => {
+    const view = (...lines: string[]): P4ViewMapping[] => lines.map(mapping);
+
+    assert.equal(getViewCoverage(view("//depot/... //ws/..."), "//ws/vault"), "full");
+    assert.equal(getViewCoverage(view("//depot/vault/... //ws/vault/..."), "//ws/vault"), "full");
+    assert.equal(getViewCoverage(view("//depot/other/... //ws/other/..."), "//ws/vault"), "none");
+    assert.equal(getViewCoverage(view("//depot/vault/notes/... //ws/vault/notes/..."), "//ws/vault"), "partial");
+    assert.equal(getViewCoverage(view("//depot/... //ws/...", "-//depot/vault/private/... //ws/vault/private/..."), "//ws/vault"), "partial");
+    assert.equal(getViewCoverage(view("//depot/... //ws/...", "-//depot/vault/... //ws/vault/..."), "//ws/vault"), "none");
+    assert.equal(getViewCoverage(view("//depot/... //ws/...", "-//depot/vault/... //ws/vault/...", "//depot/vault/... //ws/vault/..."), "//ws/vault"), "full");
+});
+
+test("the client spec is read and its view saved through p4 client", async () => {
+    const ws = await createFakeWorkspace();
+    try {
+        const spec = await ws.manager.getClientSpec();
+        assert.equal(spec.client, "alice-vault");
+        assert.equal(spec.root, ws.vaultPath);
+        assert.equal(spec.lineEnd, "local");
+        assert.deepEqual(spec.options, ["noallwrite", "noclobber", "nocompress", "unlocked", "nomodtime", "normdir"]);
+        assert.deepEqual(spec.view.map(formatViewLine), ["//depot/vault/... //alice-vault/..."]);
+        assert.equal(ws.manager.getVaultCoverage(spec), "full");
+
+        const view = [...spec.view, mapping(`-"//depot/vault/drafts/..." "//alice-vault/drafts/..."`)];
+        await ws.manager.saveClientSpec({ ...spec, view });
+
+        const saved = await ws.manager.getClientSpec();
+        assert.deepEqual(ws.readState().spec?.view, [
+            "//depot/vault/... //alice-vault/...",
+            "-//depot/vault/drafts/... //alice-vault/drafts/...",
+        ]);
+        assert.equal(saved.description, spec.description);
+        assert.equal(ws.manager.getVaultCoverage(saved), "partial");
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("workspace setup lists the user's clients and creates new ones rooted at the vault", async () => {
+    const ws = await createFakeWorkspace({
+        streams: ["//notes/main"],
+        clients: {
+            "bob-ws": { owner: "bob", root: "/home/bob/ws", description: "Bob's", options: "", submitOptions: "", lineEnd: "local", view: [] },
+        },
+    });
+    try {
+        const clients = await ws.manager.getClients();
+        assert.deepEqual(clients.map(c => [c.client, c.root]), [["alice-vault", ws.vaultPath]]);
+        assert.equal(ws.manager.isVaultUnderRoot(clients[0]!.root), true);
+        assert.equal(ws.manager.isVaultUnderRoot("/home/bob/ws"), false);
+        assert.deepEqual(await ws.manager.getStreams(), ["//notes/main"]);
+        assert.deepEqual(await ws.manager.getDepots(), ["//depot"]);
+
+        await ws.manager.createClient("alice-notes", { depotPath: "//depot/notes/" });
+        await ws.manager.createClient("alice-stream", { stream: "//notes/main" });
+        const created = ws.readState().clients ?? {};
+        assert.deepEqual(created["alice-notes"]?.view, ["//depot/notes/... //alice-notes/..."]);
+        assert.equal(created["alice-notes"]?.root, ws.vaultPath);
+        assert.equal(created["alice-stream"]?.stream, "//notes/main");
+        assert.equal(created["alice-stream"]?.root, ws.vaultPath);
+
+        await assert.rejects(ws.manager.createClient("bob-ws", { depotPath: "//depot/" }), /already exists/);
+        assert.equal(ws.readState().clients?.["bob-ws"]?.root, "/home/bob/ws");
+    } finally {
+        ws.cleanup();
+    }
+});
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { P4SubmitFailedError } from "../src/p4Errors";
+import { createFakeWorkspace, type FakeWorkspace } from "./helpers/fakeWorkspace";
+
+const BASE = "# Plan\n\n- one\n- two\n";
+const THEIRS = "# Plan\n\n- one\n- two\n- three\n";
+const YOURS = "# Plan (draft)\n\n- one\n- two\n";
+
+/**
+ * Workspace where we edit a note that a teammate changes and submits in the meantime
+ */
+async function createConflict(yours: string): Promise<FakeWorkspace> {
+    const ws = await createFakeWorkspace({
+        files: { "//depot/vault/plan.md": [{ change: 1, action: "add", content: BASE }] },
+        have: { "//depot/vault/plan.md": 1 },
+        changes: [{ change: 1, status: "submitted", user: "alice", client: "alice-vault", desc: "Plan\n", time: 1735689600 }],
+    });
+
+    await ws.manager.edit("plan.md");
+    ws.writeLocal("plan.md", yours);
+    ws.updateState(state => {
+        state.files[ws.depotPath("plan.md")]!.push({ change: 2, action: "edit", content: THEIRS });
+        state.changes.push({ change: 2, status: "submitted", user: "bob", client: "bob-ws", desc: "Add three\n", time: 1735776000 });
+    });
+    await ws.manager.sync();
+    return ws;
+}
+
+test("syncing an opened file schedules a resolve and blocks submit", async () => {
+    const ws = await createConflict(YOURS);
+    try {
+        assert.equal(ws.readLocal("plan.md"), YOURS);
+
+        const conflicts = await ws.manager.getConflicts();
+        assert.deepEqual(
+            conflicts.map(c => [c.vaultPath, c.baseRev, c.theirRev, c.conflictType]),
+            [["plan.md", 1, 2, "content"]],
+        );
+
+        await assert.rejects(ws.manager.submit("default", "My edit"), { kind: "needs-resolve" });
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("merge versions and accept-merged resolve", async () => {
+    const ws = await createConflict(YOURS);
+    try {
+        const versions = await ws.manager.getConflictVersions("plan.md");
+        assert.deepEqual(versions, { base: BASE, theirs: THEIRS, yours: YOURS });
+
+        const merged = "# Plan (draft)\n\n- one\n- two\n- three\n";
+        await ws.manager.resolve("plan.md", "accept-merged", merged);
+        assert.equal(ws.plugin.isResolvingMerge, false);
+        assert.equal(ws.readLocal("plan.md"), merged);
+        assert.deepEqual(await ws.manager.getConflicts(), []);
+
+        const submitted = await ws.manager.submit("default", "Merge plan");
+        assert.equal(ws.readState().files[ws.depotPath("plan.md")]?.[2]?.change, submitted);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("resolveAllSafe takes theirs when we made no local change", async () => {
+    const ws = await createConflict(BASE);
+    try {
+        const result = await ws.manager.resolveAllSafe();
+        assert.deepEqual(result, { resolved: ["plan.md"], failed: [] });
+        assert.equal(ws.readLocal("plan.md"), THEIRS);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("a submit of out of date files moves them to a changelist, syncs them and can be retried", async () => {
+    const ws = await createFakeWorkspace({
+        files: { "//depot/vault/plan.md": [{ change: 1, action: "add", content: BASE }] },
+        have: { "//depot/vault/plan.md": 1 },
+        changes: [{ change: 1, status: "submitted", user: "alice", client: "alice-vault", desc: "Plan\n", time: 1735689600 }],
+    });
+    try {
+        await ws.manager.edit("plan.md");
+        ws.writeLocal("plan.md", YOURS);
+        ws.updateState(state => {
+            state.files[ws.depotPath("plan.md")]!.push({ change: 2, action: "edit", content: THEIRS });
+            state.changes.push({ change: 2, status: "submitted", user: "bob", client: "bob-ws", desc: "Add three\n", time: 1735776000 });
+        });
+
+        const error = await ws.manager.submit("default", "My edit").then(() => null, (e: unknown) => e);
+        assert.ok(error instanceof P4SubmitFailedError);
+        assert.equal(error.kind, "needs-resolve");
+        assert.deepEqual(ws.manager.failedSubmit, { changelist: 3, files: ["plan.md"], options: { reopen: undefined, revertUnchanged: undefined } });
+        assert.equal(ws.readState().opened[ws.depotPath("plan.md")]?.change, 3);
+        assert.deepEqual((await ws.manager.getConflicts()).map(c => [c.vaultPath, c.theirRev]), [["plan.md", 2]]);
+
+        await ws.manager.resolve("plan.md", "accept-merged", "# Plan (draft)\n\n- one\n- two\n- three\n");
+        const submitted = await ws.manager.retrySubmit();
+        assert.equal(submitted, 3);
+        assert.equal(ws.manager.failedSubmit, null);
+        assert.equal(ws.readState().files[ws.depotPath("plan.md")]?.[2]?.change, 3);
+    } finally {
+        ws.cleanup();
+    }
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import * as path from "path";
+import { createFakeWorkspace } from "./helpers/fakeWorkspace";
+import { P4UntrustedServerError } from "../src/p4Errors";
+
+const FINGERPRINT = "AB:CD:EF:01:23:45:67:89:AB:CD:EF:01:23:45:67:89:AB:CD:EF:01";
+const NEW_FINGERPRINT = "12:34:56:78:9A:BC:DE:F0:12:34:56:78:9A:BC:DE:F0:12:34:56:78";
+
+test("an unknown SSL server is reported with its fingerprint and can be trusted", async () => {
+    const ws = await createFakeWorkspace({ serverAddress: "ssl:fake:1666", fingerprint: FINGERPRINT });
+    try {
+        assert.equal(await ws.manager.checkRequirements(), "untrusted-server");
+        const error = ws.manager.getRequirementsError();
+        assert.ok(error instanceof P4UntrustedServerError);
+        assert.equal(error.fingerprint, FINGERPRINT);
+        assert.equal(error.keyChanged, false);
+
+        await ws.manager.trust(error.fingerprint);
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+        assert.equal(ws.manager.getRequirementsError(), null);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("a changed server key must be replaced explicitly", async () => {
+    const ws = await createFakeWorkspace({ fingerprint: NEW_FINGERPRINT, trusted: FINGERPRINT });
+    try {
+        assert.equal(await ws.manager.checkRequirements(), "untrusted-server");
+        const error = ws.manager.getRequirementsError();
+        assert.ok(error instanceof P4UntrustedServerError);
+        assert.equal(error.fingerprint, NEW_FINGERPRINT);
+        assert.equal(error.keyChanged, true);
+
+        await assert.rejects(ws.manager.trust(NEW_FINGERPRINT));
+        await ws.manager.trust(NEW_FINGERPRINT, true);
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("unicode servers require a character set", async () => {
+    const ws = await createFakeWorkspace({ unicode: true });
+    try {
+        assert.equal(await ws.manager.checkRequirements(), "charset-mismatch");
+
+        ws.plugin.settings.p4Charset = "utf8";
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+        assert.equal((await ws.manager.getInfo()).serverUnicode, true);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("a config file above the vault is discovered and reported as the source", async () => {
+    const ws = await createFakeWorkspace({ unicode: true });
+    try {
+        const configFile = path.join(path.dirname(ws.vaultPath), ".p4config");
+        writeFileSync(configFile, "P4CHARSET=utf8\n");
+        ws.plugin.settings.p4User = "alice";
+
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+
+        const variables = new Map((await ws.manager.getConnectionVariables()).map(v => [v.name, v]));
+        assert.deepEqual(variables.get("P4CHARSET"), { name: "P4CHARSET", value: "utf8", source: `Config file (${configFile})` });
+        assert.deepEqual(variables.get("P4CONFIG"), { name: "P4CONFIG", value: configFile, source: "Found above the vault" });
+        assert.deepEqual(variables.get("P4USER"), { name: "P4USER", value: "alice", source: "Plugin settings" });
+        assert.equal(variables.get("P4TRUST")?.source, "Not set");
+    } finally {
+        ws.cleanup();
+    }
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getDescriptionTemplates, getTemplateForFiles, renderDescriptionTemplate, type P4TemplateContext } from "../src/descriptionTemplates";
+import { DEFAULT_SETTINGS } from "../src/constants";
+
+const context: P4TemplateContext = {
+    files: [
+        { vaultPath: "meetings/Standup.md", action: "edit", frontmatter: { project: "atlas", tags: ["sync", "team"] } },
+        { vaultPath: "meetings/Retro.md", action: "add", frontmatter: { project: "atlas", tags: ["team"] } },
+        { vaultPath: "meetings/board.png", action: "add", frontmatter: null },
+        { vaultPath: "meetings/Old.md", action: "delete", frontmatter: null },
+    ],
+    user: "alice",
+    client: "alice-vault",
+    jobs: ["job000001", "job000002"],
+    date: "2025-01-02 03:04:05",
+};
+
+test("placeholders are filled in from the files, user, client, jobs and date", () => {
+    assert.equal(
+        renderDescriptionTemplate("{{ titles }} ({{frontmatter.project}}: {{frontmatter.tags}})\n\n{{files}}\n\nFixes {{jobs}} by {{user}}@{{client}} on {{date}}", context),
+        "Standup, Retro (atlas: sync, team)\n\n"
+            + "meetings/Standup.md (edit)\nmeetings/Retro.md (add)\nmeetings/board.png (add)\nmeetings/Old.md (delete)\n\n"
+            + "Fixes job000001, job000002 by alice@alice-vault on 2025-01-02 03:04:05",
+    );
+    assert.equal(renderDescriptionTemplate("{{frontmatter.missing}}|{{unknown}}", context), "|{{unknown}}");
+});
+
+test("the template of the deepest folder holding all files is the default", () => {
+    const templates = getDescriptionTemplates({
+        ...DEFAULT_SETTINGS,
+        descriptionTemplates: [
+            { name: "Meetings", template: "Meetings", folder: "meetings" },
+            { name: "Standups", template: "Standups", folder: "meetings/standups/" },
+            { name: "Picked", template: "Picked", folder: "" },
+        ],
+    });
+    assert.deepEqual(templates.map(t => t.name), ["Default", "Meetings", "Standups", "Picked"]);
+
+    assert.equal(getTemplateForFiles(templates, ["meetings/standups/a.md"])?.name, "Standups");
+    assert.equal(getTemplateForFiles(templates, ["meetings/standups/a.md", "meetings/b.md"])?.name, "Meetings");
+    assert.equal(getTemplateForFiles(templates, ["meetings/b.md", "notes/c.md"])?.name, "Default");
+    assert.equal(getTemplateForFiles(templates, ["meetingsold/b.md"])?.name, "Default");
+});
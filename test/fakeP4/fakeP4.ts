@@ -0,0 +1,1626 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync, writeSync } from "fs";
+import * as path from "path";
+import type { FakeChange, FakeClientSpec, FakeOpened, FakeOtherOpened, FakeP4State, FakeRevision } from "./fixture";
+
+/**
+ * Stand-in for the p4 executable used by the tests.
+ * Understands the subset of commands and flags P4Manager issues, in both plain
+ * and `-Mj -ztag` output modes, against the state file in $FAKE_P4_STATE.
+ * Every invocation is appended to $FAKE_P4_STATE.log as a JSON array.
+ */
+
+/** Generic error codes (EV_* in the p4 API) */
+const GENERIC_PROTECT = 6;
+const GENERIC_EMPTY = 17;
+const GENERIC_UNKNOWN = 2;
+
+type TaggedRecord = Record<string, string | number>;
+
+/**
+ * Collects everything a command prints
+ */
+class Output {
+    stdout = "";
+    stderr = "";
+    exitCode = 0;
+
+    constructor(readonly tagged: boolean) {}
+
+    /** Tagged record, printed as JSON with -Mj or as "... key value" lines */
+    record(record: TaggedRecord): void {
+        if (this.tagged) {
+            this.stdout += JSON.stringify(record) + "\n";
+        } else {
+            this.stdout += Object.entries(record).map(([key, value]) => `... ${key} ${value}\n`).join("") + "\n";
+        }
+    }
+
+    /** Informational message */
+    info(text: string): void {
+        if (this.tagged) {
+            this.stdout += JSON.stringify({ code: "info", data: text, level: 0 }) + "\n";
+        } else {
+            this.stdout += text + "\n";
+        }
+    }
+
+    /** Write what was printed so far, for commands that stream their output */
+    flush(): void {
+        writeSync(1, this.stdout);
+        writeSync(2, this.stderr);
+        this.stdout = "";
+        this.stderr = "";
+    }
+
+    /** File content, printed verbatim */
+    raw(text: string): void {
+        this.stdout += text;
+    }
+
+    /** Warning (severity 2), does not fail the command */
+    warn(text: string, generic: number = GENERIC_EMPTY): void {
+        this.message(text, 2, generic);
+    }
+
+    /** Error (severity 3), fails the command */
+    error(text: string, generic: number = GENERIC_UNKNOWN): void {
+        this.message(text, 3, generic);
+        this.exitCode = 1;
+    }
+
+    private message(text: string, severity: number, generic: number): void {
+        if (this.tagged) {
+            this.stdout += JSON.stringify({ code: "error", data: text + "\n", severity, generic }) + "\n";
+        } else {
+            this.stderr += text + "\n";
+        }
+    }
+}
+
+/**
+ * Parsed command arguments
+ */
+interface ParsedArgs {
+    flags: Map<string, string>;
+    files: string[];
+}
+
+/**
+ * Split command arguments into flags and file arguments
+ * @param valueFlags - flags that take the next argument as their value
+ */
+function parseArgs(args: string[], valueFlags: string[] = []): ParsedArgs {
+    const flags = new Map<string, string>();
+    const files: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg.startsWith("-") && arg.length > 1) {
+            if (valueFlags.includes(arg)) {
+                flags.set(arg, args[++i] ?? "");
+            } else {
+                flags.set(arg, "");
+            }
+        } else {
+            files.push(arg);
+        }
+    }
+    return { flags, files };
+}
+
+/**
+ * A file argument resolved against the fake client
+ */
+interface FileSpec {
+    /** Depot path, or a prefix when wildcard is set */
+    depotPath: string;
+    wildcard: boolean;
+    /** Revision specifier including its # or @ */
+    revision?: string;
+}
+
+class FakeP4 {
+    constructor(
+        private state: FakeP4State,
+        private out: Output,
+        private cwd: string,
+        private input: string,
+    ) {}
+
+    /**
+     * Run a single command
+     */
+    run(command: string, args: string[]): void {
+        // Client-side commands never reach the server
+        if (command === "set") {
+            this.set();
+            return;
+        }
+        if (command === "trust") {
+            this.trust(args);
+            return;
+        }
+        if (!this.connect()) {
+            return;
+        }
+        if (!["help", "info", "login"].includes(command) && !this.state.loggedIn) {
+            this.out.error("Perforce password (P4PASSWD) invalid or unset.", GENERIC_PROTECT);
+            return;
+        }
+
+        switch (command) {
+            case "help": this.out.info("Perforce -- the Fast Software Configuration Management System."); break;
+            case "info": this.info(); break;
+            case "login": this.login(args); break;
+            case "opened": this.opened(args); break;
+            case "changes": this.changes(args); break;
+            case "describe": this.describe(args); break;
+            case "have": this.have(args); break;
+            case "where": this.where(args); break;
+            case "files": this.filesCommand(args); break;
+            case "fstat": this.fstat(args); break;
+            case "print": this.print(args); break;
+            case "sync": this.sync(args); break;
+            case "edit": this.open(args, "edit"); break;
+            case "add": this.open(args, "add"); break;
+            case "delete": this.open(args, "delete"); break;
+            case "lock": this.lock(args); break;
+            case "revert": this.revert(args); break;
+            case "reopen": this.reopen(args); break;
+            case "change": this.change(args); break;
+            case "client": this.client(args); break;
+            case "clients": this.clients(args); break;
+            case "streams": this.streams(); break;
+            case "depots": this.depots(); break;
+            case "submit": this.submit(args); break;
+            case "jobs": this.jobs(args); break;
+            case "fix": this.fix(args); break;
+            case "shelve": this.shelve(args); break;
+            case "unshelve": this.unshelve(args); break;
+            case "resolve": this.resolve(args); break;
+            case "annotate": this.annotate(args); break;
+            case "diff": this.diff(args); break;
+            case "reconcile": this.reconcile(args); break;
+            default:
+                this.out.error(`Unknown command.  Try 'p4 help' for info.`);
+        }
+    }
+
+    // ----- connection -----
+
+    /**
+     * Connection variables as p4 resolves them: config file first, then the environment
+     */
+    private variables(): Map<string, { value: string; source: string }> {
+        const variables = new Map<string, { value: string; source: string }>();
+        for (const [name, value] of Object.entries(process.env)) {
+            if (name.startsWith("P4") && value && name !== "P4CONFIG") {
+                variables.set(name, { value, source: "enviro" });
+            }
+        }
+        const configName = process.env.P4CONFIG;
+        if (configName) {
+            variables.set("P4CONFIG", { value: configName, source: "enviro" });
+            const configFile = findUp(this.cwd, configName);
+            if (configFile) {
+                for (const line of readFileSync(configFile, "utf8").split(/\r?\n/)) {
+                    const match = line.match(/^(P4\w+)=(.*)$/);
+                    if (match) {
+                        variables.set(match[1]!, { value: match[2]!, source: `config '${configFile}'` });
+                    }
+                }
+            }
+        }
+        return variables;
+    }
+
+    /**
+     * Check the SSL trust and charset handshake, reporting the error if it fails
+     */
+    private connect(): boolean {
+        const fingerprint = this.state.fingerprint;
+        if (fingerprint && this.state.trusted !== fingerprint) {
+            if (this.state.trusted) {
+                this.out.error(
+                    "******* WARNING P4PORT IDENTIFICATION HAS CHANGED! *******\n" +
+                    "It is possible that someone is intercepting your connection\n" +
+                    "The fingerprint for the mismatched key sent to your client is\n" +
+                    `${fingerprint}\n` +
+                    "To allow connection use the 'p4 trust' command.",
+                );
+            } else {
+                this.out.error(
+                    `The authenticity of '${this.state.serverAddress}' can't be established,\n` +
+                    "this may be your first attempt to connect to this P4PORT.\n" +
+                    "The fingerprint for the key sent to your client is\n" +
+                    `${fingerprint}\n` +
+                    "To allow connection use the 'p4 trust' command.",
+                );
+            }
+            return false;
+        }
+
+        const charset = this.variables().get("P4CHARSET")?.value ?? "none";
+        if (this.state.unicode && charset === "none") {
+            this.out.error("Unicode server permits only unicode enabled clients.");
+            return false;
+        }
+        if (!this.state.unicode && charset !== "none") {
+            this.out.error("Unicode clients require a unicode enabled server.");
+            return false;
+        }
+        return true;
+    }
+
+    private set(): void {
+        for (const [name, { value, source }] of Array.from(this.variables()).sort()) {
+            this.out.info(`${name}=${value} (${source})`);
+        }
+    }
+
+    private trust(args: string[]): void {
+        const { flags } = parseArgs(args, ["-i"]);
+        const fingerprint = flags.get("-i");
+        if (!fingerprint || fingerprint !== this.state.fingerprint) {
+            this.out.error("Fingerprint does not match the key sent by the server.");
+            return;
+        }
+        if (this.state.trusted && this.state.trusted !== fingerprint && !flags.has("-f")) {
+            this.out.error("The fingerprint has changed, use -f to replace it.");
+            return;
+        }
+        this.state.trusted = fingerprint;
+        this.out.info("Added trust for P4PORT");
+    }
+
+    // ----- paths -----
+
+    private toDepot(localPath: string): string | null {
+        const relative = path.relative(this.state.clientRoot, localPath).replace(/\\/g, "/");
+        if (relative.startsWith("..") || path.isAbsolute(relative)) return null;
+        return relative ? `${this.state.depotRoot}/${relative}` : this.state.depotRoot;
+    }
+
+    private toLocal(depotPath: string): string {
+        return path.join(this.state.clientRoot, depotPath.slice(this.state.depotRoot.length + 1));
+    }
+
+    private toClientSyntax(depotPath: string): string {
+        return `//${this.state.client}/${depotPath.slice(this.state.depotRoot.length + 1)}`;
+    }
+
+    /**
+     * Resolve a file argument (local, depot or client syntax, with optional revision)
+     */
+    private parseSpec(arg: string): FileSpec | null {
+        const revIndex = arg.search(/[#@]/);
+        const revision = revIndex >= 0 ? arg.slice(revIndex) : undefined;
+        let filePath = revIndex >= 0 ? arg.slice(0, revIndex) : arg;
+
+        if (!filePath.startsWith("//")) {
+            filePath = path.resolve(this.cwd, filePath);
+            const depot = this.toDepot(filePath.endsWith("...") ? filePath.slice(0, -3) : filePath);
+            if (depot === null) return null;
+            filePath = filePath.endsWith("...") ? `${depot.replace(/\/$/, "")}/...` : depot;
+        } else if (filePath.startsWith(`//${this.state.client}/`)) {
+            filePath = `${this.state.depotRoot}/${filePath.slice(this.state.client.length + 3)}`;
+        }
+
+        if (filePath.endsWith("...")) {
+            return { depotPath: filePath.slice(0, -3), wildcard: true, revision };
+        }
+        return { depotPath: filePath, wildcard: false, revision };
+    }
+
+    private matches(spec: FileSpec, depotPath: string): boolean {
+        return spec.wildcard ? depotPath.startsWith(spec.depotPath) : depotPath === spec.depotPath;
+    }
+
+    /**
+     * Depot paths known to the server or the client, sorted
+     */
+    private allPaths(): string[] {
+        const paths = new Set([
+            ...Object.keys(this.state.files),
+            ...Object.keys(this.state.opened),
+            ...Object.keys(this.state.otherOpened ?? {}),
+        ]);
+        return Array.from(paths).sort();
+    }
+
+    /**
+     * Resolve file arguments to matching depot paths, reporting unmatched arguments
+     */
+    private select(files: string[], filter: (depotPath: string) => boolean, emptyMessage: string, defaultAll = true): { depotPath: string; spec: FileSpec }[] {
+        const specs = files.length > 0 || !defaultAll ? files : ["//..."];
+        const selected: { depotPath: string; spec: FileSpec }[] = [];
+        for (const arg of specs) {
+            const spec = this.parseSpec(arg);
+            if (!spec) {
+                this.out.error(`${arg} - file(s) not in client view.`);
+                continue;
+            }
+            const matched = this.allPaths().filter(p => this.matches(spec, p) && filter(p));
+            if (matched.length === 0) {
+                this.out.warn(files.length > 0 ? `${arg} - ${emptyMessage}` : capitalize(emptyMessage));
+            }
+            for (const depotPath of matched) {
+                selected.push({ depotPath, spec });
+            }
+        }
+        return selected;
+    }
+
+    // ----- revisions -----
+
+    private headRev(depotPath: string): number {
+        return this.state.files[depotPath]?.length ?? 0;
+    }
+
+    private revision(depotPath: string, rev: number): FakeRevision | undefined {
+        return this.state.files[depotPath]?.[rev - 1];
+    }
+
+    /**
+     * Resolve a revision specifier to a revision number (0 = none)
+     */
+    private resolveRev(depotPath: string, revision?: string): number {
+        const revisions = this.state.files[depotPath] ?? [];
+        if (!revision || revision === "#head") return revisions.length;
+        if (revision === "#have") return this.state.have[depotPath] ?? 0;
+        if (revision === "#none") return 0;
+        if (revision.startsWith("#")) return Math.min(parseInt(revision.slice(1), 10) || 0, revisions.length);
+        if (revision.startsWith("@")) {
+            const change = this.resolveChange(revision.slice(1));
+            let rev = 0;
+            revisions.forEach((r, i) => {
+                if (r.change <= change) rev = i + 1;
+            });
+            return rev;
+        }
+        return revisions.length;
+    }
+
+    /**
+     * Resolve the part after @ to a change number: a change, or the last change at a date
+     */
+    private resolveChange(value: string): number {
+        const date = /^(\d{4})\/(\d{2})\/(\d{2})(?::(\d{2}):(\d{2}):(\d{2}))?$/.exec(value);
+        if (!date) return parseInt(value, 10);
+        const part = (index: number): number => parseInt(date[index] ?? "0", 10);
+        // A date without a time means the start of that day
+        const time = new Date(part(1), part(2) - 1, part(3), part(4), part(5), part(6)).getTime() / 1000;
+        return this.state.changes
+            .filter(c => c.status === "submitted" && c.time <= time)
+            .reduce((latest, c) => Math.max(latest, c.change), 0);
+    }
+
+    private exists(depotPath: string, rev: number): boolean {
+        const revision = this.revision(depotPath, rev);
+        return !!revision && revision.action !== "delete";
+    }
+
+    private fileType(depotPath: string): string {
+        const head = this.revision(depotPath, this.headRev(depotPath));
+        return head?.type ?? "text";
+    }
+
+    private findChange(change: number): FakeChange | undefined {
+        return this.state.changes.find(c => c.change === change);
+    }
+
+    private nextChange(): number {
+        return this.state.changes.reduce((max, c) => Math.max(max, c.change), 0) + 1;
+    }
+
+    private now(): number {
+        return Math.floor(Date.now() / 1000);
+    }
+
+    // ----- local files -----
+
+    private readLocal(depotPath: string): string | null {
+        const localPath = this.toLocal(depotPath);
+        return existsSync(localPath) ? readFileSync(localPath, "utf8") : null;
+    }
+
+    private writeLocal(depotPath: string, content: string): void {
+        const localPath = this.toLocal(depotPath);
+        mkdirSync(path.dirname(localPath), { recursive: true });
+        writeFileSync(localPath, content);
+    }
+
+    private removeLocal(depotPath: string): void {
+        rmSync(this.toLocal(depotPath), { force: true });
+    }
+
+    /**
+     * Local files below a directory that aren't known to the depot
+     */
+    private localFiles(dir: string): string[] {
+        if (!existsSync(dir)) return [];
+        const result: string[] = [];
+        for (const entry of readdirSync(dir)) {
+            const full = path.join(dir, entry);
+            if (statSync(full).isDirectory()) {
+                result.push(...this.localFiles(full));
+            } else {
+                result.push(full);
+            }
+        }
+        return result;
+    }
+
+    // ----- commands -----
+
+    private info(): void {
+        this.out.record({
+            userName: this.state.user,
+            clientName: this.state.client,
+            clientRoot: this.state.clientRoot,
+            clientHost: "localhost",
+            serverAddress: this.state.serverAddress,
+            serverVersion: "P4D/LINUX26X86_64/2024.1/0000000 (fake)",
+            ...(this.state.unicode ? { unicode: "enabled" } : {}),
+        });
+    }
+
+    private login(args: string[]): void {
+        const { flags } = parseArgs(args);
+        if (flags.has("-s")) {
+            if (this.state.loggedIn) {
+                this.out.info(`User ${this.state.user} ticket expires in 12 hours 0 minutes.`);
+            } else {
+                this.out.error("Perforce password (P4PASSWD) invalid or unset.", GENERIC_PROTECT);
+            }
+            return;
+        }
+
+        const password = this.input.replace(/\r?\n$/, "");
+        if (this.state.password !== undefined && password !== this.state.password) {
+            this.out.error("Password invalid.", GENERIC_PROTECT);
+            return;
+        }
+        this.state.loggedIn = true;
+        this.out.info(`User ${this.state.user} logged in.`);
+    }
+
+    private clientSpec(): FakeClientSpec {
+        return this.state.spec ?? {
+            description: `Created by ${this.state.user}.`,
+            options: "noallwrite noclobber nocompress unlocked nomodtime normdir",
+            submitOptions: "submitunchanged",
+            lineEnd: "local",
+            view: [`${this.state.depotRoot}/... //${this.state.client}/...`],
+        };
+    }
+
+    private client(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-S"]);
+        const name = files[0] ?? this.state.client;
+        if (flags.has("-o")) {
+            const other = this.state.clients?.[name];
+            const stream = flags.get("-S") ?? other?.stream;
+            const spec: FakeClientSpec = name === this.state.client ? this.clientSpec() : other ?? {
+                // Template for a new client
+                description: "Created by " + this.state.user + ".",
+                options: "noallwrite noclobber nocompress unlocked nomodtime normdir",
+                submitOptions: "submitunchanged",
+                lineEnd: "local",
+                view: [stream ? `${stream}/... //${name}/...` : `//depot/... //${name}/...`],
+                stream,
+            };
+            const record: TaggedRecord = {
+                Client: name,
+                Owner: other?.owner ?? this.state.user,
+                Host: "",
+                Description: spec.description + "\n",
+                Root: name === this.state.client ? this.state.clientRoot : other?.root ?? this.cwd,
+                Options: spec.options,
+                SubmitOptions: spec.submitOptions,
+                LineEnd: spec.lineEnd,
+                ...(spec.stream ? { Stream: spec.stream } : {}),
+            };
+            // Only existing clients have access times
+            if (name === this.state.client || other) {
+                record.Update = record.Access = "2025/01/01 00:00:00";
+            }
+            spec.view.forEach((line, i) => record[`View${i}`] = line);
+            this.out.record(record);
+            return;
+        }
+        if (!flags.has("-i")) {
+            this.out.error("Usage: client [ -o | -i ]");
+            return;
+        }
+
+        // Parse the spec form: "Field:\tvalue" or "Field:" followed by tab-indented lines
+        const form: Record<string, string[]> = {};
+        let current: string[] | null = null;
+        for (const line of this.input.split(/\r?\n/)) {
+            const field = line.match(/^(\w+):\s*(.*)$/);
+            if (field) {
+                current = form[field[1]!] = field[2] ? [field[2]] : [];
+            } else if (line.startsWith("\t") && current) {
+                current.push(line.slice(1));
+            }
+        }
+
+        const client = form.Client?.[0];
+        if (!client) {
+            this.out.error("Error in client specification.\nMissing required field 'Client'.");
+            return;
+        }
+        if (form.Update || form.Access) {
+            this.out.error("Update and Access fields can't be set.");
+            return;
+        }
+        const stream = form.Stream?.[0];
+        const spec: FakeClientSpec = {
+            description: (form.Description ?? []).join("\n"),
+            options: form.Options?.[0] ?? "",
+            submitOptions: form.SubmitOptions?.[0] ?? "",
+            lineEnd: form.LineEnd?.[0] ?? "",
+            // Stream clients get their view from the stream
+            view: stream ? [`${stream}/... //${client}/...`] : form.View ?? [],
+            stream,
+        };
+
+        if (client === this.state.client) {
+            const previous = this.clientSpec();
+            this.state.spec = { ...spec, view: previous.stream ? previous.view : spec.view, stream: previous.stream };
+            this.out.info(`Client ${client} saved.`);
+            return;
+        }
+        const existed = !!this.state.clients?.[client];
+        this.state.clients = {
+            ...this.state.clients,
+            [client]: { ...spec, owner: form.Owner?.[0] ?? this.state.user, root: form.Root?.[0] ?? "" },
+        };
+        this.out.info(`Client ${client} ${existed ? "saved" : "created"}.`);
+    }
+
+    private clients(args: string[]): void {
+        const { flags } = parseArgs(args, ["-u", "-e"]);
+        const all = [
+            { name: this.state.client, owner: this.state.user, root: this.state.clientRoot, ...this.clientSpec() },
+            ...Object.entries(this.state.clients ?? {}).map(([name, client]) => ({ name, ...client })),
+        ];
+        for (const client of all) {
+            if (flags.has("-u") && client.owner !== flags.get("-u")) continue;
+            if (flags.has("-e") && client.name !== flags.get("-e")) continue;
+            this.out.record({
+                client: client.name,
+                Owner: client.owner,
+                Root: client.root,
+                Host: "",
+                Description: client.description + "\n",
+                ...(client.stream ? { Stream: client.stream } : {}),
+            });
+        }
+    }
+
+    private streams(): void {
+        for (const stream of this.state.streams ?? []) {
+            this.out.record({ Stream: stream, Type: "mainline", Name: stream.split("/").pop() ?? stream });
+        }
+    }
+
+    private depots(): void {
+        const names = new Set(this.allPaths().map(p => p.split("/")[2]!));
+        names.add(this.state.depotRoot.split("/")[2]!);
+        for (const name of Array.from(names).sort()) {
+            this.out.record({ name, type: "local", map: `${name}/...` });
+        }
+    }
+
+    private openedRecord(depotPath: string, opened: FakeOpened, other?: FakeOtherOpened): TaggedRecord {
+        const rev = opened.action === "add" ? 1 : this.state.have[depotPath] ?? 0;
+        return {
+            depotFile: depotPath,
+            // Other clients' files are in their own client syntax
+            clientFile: other ? `//${other.client}${depotPath.slice(1)}` : this.toClientSyntax(depotPath),
+            rev: String(rev),
+            haveRev: opened.action === "add" ? "none" : String(rev),
+            action: opened.action,
+            change: String(opened.change),
+            type: this.fileType(depotPath) + (opened.locked ? "+l" : ""),
+            user: other?.user ?? this.state.user,
+            client: other?.client ?? this.state.client,
+            ...(opened.locked ? { ourLock: "" } : {}),
+        };
+    }
+
+    private opened(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-c", "-m"]);
+        const change = flags.get("-c");
+        const all = flags.has("-a");
+        const opens = (p: string): { opened: FakeOpened; other?: FakeOtherOpened }[] => [
+            ...(this.state.opened[p] ? [{ opened: this.state.opened[p] }] : []),
+            ...(all ? (this.state.otherOpened?.[p] ?? []).map(other => ({ opened: other, other })) : []),
+        ].filter(({ opened }) => change === undefined || String(opened.change) === change);
+        const selected = this.select(files, p => opens(p).length > 0,
+            all ? "file(s) not opened anywhere." : "file(s) not opened on this client.");
+
+        for (const { depotPath } of selected) {
+            for (const { opened, other } of opens(depotPath)) {
+                const record = this.openedRecord(depotPath, opened, other);
+                if (this.out.tagged) {
+                    this.out.record(record);
+                } else {
+                    const changeText = opened.change === "default" ? "default change" : `change ${opened.change}`;
+                    this.out.info(`${depotPath}#${record.rev} - ${opened.action} ${changeText} (${record.type}) by ${record.user}@${record.client}`);
+                }
+            }
+        }
+    }
+
+    private changeRecord(change: FakeChange, longDesc: boolean): TaggedRecord {
+        const desc = longDesc ? change.desc : change.desc.slice(0, 31);
+        return {
+            change: String(change.change),
+            time: String(change.time),
+            user: change.user,
+            client: change.client,
+            status: change.status,
+            changeType: "public",
+            desc: desc.endsWith("\n") ? desc : desc + "\n",
+            ...(change.shelved && Object.keys(change.shelved).length > 0 ? { shelved: "" } : {}),
+        };
+    }
+
+    /**
+     * Depot paths touched by a changelist
+     */
+    private changeFiles(change: FakeChange): string[] {
+        if (change.status === "submitted") {
+            return Object.entries(this.state.files)
+                .filter(([, revisions]) => revisions.some(r => r.change === change.change))
+                .map(([depotPath]) => depotPath);
+        }
+        const opened = Object.entries(this.state.opened)
+            .filter(([, o]) => o.change === change.change)
+            .map(([depotPath]) => depotPath);
+        return [...opened, ...Object.keys(change.shelved ?? {})];
+    }
+
+    /**
+     * Check if a change submitted a revision within the spec's range (#a,#b, or up to #b)
+     */
+    private inRevisionRange(spec: FileSpec, depotPath: string, change: FakeChange): boolean {
+        if (!spec.revision || change.status !== "submitted") return true;
+        const bounds = spec.revision.split(",");
+        const low = bounds.length > 1 ? this.resolveRev(depotPath, bounds[0]) : 1;
+        const high = this.resolveRev(depotPath, bounds[bounds.length - 1]);
+        const rev = (this.state.files[depotPath] ?? []).findIndex(r => r.change === change.change) + 1;
+        return rev > 0 && rev >= low && rev <= high;
+    }
+
+    private changes(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-s", "-u", "-c", "-m"]);
+        const status = flags.get("-s");
+        const user = flags.get("-u");
+        const client = flags.get("-c");
+        const max = flags.has("-m") ? parseInt(flags.get("-m")!, 10) : Infinity;
+        const specs = files.map(f => this.parseSpec(f)).filter((s): s is FileSpec => s !== null);
+
+        const result = this.state.changes
+            .filter(c => {
+                if (status === "shelved") {
+                    if (c.status !== "pending" || !c.shelved || Object.keys(c.shelved).length === 0) return false;
+                } else if (status && c.status !== status) {
+                    return false;
+                }
+                if (user && c.user !== user) return false;
+                if (client && c.client !== client) return false;
+                if (specs.length > 0) {
+                    const touched = this.changeFiles(c);
+                    return specs.some(spec => touched.some(p => this.matches(spec, p) && this.inRevisionRange(spec, p, c)));
+                }
+                return true;
+            })
+            .sort((a, b) => b.change - a.change)
+            .slice(0, max);
+
+        for (const change of result) {
+            if (this.out.tagged) {
+                this.out.record(this.changeRecord(change, flags.has("-l")));
+            } else {
+                const date = new Date(change.time * 1000).toISOString().slice(0, 10).replace(/-/g, "/");
+                this.out.info(`Change ${change.change} on ${date} by ${change.user}@${change.client} '${change.desc.split("\n")[0] ?? ""}'`);
+            }
+        }
+    }
+
+    private describe(args: string[]): void {
+        const { flags, files } = parseArgs(args);
+        for (const arg of files) {
+            const change = this.findChange(parseInt(arg, 10));
+            if (!change) {
+                this.out.error(`Change ${arg} unknown.`);
+                continue;
+            }
+            const record: TaggedRecord = this.changeRecord(change, true);
+            const shelved = flags.has("-S");
+            const depotPaths = shelved
+                ? Object.keys(change.shelved ?? {})
+                : this.changeFiles(change).filter(p => change.status === "submitted" || this.state.opened[p]);
+            depotPaths.forEach((depotPath, i) => {
+                record[`depotFile${i}`] = depotPath;
+                if (shelved) {
+                    record[`action${i}`] = change.shelved![depotPath]!.action;
+                    record[`rev${i}`] = String(this.state.have[depotPath] ?? 1);
+                } else if (change.status === "submitted") {
+                    const rev = this.state.files[depotPath]!.findIndex(r => r.change === change.change) + 1;
+                    record[`action${i}`] = this.revision(depotPath, rev)!.action;
+                    record[`rev${i}`] = String(rev);
+                } else {
+                    record[`action${i}`] = this.state.opened[depotPath]!.action;
+                    record[`rev${i}`] = String(this.state.have[depotPath] ?? 1);
+                }
+                record[`type${i}`] = this.fileType(depotPath);
+            });
+            this.out.record(record);
+        }
+    }
+
+    private where(args: string[]): void {
+        const { files } = parseArgs(args);
+        for (const arg of files) {
+            const spec = this.parseSpec(arg);
+            if (!spec || !spec.depotPath.startsWith(`${this.state.depotRoot}/`)) {
+                this.out.warn(`${arg} - file(s) not in client view.`);
+                continue;
+            }
+            this.out.record({ depotFile: spec.depotPath, clientFile: this.toClientSyntax(spec.depotPath), path: this.toLocal(spec.depotPath) });
+        }
+    }
+
+    private have(args: string[]): void {
+        const { files } = parseArgs(args);
+        const selected = this.select(files, p => (this.state.have[p] ?? 0) > 0, "file(s) not on client.");
+        for (const { depotPath } of selected) {
+            const haveRev = this.state.have[depotPath]!;
+            const localPath = this.toLocal(depotPath);
+            if (this.out.tagged) {
+                this.out.record({ depotFile: depotPath, clientFile: localPath, path: localPath, haveRev: String(haveRev) });
+            } else {
+                this.out.info(`${depotPath}#${haveRev} - ${localPath}`);
+            }
+        }
+    }
+
+    private filesCommand(args: string[]): void {
+        const { files } = parseArgs(args);
+        const selected = this.select(files, p => this.headRev(p) > 0, "no such file(s).");
+        for (const { depotPath, spec } of selected) {
+            const rev = this.resolveRev(depotPath, spec.revision);
+            const revision = this.revision(depotPath, rev);
+            if (!revision) continue;
+            this.out.info(`${depotPath}#${rev} - ${revision.action} change ${revision.change} (${revision.type ?? "text"})`);
+        }
+    }
+
+    private fstat(args: string[]): void {
+        const { files } = parseArgs(args);
+        const selected = this.select(files, p => this.headRev(p) > 0 || !!this.state.opened[p] || !!this.state.otherOpened?.[p], "no such file(s).");
+        for (const { depotPath } of selected) {
+            const headRev = this.headRev(depotPath);
+            const head = this.revision(depotPath, headRev);
+            const haveRev = this.state.have[depotPath] ?? 0;
+            const opened = this.state.opened[depotPath];
+            const others = this.state.otherOpened?.[depotPath] ?? [];
+            const otherLocks = others.filter(o => o.locked);
+            this.out.record({
+                depotFile: depotPath,
+                clientFile: this.toLocal(depotPath),
+                ...(head ? { headAction: head.action, headType: this.fileType(depotPath), headRev: String(headRev), headChange: String(head.change) } : {}),
+                ...(haveRev > 0 ? { haveRev: String(haveRev) } : {}),
+                ...(opened ? {
+                    action: opened.action,
+                    change: String(opened.change),
+                    type: this.fileType(depotPath) + (opened.locked ? "+l" : ""),
+                    ...(opened.action === "add" ? {} : { workRev: String(haveRev) }),
+                } : {}),
+                ...(opened?.locked ? { ourLock: "" } : {}),
+                ...(this.state.resolves[depotPath] ? { unresolved: "" } : {}),
+                ...(others.length > 0 ? { otherOpen: String(others.length) } : {}),
+                ...Object.fromEntries(others.flatMap((o, i) => [
+                    [`otherOpen${i}`, `${o.user}@${o.client}`],
+                    [`otherAction${i}`, o.action],
+                    [`otherChange${i}`, String(o.change)],
+                ])),
+                ...(otherLocks.length > 0 ? { otherLock: "" } : {}),
+                ...Object.fromEntries(otherLocks.map((o, i) => [`otherLock${i}`, `${o.user}@${o.client}`])),
+            });
+        }
+    }
+
+    private print(args: string[]): void {
+        const { flags, files } = parseArgs(args);
+        for (const arg of files) {
+            const spec = this.parseSpec(arg);
+            if (!spec) {
+                this.out.error(`${arg} - file(s) not in client view.`);
+                continue;
+            }
+
+            // @=N prints the shelved version
+            if (spec.revision?.startsWith("@=")) {
+                const change = this.findChange(parseInt(spec.revision.slice(2), 10));
+                const shelved = change?.shelved?.[spec.depotPath];
+                if (!shelved) {
+                    this.out.warn(`${arg} - no such file(s).`);
+                    continue;
+                }
+                this.out.raw(shelved.content);
+                continue;
+            }
+
+            const rev = this.resolveRev(spec.depotPath, spec.revision);
+            if (!this.exists(spec.depotPath, rev)) {
+                this.out.warn(`${arg} - no such file(s).`);
+                continue;
+            }
+            const revision = this.revision(spec.depotPath, rev)!;
+            if (!flags.has("-q")) {
+                this.out.info(`${spec.depotPath}#${rev} - ${revision.action} change ${revision.change} (${revision.type ?? "text"})`);
+            }
+            this.out.raw(revision.content);
+        }
+    }
+
+    private sync(args: string[]): void {
+        const { flags, files } = parseArgs(args);
+        const preview = flags.has("-n");
+        const force = flags.has("-f");
+        const selected = this.select(files, p => this.headRev(p) > 0, "no such file(s).");
+
+        const updates = selected
+            .map(({ depotPath, spec }) => {
+                const have = this.state.have[depotPath] ?? 0;
+                const target = this.resolveRev(depotPath, spec.revision);
+                return { depotPath, have, target, targetExists: this.exists(depotPath, target) };
+            })
+            .filter(({ have, target, targetExists }) => (have !== target || force) && (targetExists || have !== 0));
+        const size = (depotPath: string, rev: number): number => Buffer.byteLength(this.revision(depotPath, rev)?.content ?? "");
+        const totalFileSize = updates.reduce((sum, u) => sum + (u.targetExists ? size(u.depotPath, u.target) : 0), 0);
+
+        for (const [index, { depotPath, have, target, targetExists }] of updates.entries()) {
+            // Stream the output and slow down so tests can watch progress and cancel
+            if (this.state.syncDelay && !preview) {
+                this.out.flush();
+                sleep(this.state.syncDelay);
+            }
+
+            let action: string;
+            if (!targetExists) {
+                action = "deleted";
+            } else if (have === 0) {
+                action = "added";
+            } else {
+                action = force && have === target ? "refreshed" : "updated";
+            }
+
+            const content = targetExists ? this.revision(depotPath, target)!.content : "";
+            this.out.record({
+                depotFile: depotPath,
+                clientFile: this.toLocal(depotPath),
+                rev: String(target),
+                action,
+                fileSize: String(Buffer.byteLength(content)),
+                // Like p4, only the first record carries the totals
+                ...(index === 0 ? { totalFileSize: String(totalFileSize), totalFileCount: String(updates.length) } : {}),
+                change: String(this.revision(depotPath, target)?.change ?? 0),
+            });
+            if (preview) continue;
+
+            if (this.state.opened[depotPath]) {
+                // Opened files aren't overwritten, they get a resolve scheduled instead
+                this.state.resolves[depotPath] = { baseRev: have, theirRev: target };
+            } else if (targetExists) {
+                this.writeLocal(depotPath, content);
+            } else {
+                this.removeLocal(depotPath);
+            }
+            if (targetExists) {
+                this.state.have[depotPath] = target;
+            } else {
+                delete this.state.have[depotPath];
+            }
+        }
+
+        if (selected.length > 0 && updates.length === 0) {
+            this.out.warn(files.length > 0 ? `${files.join(" ")} - file(s) up-to-date.` : "File(s) up-to-date.");
+        }
+    }
+
+    /**
+     * Open files for edit, add or delete
+     */
+    private open(args: string[], action: FakeOpened["action"]): void {
+        const { flags, files } = parseArgs(args, ["-c", "-t"]);
+        const change = this.parseChange(flags.get("-c"));
+        if (change === null) return;
+        const locked = flags.get("-t")?.includes("+l") ?? false;
+
+        for (const arg of files) {
+            const spec = this.parseSpec(arg);
+            if (!spec) {
+                this.out.error(`${arg} - file(s) not in client view.`);
+                continue;
+            }
+
+            let targets: string[];
+            if (action === "add") {
+                const localTargets = spec.wildcard
+                    ? this.localFiles(this.toLocal(spec.depotPath.replace(/\/$/, ""))).map(f => this.toDepot(f)!)
+                    : [spec.depotPath];
+                targets = localTargets.filter(p => existsSync(this.toLocal(p)) && !this.exists(p, this.headRev(p)));
+            } else {
+                targets = this.allPaths().filter(p => this.matches(spec, p) && (this.state.have[p] ?? 0) > 0);
+            }
+
+            if (targets.length === 0) {
+                this.out.warn(`${arg} - ${action === "add" ? "no such file(s)." : "file(s) not on client."}`);
+                continue;
+            }
+
+            for (const depotPath of targets) {
+                const current = this.state.opened[depotPath];
+                if (current) {
+                    this.out.warn(`${depotPath} - currently opened for ${current.action}`);
+                    continue;
+                }
+                if (this.state.otherOpened?.[depotPath]?.some(o => o.locked)) {
+                    this.out.error(`${depotPath} - can't ${action} exclusive file already opened`);
+                    continue;
+                }
+                this.state.opened[depotPath] = { action, change, ...(locked ? { locked } : {}) };
+                if (action === "delete") {
+                    this.removeLocal(depotPath);
+                }
+                const rev = action === "add" ? 1 : this.state.have[depotPath];
+                this.out.info(`${depotPath}#${rev} - opened for ${action}`);
+            }
+        }
+    }
+
+    /**
+     * Open local work done without p4: edited, new and deleted files
+     */
+    private reconcile(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-c"]);
+        const preview = flags.has("-n");
+        const change = this.parseChange(flags.get("-c"));
+        if (change === null) return;
+        // Without -e, -a or -d all three kinds are reconciled
+        const kinds = ["-e", "-a", "-d"].filter(f => flags.has(f));
+        const wanted = (flag: string): boolean => kinds.length === 0 || kinds.includes(flag);
+
+        for (const arg of files.length > 0 ? files : ["//..."]) {
+            const spec = this.parseSpec(arg);
+            if (!spec) {
+                this.out.error(`${arg} - file(s) not in client view.`);
+                continue;
+            }
+
+            const found: { depotPath: string; action: FakeOpened["action"] }[] = [];
+            for (const depotPath of this.allPaths().filter(p => this.matches(spec, p) && !this.state.opened[p])) {
+                const have = this.state.have[depotPath] ?? 0;
+                if (have === 0) continue;
+                const local = this.readLocal(depotPath);
+                if (local === null) {
+                    if (wanted("-d")) found.push({ depotPath, action: "delete" });
+                } else if (local !== this.revision(depotPath, have)?.content && wanted("-e")) {
+                    found.push({ depotPath, action: "edit" });
+                }
+            }
+            if (wanted("-a")) {
+                const candidates = spec.wildcard
+                    ? this.localFiles(this.toLocal(spec.depotPath.replace(/\/$/, ""))).map(f => this.toDepot(f)!)
+                    : [spec.depotPath];
+                for (const depotPath of candidates) {
+                    if (existsSync(this.toLocal(depotPath)) && !this.state.opened[depotPath] && !this.state.have[depotPath]) {
+                        found.push({ depotPath, action: "add" });
+                    }
+                }
+            }
+
+            if (found.length === 0) {
+                this.out.warn(`${arg} - no file(s) to reconcile.`);
+                continue;
+            }
+            for (const { depotPath, action } of found.sort((a, b) => a.depotPath.localeCompare(b.depotPath))) {
+                this.out.record({
+                    depotFile: depotPath,
+                    clientFile: this.toLocal(depotPath),
+                    action,
+                    change: String(change),
+                    ...(action === "add" ? {} : { workRev: String(this.state.have[depotPath]) }),
+                });
+                if (!preview) {
+                    this.state.opened[depotPath] = { action, change };
+                }
+            }
+        }
+    }
+
+    private parseChange(value: string | undefined): number | "default" | null {
+        if (value === undefined || value === "default") return "default";
+        const change = this.findChange(parseInt(value, 10));
+        if (!change || change.status !== "pending") {
+            this.out.error(`Change ${value} unknown.`);
+            return null;
+        }
+        return change.change;
+    }
+
+    private lock(args: string[]): void {
+        const { files } = parseArgs(args);
+        for (const { depotPath } of this.select(files, p => !!this.state.opened[p], "file(s) not opened on this client.")) {
+            this.state.opened[depotPath]!.locked = true;
+            this.out.info(`${depotPath} - locking`);
+        }
+    }
+
+    private revert(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-c"]);
+        const change = flags.get("-c");
+        const selected = this.select(files, p => {
+            const opened = this.state.opened[p];
+            return !!opened && (change === undefined || String(opened.change) === change);
+        }, "file(s) not opened on this client.", false);
+
+        for (const { depotPath } of selected) {
+            const opened = this.state.opened[depotPath]!;
+            const have = this.state.have[depotPath] ?? 0;
+            if (opened.action !== "add" && this.exists(depotPath, have)) {
+                this.writeLocal(depotPath, this.revision(depotPath, have)!.content);
+            }
+            delete this.state.opened[depotPath];
+            delete this.state.resolves[depotPath];
+            this.out.info(`${depotPath}#${have} - was ${opened.action}, reverted`);
+        }
+    }
+
+    private reopen(args: string[]): void {
+        const { flags, files } = parseArgs(args, ["-c"]);
+        const change = this.parseChange(flags.get("-c"));
+        if (change === null) return;
+
+        for (const { depotPath } of this.select(files, p => !!this.state.opened[p], "file(s) not opened on this client.")) {
+            this.state.opened[depotPath]!.change = change;
+            this.out.info(`${depotPath} - reopened; ${change === "default" ? "default change" : `change ${change}`}`);
+        }
+    }
+
+    private changeSpec(change: FakeChange | null): string {
+        const source = change ? change.change : "default";
+        const files = Object.entries(this.state.opened)
+            .filter(([, o]) => o.change === source)
+            .map(([depotPath, o]) => `\t${depotPath}\t# ${o.action}`)
+            .sort();
+        const lines = [
+            "# A Perforce Change Specification.",
+            "",
+            `Change:\t${change ? change.change : "new"}`,
+            "",
+            `Client:\t${this.state.client}`,
+            "",
+            `User:\t${this.state.user}`,
+            "",
+            `Status:\t${change ? change.status : "new"}`,
+            "",
+            "Description:",
+            ...(change ? change.desc : "<enter description here>").replace(/\n$/, "").split("\n").map(l => `\t${l}`),
+            "",
+            ...(change?.jobs?.length ? ["Jobs:", ...change.jobs.map(job => `\t${job}\t# ${this.state.jobs?.find(j => j.job === job)?.description.split("\n")[0] ?? ""}`), ""] : []),
+            ...(files.length > 0 ? ["Files:", ...files, ""] : []),
+        ];
+        return lines.join("\n");
+    }
+
+    private change(args: string[]): void {
+        const { flags, files } = parseArgs(args);
+        const number = files[0] ? parseInt(files[0], 10) : undefined;
+
+        if (flags.has("-o")) {
+            const change = number !== undefined ? this.findChange(number) : null;
+            if (number !== undefined && !change) {
+                this.out.error(`Change ${number} unknown.`);
+                return;
+            }
+            this.out.info(this.changeSpec(change ?? null));
+            return;
+        }
+
+        if (flags.has("-d")) {
+            const change = number !== undefined ? this.findChange(number) : undefined;
+            if (!change) {
+                this.out.error(`Change ${files[0] ?? ""} unknown.`);
+                return;
+            }
+            const openCount = Object.values(this.state.opened).filter(o => o.change === change.change).length;
+            if (openCount > 0) {
+                this.out.error(`Change ${change.change} has ${openCount} open file(s) associated with it and can't be deleted.`);
+                return;
+            }
+            if (change.shelved && Object.keys(change.shelved).length > 0) {
+                this.out.error(`Change ${change.change} has shelved files associated with it and can't be deleted.`);
+                return;
+            }
+            this.state.changes = this.state.changes.filter(c => c !== change);
+            this.out.info(`Change ${change.change} deleted.`);
+            return;
+        }
+
+        if (flags.has("-i")) {
+            const spec = this.parseChangeSpec(this.input);
+            if (spec.change === "new") {
+                const change: FakeChange = {
+                    change: this.nextChange(),
+                    status: "pending",
+                    user: this.state.user,
+                    client: this.state.client,
+                    desc: spec.description,
+                    time: this.now(),
+                };
+                this.state.changes.push(change);
+                this.out.info(`Change ${change.change} created.`);
+                return;
+            }
+            const change = this.findChange(parseInt(spec.change, 10));
+            if (!change) {
+                this.out.error(`Change ${spec.change} unknown.`);
+                return;
+            }
+            change.desc = spec.description;
+            this.out.info(`Change ${change.change} updated.`);
+            return;
+        }
+
+        this.out.error("Usage: change [ -o | -i | -d ] [ changelist# ]", 1);
+    }
+
+    private parseChangeSpec(spec: string): { change: string; description: string; files?: string[]; jobs?: string[] } {
+        let change = "new";
+        const lists: Record<string, string[]> = {};
+        let list: string[] | null = null;
+        for (const line of spec.replace(/\r/g, "").split("\n")) {
+            if (line.startsWith("#")) continue;
+            if (list) {
+                if (line.startsWith("\t")) {
+                    list.push(line.slice(1));
+                    continue;
+                }
+                if (line.trim() === "") continue;
+                list = null;
+            }
+            const match = line.match(/^(\w+):\s*(.*)$/);
+            if (!match) continue;
+            if (match[1] === "Change") change = match[2]!.trim();
+            if (match[1] === "Description" || match[1] === "Files" || match[1] === "Jobs") list = lists[match[1]] = [];
+        }
+        return {
+            change,
+            description: (lists.Description ?? []).join("\n") + "\n",
+            // File lines end in a comment with the action
+            files: lists.Files?.map(line => line.replace(/\s+#.*$/, "").trim()),
+            jobs: lists.Jobs?.map(line => line.replace(/\s+#.*$/, "").trim()),
+        };
+    }
+
+    private submit(args: string[]): void {
+        const { flags } = parseArgs(args, ["-c", "-d", "-f"]);
+        const spec = flags.has("-i") ? this.parseChangeSpec(this.input) : null;
+        let change: FakeChange;
+
+        if (flags.has("-c")) {
+            const found = this.findChange(parseInt(flags.get("-c")!, 10));
+            if (!found || found.status !== "pending") {
+                this.out.error(`Change ${flags.get("-c") ?? ""} unknown.`);
+                return;
+            }
+            change = found;
+        } else {
+            change = {
+                change: this.nextChange(),
+                status: "pending",
+                user: this.state.user,
+                client: this.state.client,
+                desc: spec ? spec.description : (flags.get("-d") ?? "") + "\n",
+                time: this.now(),
+                jobs: spec?.jobs,
+            };
+        }
+
+        const source = flags.has("-c") ? change.change : "default";
+        // A spec lists the files of the default change to submit
+        const listed = spec?.files?.map(file => this.parseSpec(file)?.depotPath);
+        let files = Object.entries(this.state.opened)
+            .filter(([depotPath, o]) => o.change === source && (!listed || listed.includes(depotPath)))
+            .map(([depotPath]) => depotPath)
+            .sort();
+        const submitOption = flags.get("-f") ?? "submitunchanged";
+        const unchanged = submitOption.startsWith("revertunchanged")
+            ? files.filter(p => this.state.opened[p]!.action === "edit" && this.readLocal(p) === this.revision(p, this.state.have[p] ?? 0)?.content)
+            : [];
+        if (files.length === unchanged.length) {
+            this.out.error("No files to submit.", GENERIC_EMPTY);
+            return;
+        }
+
+        const unresolved = files.filter(p => this.state.resolves[p]);
+        const outOfDate = files.filter(p => !this.state.resolves[p] && this.state.opened[p]!.action !== "add" && (this.state.have[p] ?? 0) < this.headRev(p));
+        if (unresolved.length > 0 || outOfDate.length > 0) {
+            // The files of the default change are kept in a new numbered change
+            if (!flags.has("-c")) {
+                this.state.changes.push(change);
+                for (const depotPath of files) this.state.opened[depotPath]!.change = change.change;
+                this.out.info(`Change ${change.change} created with ${files.length} open file(s).`);
+            }
+            for (const depotPath of unresolved) {
+                this.out.error(`${this.toLocal(depotPath)} - must resolve #${this.state.resolves[depotPath]!.theirRev} before submitting`);
+            }
+            for (const depotPath of outOfDate) {
+                this.out.error(`${depotPath} - must sync/resolve #${this.headRev(depotPath)} before submitting`);
+            }
+            this.out.error(unresolved.length > 0 ? "Merges still pending -- use 'resolve' to merge files." : "Out of date files must be resolved or reverted.");
+            this.out.error(`Submit failed -- fix problems above then use 'p4 submit -c ${change.change}'.`);
+            return;
+        }
+
+        for (const depotPath of unchanged) {
+            delete this.state.opened[depotPath];
+            this.out.info(`${depotPath}#${this.state.have[depotPath] ?? 0} - unchanged, reverted`);
+        }
+        files = files.filter(p => !unchanged.includes(p));
+
+        if (!flags.has("-c")) {
+            this.state.changes.push(change);
+        }
+        this.out.record({ change: String(change.change), openFiles: String(files.length) });
+
+        for (const depotPath of files) {
+            const opened = this.state.opened[depotPath]!;
+            const revisions = this.state.files[depotPath] ?? (this.state.files[depotPath] = []);
+            revisions.push({
+                change: change.change,
+                action: opened.action,
+                content: opened.action === "delete" ? "" : this.readLocal(depotPath) ?? "",
+                type: this.fileType(depotPath),
+            });
+            if (opened.action === "delete") {
+                delete this.state.have[depotPath];
+            } else {
+                this.state.have[depotPath] = revisions.length;
+            }
+            delete this.state.opened[depotPath];
+            this.out.record({ depotFile: depotPath, action: opened.action, rev: String(revisions.length) });
+        }
+
+        change.status = "submitted";
+        change.time = this.now();
+        for (const job of this.state.jobs ?? []) {
+            if (change.jobs?.includes(job.job)) job.status = "closed";
+        }
+        this.out.record({ submittedChange: String(change.change) });
+
+        if (flags.has("-r") || submitOption.endsWith("+reopen")) {
+            for (const depotPath of files.filter(p => this.state.have[p])) {
+                this.state.opened[depotPath] = { action: "edit", change: "default" };
+                this.out.info(`${depotPath}#${this.state.have[depotPath]} - opened for edit`);
+            }
+        }
+    }
+
+    private jobs(args: string[]): void {
+        const { flags } = parseArgs(args, ["-e", "-m"]);
+        // Only status filters are supported
+        const status = flags.get("-e")?.match(/^status=(\w+)$/)?.[1];
+        const max = flags.has("-m") ? parseInt(flags.get("-m")!, 10) : Infinity;
+        const jobs = (this.state.jobs ?? []).filter(job => !status || job.status === status).slice(0, max);
+        for (const job of jobs) {
+            this.out.record({
+                Job: job.job,
+                Status: job.status,
+                User: job.user,
+                Date: "2025/01/01 00:00:00",
+                Description: job.description + "\n",
+            });
+        }
+    }
+
+    private fix(args: string[]): void {
+        const { flags, files: jobNames } = parseArgs(args, ["-c"]);
+        const change = this.findChange(parseInt(flags.get("-c") ?? "", 10));
+        if (!change) {
+            this.out.error(`Change ${flags.get("-c") ?? ""} unknown.`);
+            return;
+        }
+        for (const name of jobNames) {
+            if (!this.state.jobs?.some(job => job.job === name)) {
+                this.out.error(`Job '${name}' doesn't exist.`);
+                continue;
+            }
+            change.jobs = [...(change.jobs ?? []).filter(j => j !== name), name];
+            this.out.record({ Job: name, Change: String(change.change), Status: change.status === "submitted" ? "closed" : "open" });
+        }
+    }
+
+    private shelve(args: string[]): void {
+        const { flags } = parseArgs(args, ["-c"]);
+        const change = this.findChange(parseInt(flags.get("-c") ?? "", 10));
+        if (!change || change.status !== "pending") {
+            this.out.error(`Change ${flags.get("-c") ?? "default"} unknown.`);
+            return;
+        }
+
+        if (flags.has("-d")) {
+            if (!change.shelved || Object.keys(change.shelved).length === 0) {
+                this.out.error(`No shelved files in changelist to delete.`, GENERIC_EMPTY);
+                return;
+            }
+            delete change.shelved;
+            this.out.info(`Shelved change ${change.change} deleted.`);
+            return;
+        }
+
+        const files = Object.entries(this.state.opened).filter(([, o]) => o.change === change.change);
+        if (files.length === 0) {
+            this.out.error("No files to shelve.", GENERIC_EMPTY);
+            return;
+        }
+        change.shelved = {};
+        for (const [depotPath, opened] of files) {
+            change.shelved[depotPath] = { action: opened.action, content: this.readLocal(depotPath) ?? "" };
+            this.out.info(`${depotPath}#${this.state.have[depotPath] ?? 1} - ${opened.action}`);
+        }
+        this.out.info(`Change ${change.change} files shelved.`);
+    }
+
+    private unshelve(args: string[]): void {
+        const { flags } = parseArgs(args, ["-s", "-c"]);
+        const source = this.findChange(parseInt(flags.get("-s") ?? "", 10));
+        if (!source?.shelved || Object.keys(source.shelved).length === 0) {
+            this.out.error(`Change ${flags.get("-s") ?? ""} unknown.`);
+            return;
+        }
+        const target = this.parseChange(flags.get("-c"));
+        if (target === null) return;
+
+        for (const [depotPath, shelved] of Object.entries(source.shelved)) {
+            if (this.state.opened[depotPath]) {
+                this.out.error(`${depotPath} - can't unshelve file(s) already opened`);
+                continue;
+            }
+            this.state.opened[depotPath] = { action: shelved.action, change: target };
+            if (shelved.action === "delete") {
+                this.removeLocal(depotPath);
+            } else {
+                this.writeLocal(depotPath, shelved.content);
+            }
+            this.out.info(`${depotPath}#${this.state.have[depotPath] ?? 1} - unshelved, opened for ${shelved.action}`);
+        }
+    }
+
+    private resolve(args: string[]): void {
+        const { flags, files } = parseArgs(args);
+        const selected = this.select(files, p => !!this.state.resolves[p], "no file(s) to resolve.");
+
+        for (const { depotPath } of selected) {
+            const pending = this.state.resolves[depotPath]!;
+            const localPath = this.toLocal(depotPath);
+
+            if (flags.has("-n")) {
+                this.out.record({
+                    clientFile: localPath,
+                    fromFile: depotPath,
+                    startFromRev: String(pending.baseRev),
+                    endFromRev: String(pending.theirRev),
+                    baseRev: String(pending.baseRev),
+                    baseFile: depotPath,
+                    resolveType: "content",
+                    resolveFlag: "c",
+                    contentResolveType: "3waytext",
+                });
+                continue;
+            }
+
+            const base = this.revision(depotPath, pending.baseRev)?.content ?? "";
+            const theirs = this.revision(depotPath, pending.theirRev)?.content ?? "";
+            const yours = this.readLocal(depotPath) ?? "";
+
+            let result: string | null;
+            if (flags.has("-at")) {
+                result = theirs;
+            } else if (flags.has("-ay") || flags.has("-ae")) {
+                result = yours;
+            } else if (flags.has("-as")) {
+                result = yours === base ? theirs : theirs === base ? yours : null;
+            } else {
+                this.out.error("Usage: resolve [ -af -am -as -at -ay -ae -n ] [ file ... ]", 1);
+                return;
+            }
+
+            if (result === null) {
+                this.out.info(`${localPath} - resolve skipped.`);
+                continue;
+            }
+            this.writeLocal(depotPath, result);
+            delete this.state.resolves[depotPath];
+            this.out.info(`${localPath} - vs ${depotPath}#${pending.theirRev}`);
+        }
+    }
+
+    /**
+     * Attribute every line of a revision to the change that introduced it
+     */
+    private blame(depotPath: string, upTo: number): { text: string; change: number }[] {
+        let lines: { text: string; change: number }[] = [];
+        for (let rev = 1; rev <= upTo; rev++) {
+            const revision = this.revision(depotPath, rev)!;
+            if (revision.action === "delete") {
+                lines = [];
+                continue;
+            }
+            const next = splitLines(revision.content);
+            const matched = longestCommonSubsequence(lines.map(l => l.text), next);
+            lines = next.map((text, i) => ({ text, change: matched.get(i) !== undefined ? lines[matched.get(i)!]!.change : revision.change }));
+        }
+        return lines;
+    }
+
+    private annotate(args: string[]): void {
+        const { files } = parseArgs(args);
+        for (const arg of files) {
+            const spec = this.parseSpec(arg);
+            const rev = spec ? this.resolveRev(spec.depotPath, spec.revision) : 0;
+            if (!spec || !this.exists(spec.depotPath, rev)) {
+                this.out.warn(`${arg} - no such file(s).`);
+                continue;
+            }
+
+            const head = this.revision(spec.depotPath, rev)!;
+            this.out.record({
+                depotFile: spec.depotPath,
+                rev: String(rev),
+                change: String(head.change),
+                action: head.action,
+                type: head.type ?? "text",
+            });
+            for (const line of this.blame(spec.depotPath, rev)) {
+                const change = this.findChange(line.change);
+                this.out.record({
+                    upper: String(head.change),
+                    lower: String(line.change),
+                    user: change?.user ?? "unknown",
+                    client: change?.client ?? "unknown",
+                    time: String(change?.time ?? 0),
+                    data: line.text,
+                });
+            }
+        }
+    }
+
+    private diff(args: string[]): void {
+        const { files } = parseArgs(args);
+        for (const { depotPath } of this.select(files, p => !!this.state.opened[p], "file(s) not opened on this client.")) {
+            const have = this.state.have[depotPath] ?? 0;
+            const depotContent = this.revision(depotPath, have)?.content ?? "";
+            const local = this.readLocal(depotPath) ?? "";
+            if (depotContent === local) continue;
+            this.out.info(`==== ${depotPath}#${have} - ${this.toLocal(depotPath)} ====`);
+            for (const line of splitLines(depotContent)) this.out.info(`< ${line.replace(/\n$/, "")}`);
+            this.out.info("---");
+            for (const line of splitLines(local)) this.out.info(`> ${line.replace(/\n$/, "")}`);
+        }
+    }
+}
+
+/**
+ * Upper-case the first letter of a message
+ */
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Split content into lines, keeping line endings
+ */
+/**
+ * Block for a number of milliseconds (the fake is synchronous throughout)
+ */
+function sleep(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Find a file in a directory or its parents
+ */
+function findUp(dir: string, name: string): string | null {
+    for (;;) {
+        const candidate = path.join(dir, name);
+        if (existsSync(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+function splitLines(content: string): string[] {
+    return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Map each index of `b` that is part of the longest common subsequence to its index in `a`
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Map<number, number> {
+    const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i]![j] = a[i] === b[j]
+                ? table[i + 1]![j + 1]! + 1
+                : Math.max(table[i + 1]![j]!, table[i]![j + 1]!);
+        }
+    }
+
+    const matched = new Map<number, number>();
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            matched.set(j, i);
+            i++;
+            j++;
+        } else if (table[i + 1]![j]! >= table[i]![j + 1]!) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matched;
+}
+
+// ----- entry point -----
+
+const argv = process.argv.slice(2);
+let tagged = false;
+let argsFromInput = false;
+while (argv[0]?.startsWith("-")) {
+    const flag = argv.shift()!;
+    if (flag === "-ztag") tagged = true;
+    else if (flag === "-x") argsFromInput = argv.shift() === "-";
+    else if (["-c", "-u", "-p", "-P", "-C", "-H"].includes(flag)) argv.shift();
+}
+
+const statePath = process.env.FAKE_P4_STATE;
+if (!statePath) {
+    process.stderr.write("FAKE_P4_STATE is not set\n");
+    process.exit(1);
+}
+
+const command = argv.shift() ?? "help";
+let input = process.stdin.isTTY ? "" : readFileSync(0, "utf8");
+if (argsFromInput) {
+    // -x - reads one argument per line from stdin
+    argv.push(...input.split(/\r?\n/).filter(Boolean));
+    input = "";
+}
+appendFileSync(`${statePath}.log`, JSON.stringify([command, ...argv]) + "\n");
+
+const original = readFileSync(statePath, "utf8");
+const state = JSON.parse(original) as FakeP4State;
+const out = new Output(tagged);
+new FakeP4(state, out, process.cwd(), input).run(command, argv);
+
+// Read-only commands run concurrently, so only write when something changed, and atomically
+const updated = JSON.stringify(state, null, 2);
+if (updated !== original) {
+    writeFileSync(`${statePath}.${process.pid}`, updated);
+    renameSync(`${statePath}.${process.pid}`, statePath);
+}
+
+process.stdout.write(out.stdout);
+process.stderr.write(out.stderr);
+process.exitCode = out.exitCode;
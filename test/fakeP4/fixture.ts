@@ -0,0 +1,136 @@
+/**
+ * A submitted revision of a depot file
+ */
+export interface FakeRevision {
+    /** Changelist that created the revision */
+    change: number;
+    action: "add" | "edit" | "delete" | "integrate";
+    /** File content (ignored for deletes) */
+    content: string;
+    type?: string;
+}
+
+/**
+ * A pending or submitted changelist
+ */
+export interface FakeChange {
+    change: number;
+    status: "pending" | "submitted";
+    user: string;
+    client: string;
+    desc: string;
+    /** Epoch seconds */
+    time: number;
+    /** Shelved files by depot path */
+    shelved?: Record<string, { action: FakeOpened["action"]; content: string }>;
+    /** Jobs fixed by the change, closed when it is submitted */
+    jobs?: string[];
+}
+
+/**
+ * A job that changelists can fix
+ */
+export interface FakeJob {
+    job: string;
+    status: "open" | "suspended" | "closed";
+    user: string;
+    description: string;
+}
+
+/**
+ * A file opened on the fake client
+ */
+export interface FakeOpened {
+    action: "edit" | "add" | "delete";
+    change: number | "default";
+    /** Opened with an exclusive lock */
+    locked?: boolean;
+}
+
+/**
+ * A file opened by another user or client
+ */
+export interface FakeOtherOpened extends FakeOpened {
+    user: string;
+    client: string;
+}
+
+/**
+ * A scheduled resolve (created by syncing an opened file)
+ */
+export interface FakeResolve {
+    baseRev: number;
+    theirRev: number;
+}
+
+/**
+ * Editable fields of the fake client spec
+ */
+export interface FakeClientSpec {
+    description: string;
+    options: string;
+    submitOptions: string;
+    lineEnd: string;
+    /** View lines as written in the spec form */
+    view: string[];
+    stream?: string;
+}
+
+/**
+ * Another client on the fake server (only its spec is stored)
+ */
+export interface FakeOtherClient extends FakeClientSpec {
+    owner: string;
+    root: string;
+}
+
+/**
+ * Complete state of the fake server and client
+ * The fake p4 executable reads it from $FAKE_P4_STATE and writes it back after
+ * every command that changes something.
+ */
+export interface FakeP4State {
+    user: string;
+    client: string;
+    /** Local workspace root */
+    clientRoot: string;
+    /** Depot path mapped to the client root, e.g. //depot/vault */
+    depotRoot: string;
+    serverAddress: string;
+    /** Password accepted by `p4 login` (any password if unset) */
+    password?: string;
+    loggedIn: boolean;
+    /** SSL fingerprint presented by the server (plain TCP if unset) */
+    fingerprint?: string;
+    /** Fingerprint installed with `p4 trust` */
+    trusted?: string;
+    /** Server runs in unicode mode and requires P4CHARSET */
+    unicode?: boolean;
+    /** Client spec fields (a view mapping the depot root to the client root if unset) */
+    spec?: FakeClientSpec;
+    /** Other clients by name, listed by `p4 clients` */
+    clients?: Record<string, FakeOtherClient>;
+    /** Milliseconds to wait before each synced file, streaming the output */
+    syncDelay?: number;
+    /** Stream paths listed by `p4 streams` */
+    streams?: string[];
+    /** Revision history per depot path, oldest first */
+    files: Record<string, FakeRevision[]>;
+    /** Have revision per depot path */
+    have: Record<string, number>;
+    opened: Record<string, FakeOpened>;
+    /** Files opened by other users or clients, listed by `p4 opened -a` */
+    otherOpened?: Record<string, FakeOtherOpened[]>;
+    resolves: Record<string, FakeResolve>;
+    changes: FakeChange[];
+    /** Jobs listed by `p4 jobs` */
+    jobs?: FakeJob[];
+}
+
+/**
+ * Fixture used to create a fake workspace (everything but the paths is optional)
+ */
+export type FakeP4Fixture = Partial<Omit<FakeP4State, "clientRoot">> & {
+    /** Local file contents by vault path, overriding the have revisions */
+    local?: Record<string, string>;
+};
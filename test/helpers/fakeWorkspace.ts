@@ -0,0 +1,121 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { FileSystemAdapter } from "../stubs/obsidian";
+import { P4Manager } from "../../src/p4Manager";
+import { P4BlameProvider } from "../../src/blame/blameProvider";
+import { DEFAULT_SETTINGS } from "../../src/constants";
+import type ObsidianP4 from "../../src/main";
+import type { FakeP4Fixture, FakeP4State } from "../fakeP4/fixture";
+
+// P4Manager logs every command and result, keep the test output readable
+console.debug = () => {};
+
+/**
+ * A temporary vault connected to the fake p4 executable
+ */
+export interface FakeWorkspace {
+    vaultPath: string;
+    plugin: ObsidianP4;
+    manager: P4Manager;
+    blameProvider: P4BlameProvider;
+    /** Depot path of a vault file */
+    depotPath(vaultPath: string): string;
+    readState(): FakeP4State;
+    /** Command lines received by the fake p4, in order */
+    readLog(): string[][];
+    /** Change the server state, e.g. to simulate a teammate's submit */
+    updateState(update: (state: FakeP4State) => void): void;
+    readLocal(vaultPath: string): string;
+    writeLocal(vaultPath: string, content: string): void;
+    cleanup(): void;
+}
+
+/**
+ * Create a vault and fake server from a fixture
+ * Files with a have revision are written to the vault, `local` overrides their content.
+ */
+export async function createFakeWorkspace(fixture: FakeP4Fixture = {}): Promise<FakeWorkspace> {
+    const p4Path = process.env.FAKE_P4_PATH;
+    if (!p4Path) {
+        throw new Error("FAKE_P4_PATH is not set, run the tests through `npm test`");
+    }
+
+    const root = mkdtempSync(path.join(tmpdir(), "obsidian-p4-"));
+    const vaultPath = path.join(root, "vault");
+    const statePath = path.join(root, "state.json");
+    mkdirSync(vaultPath);
+
+    const { local = {}, ...server } = fixture;
+    const state: FakeP4State = {
+        user: "alice",
+        client: "alice-vault",
+        depotRoot: "//depot/vault",
+        serverAddress: "fake:1666",
+        loggedIn: true,
+        files: {},
+        have: {},
+        opened: {},
+        resolves: {},
+        changes: [],
+        ...server,
+        clientRoot: vaultPath,
+    };
+
+    const depotPath = (file: string): string => `${state.depotRoot}/${file}`;
+    const writeLocal = (file: string, content: string): void => {
+        const fullPath = path.join(vaultPath, file);
+        mkdirSync(path.dirname(fullPath), { recursive: true });
+        writeFileSync(fullPath, content);
+    };
+
+    for (const [file, rev] of Object.entries(state.have)) {
+        const revision = state.files[file]?.[rev - 1];
+        if (revision && revision.action !== "delete") {
+            writeLocal(file.slice(state.depotRoot.length + 1), revision.content);
+        }
+    }
+    for (const [file, content] of Object.entries(local)) {
+        writeLocal(file, content);
+    }
+
+    writeFileSync(statePath, JSON.stringify(state, null, 2));
+    process.env.FAKE_P4_STATE = statePath;
+
+    const plugin = {
+        settings: { ...DEFAULT_SETTINGS, p4Path },
+        app: { vault: { adapter: new FileSystemAdapter(vaultPath), configDir: ".vault" } },
+        p4Ready: true,
+        isResolvingMerge: false,
+        requestLogin: () => Promise.resolve(false),
+    } as unknown as ObsidianP4;
+    const manager = new P4Manager(plugin);
+    plugin.p4Manager = manager;
+    const blameProvider = new P4BlameProvider(plugin);
+    plugin.blameProvider = blameProvider;
+
+    const readState = (): FakeP4State => JSON.parse(readFileSync(statePath, "utf8")) as FakeP4State;
+
+    await manager.checkRequirements();
+
+    return {
+        vaultPath,
+        plugin,
+        manager,
+        blameProvider,
+        depotPath,
+        readState,
+        readLog: () => {
+            const log = existsSync(`${statePath}.log`) ? readFileSync(`${statePath}.log`, "utf8") : "";
+            return log.split("\n").filter(Boolean).map(line => JSON.parse(line) as string[]);
+        },
+        updateState: (update) => {
+            const current = readState();
+            update(current);
+            writeFileSync(statePath, JSON.stringify(current, null, 2));
+        },
+        readLocal: (file) => readFileSync(path.join(vaultPath, file), "utf8"),
+        writeLocal,
+        cleanup: () => rmSync(root, { recursive: true, force: true }),
+    };
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findIgnoreRule, getDefaultIgnoreRules, isIgnored, parseIgnoreRules } from "../src/ignoreRules";
+
+test("ignore rules follow P4IGNORE matching", () => {
+    const rules = parseIgnoreRules([
+        "# comment",
+        "*.tmp",
+        "/build",
+        "drafts/",
+        "notes/**/private.md",
+        "!keep.tmp",
+    ].join("\n"), "test");
+
+    assert.equal(isIgnored(rules, "a/b/file.tmp"), true);
+    assert.equal(isIgnored(rules, "a/keep.tmp"), false);
+    assert.equal(isIgnored(rules, "build/out.md"), true);
+    assert.equal(isIgnored(rules, "docs/build/out.md"), false);
+    assert.equal(isIgnored(rules, "x/drafts/idea.md"), true);
+    // A trailing slash only matches folders
+    assert.equal(isIgnored(rules, "x/drafts"), false);
+    assert.equal(isIgnored(rules, "notes/private.md"), true);
+    assert.equal(isIgnored(rules, "notes/a/b/private.md"), true);
+    assert.equal(isIgnored(rules, "other/private.md"), false);
+
+    assert.deepEqual(findIgnoreRule(rules, "build/out.md"), rules[1]);
+    assert.equal(rules[1]!.line, 3);
+});
+
+test("the built-in rules follow the config folder", () => {
+    const rules = parseIgnoreRules(getDefaultIgnoreRules(".config"), "defaults");
+    assert.equal(isIgnored(rules, ".config/workspace.json"), true);
+    assert.equal(isIgnored(rules, ".config/cache/x.bin"), true);
+    assert.equal(isIgnored(rules, ".config/app.json"), false);
+    assert.equal(isIgnored(rules, ".trash/old.md"), true);
+});
+
+test("rules from a folder only apply inside it", () => {
+    const rules = [
+        ...parseIgnoreRules("*.bak\n/local.md", "notes/.p4ignore", "notes"),
+        ...parseIgnoreRules("!keep.bak", "notes/sub/.p4ignore", "notes/sub"),
+    ];
+    assert.equal(isIgnored(rules, "notes/a.bak"), true);
+    assert.equal(isIgnored(rules, "notes/deep/a.bak"), true);
+    assert.equal(isIgnored(rules, "a.bak"), false);
+    assert.equal(isIgnored(rules, "notes-old/a.bak"), false);
+    assert.equal(isIgnored(rules, "notes/local.md"), true);
+    assert.equal(isIgnored(rules, "notes/deep/local.md"), false);
+    assert.equal(isIgnored(rules, "notes/sub/keep.bak"), false);
+    assert.equal(isIgnored(rules, "notes/keep.bak"), true);
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { recordOfflineOperation, removeOfflineOperations } from "../src/offlineJournal";
+import { DEFAULT_SETTINGS } from "../src/constants";
+import type { P4JournalEntry, P4PluginSettings } from "../src/types";
+
+/**
+ * Record operations in a fresh journal and return it as [action, path, fromPath] tuples
+ */
+function record(entries: Omit<P4JournalEntry, "time">[]): (string | undefined)[][] {
+    const settings: P4PluginSettings = { ...DEFAULT_SETTINGS, offlineJournal: [] };
+    for (const entry of entries) {
+        recordOfflineOperation(settings, { ...entry, time: 0 });
+    }
+    return settings.offlineJournal.map(e => [e.action, e.vaultPath, e.fromPath]);
+}
+
+test("offline operations on the same file are folded together", () => {
+    // Editing twice is one edit, editing an added file is still an add
+    assert.deepEqual(record([
+        { action: "edit", vaultPath: "a.md" },
+        { action: "edit", vaultPath: "a.md" },
+        { action: "add", vaultPath: "b.md" },
+        { action: "edit", vaultPath: "b.md" },
+    ]), [["edit", "a.md", undefined], ["add", "b.md", undefined]]);
+
+    // A deleted added file never reaches the depot, a deleted moved file is deleted where it came from
+    assert.deepEqual(record([
+        { action: "add", vaultPath: "new.md" },
+        { action: "delete", vaultPath: "new.md" },
+        { action: "move", vaultPath: "b.md", fromPath: "a.md" },
+        { action: "delete", vaultPath: "b.md" },
+    ]), [["delete", "a.md", undefined]]);
+
+    // Moves follow the file, and moving it back leaves an edit
+    assert.deepEqual(record([
+        { action: "add", vaultPath: "draft.md" },
+        { action: "move", vaultPath: "final.md", fromPath: "draft.md" },
+        { action: "move", vaultPath: "b.md", fromPath: "a.md" },
+        { action: "move", vaultPath: "a.md", fromPath: "b.md" },
+        { action: "edit", vaultPath: "c.md" },
+        { action: "move", vaultPath: "d.md", fromPath: "c.md" },
+    ]), [["add", "final.md", undefined], ["edit", "a.md", undefined], ["move", "d.md", "c.md"]]);
+
+    // A deleted file that comes back is an edit
+    assert.deepEqual(record([
+        { action: "delete", vaultPath: "a.md" },
+        { action: "add", vaultPath: "a.md" },
+    ]), [["edit", "a.md", undefined]]);
+
+    // Moving onto a path the journal already has deletes the source and folds into the target's entry
+    assert.deepEqual(record([
+        { action: "add", vaultPath: "b.md" },
+        { action: "move", vaultPath: "b.md", fromPath: "a.md" },
+        { action: "delete", vaultPath: "d.md" },
+        { action: "move", vaultPath: "d.md", fromPath: "c.md" },
+    ]), [["add", "b.md", undefined], ["delete", "a.md", undefined], ["edit", "d.md", undefined], ["delete", "c.md", undefined]]);
+});
+
+test("replayed operations leave the journal", () => {
+    const settings: P4PluginSettings = { ...DEFAULT_SETTINGS, offlineJournal: [] };
+    recordOfflineOperation(settings, { action: "edit", vaultPath: "a.md", time: 0 });
+    recordOfflineOperation(settings, { action: "add", vaultPath: "b.md", time: 0 });
+    removeOfflineOperations(settings, [settings.offlineJournal[0]!]);
+    assert.deepEqual(settings.offlineJournal.map(e => e.vaultPath), ["b.md"]);
+});
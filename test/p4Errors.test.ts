@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { P4ConnectionError, P4Error, P4Severity, classifyP4Message, createP4Error } from "../src/p4Errors";
+
+test("communication errors are recognized by their generic code", () => {
+    const message = { data: "RPC message not understood.", severity: P4Severity.failed, generic: 38 };
+    assert.equal(classifyP4Message(message), "connection-failed");
+    assert.ok(createP4Error([message]) instanceof P4ConnectionError);
+});
+
+test("upgrade errors are not connection errors", () => {
+    const message = { data: "Client version too old for this server.", severity: P4Severity.failed, generic: 37 };
+    assert.equal(classifyP4Message(message), "unknown");
+    const error = createP4Error([message]);
+    assert.ok(!(error instanceof P4ConnectionError));
+    assert.equal(error.constructor, P4Error);
+});
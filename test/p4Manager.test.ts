@@ -0,0 +1,701 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rmSync } from "fs";
+import * as path from "path";
+import { createFakeWorkspace } from "./helpers/fakeWorkspace";
+import { P4NotLoggedInError } from "../src/p4Errors";
+import type { FakeP4Fixture } from "./fakeP4/fixture";
+import type { P4SyncProgress } from "../src/types";
+
+const NOW = 1735689600; // 2025/01/01
+
+const fixture: FakeP4Fixture = {
+    files: {
+        "//depot/vault/notes/a.md": [
+            { change: 1, action: "add", content: "first\n" },
+            { change: 2, action: "edit", content: "first\nsecond\n" },
+        ],
+        "//depot/vault/notes/b.md": [
+            { change: 1, action: "add", content: "bee\n" },
+        ],
+    },
+    have: {
+        "//depot/vault/notes/a.md": 2,
+        "//depot/vault/notes/b.md": 1,
+    },
+    changes: [
+        { change: 1, status: "submitted", user: "bob", client: "bob-ws", desc: "Initial notes\n", time: NOW },
+        { change: 2, status: "submitted", user: "alice", client: "alice-vault", desc: "Add second line\n", time: NOW },
+    ],
+};
+
+test("checkRequirements reads the client from p4 info", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+        assert.equal(ws.manager.getClientRoot(), ws.vaultPath);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("checkRequirements reports an expired session", async () => {
+    const ws = await createFakeWorkspace({ ...fixture, loggedIn: false });
+    try {
+        assert.equal(await ws.manager.checkRequirements(), "valid");
+        await assert.rejects(ws.manager.getOpenedFiles(), P4NotLoggedInError);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("a command that fails on an expired ticket is retried once after logging in", async () => {
+    const ws = await createFakeWorkspace({ ...fixture, opened: { "//depot/vault/notes/a.md": { action: "edit", change: "default" } } });
+    try {
+        let prompts = 0;
+        ws.plugin.requestLogin = async () => {
+            prompts++;
+            await ws.manager.login("secret");
+            return true;
+        };
+        assert.equal((await ws.manager.getOpenedFiles()).length, 1);
+
+        ws.updateState(state => {
+            state.loggedIn = false;
+        });
+        const before = ws.readLog().length;
+        assert.deepEqual((await ws.manager.getOpenedFiles()).map(f => f.vaultPath), ["notes/a.md"]);
+        assert.equal(prompts, 1);
+        assert.deepEqual(ws.readLog().slice(before).map(args => args[0]), ["opened", "login", "opened"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("concurrent commands failing on an expired ticket share one login prompt", async () => {
+    const ws = await createFakeWorkspace({ ...fixture, loggedIn: false });
+    try {
+        let prompts = 0;
+        ws.plugin.requestLogin = async () => {
+            prompts++;
+            // Keep the prompt open until every command has failed
+            await new Promise(resolve => setTimeout(resolve, 500));
+            await ws.manager.login("secret");
+            return true;
+        };
+
+        const [opened, pending] = await Promise.all([
+            ws.manager.getOpenedFiles(),
+            ws.manager.getPendingChangelists(),
+            ws.manager.loadFileStates(),
+        ]);
+        assert.equal(prompts, 1);
+        assert.deepEqual(opened, []);
+        assert.deepEqual(pending.map(c => c.change), ["default"]);
+        assert.ok(ws.manager.fileStates.isInDepot("notes/a.md"));
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("edit, move to a changelist and revert", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        await ws.manager.loadFileStates();
+        const change = await ws.manager.createChangelist("Rework notes");
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.moveToChangelist("notes/a.md", change);
+
+        const opened = await ws.manager.getOpenedFiles();
+        assert.deepEqual(opened.map(f => [f.vaultPath, f.action, f.changelist]), [["notes/a.md", "edit", change]]);
+        assert.equal(ws.manager.fileStates.isOpened("notes/a.md"), true);
+        assert.equal(ws.manager.fileStates.isOpened("notes/b.md"), false);
+
+        const pending = await ws.manager.getPendingChangelists();
+        assert.deepEqual(pending.map(c => [c.change, c.description]), [["default", "Default changelist"], [change, "Rework notes"]]);
+
+        ws.writeLocal("notes/a.md", "changed\n");
+        await ws.manager.revert("notes/a.md");
+        assert.equal(ws.readLocal("notes/a.md"), "first\nsecond\n");
+        assert.deepEqual(await ws.manager.getOpenedFiles(), []);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("descriptions are passed through verbatim", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        const description = `Quotes "double" 'single', $HOME and \`backticks\``;
+        const change = await ws.manager.createChangelist("draft");
+        await ws.manager.updateChangelistDescription(change, description);
+        assert.equal(ws.readState().changes.find(c => c.change === change)?.desc, description + "\n");
+
+        await ws.manager.edit("notes/b.md");
+        ws.writeLocal("notes/b.md", "bee\nhive\n");
+        const submitted = await ws.manager.submit("default", description);
+        const state = ws.readState();
+        assert.equal(state.changes.find(c => c.change === submitted)?.desc, description + "\n");
+        assert.equal(state.files[ws.depotPath("notes/b.md")]?.[1]?.content, "bee\nhive\n");
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("submitting part of the default changelist moves the other files and fixes jobs", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        local: { "notes/new.md": "new\n" },
+        jobs: [{ job: "job000001", status: "open", user: "alice", description: "Write notes\n" }],
+    });
+    try {
+        await ws.manager.loadFileStates();
+        const later = await ws.manager.createChangelist("Later");
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.edit("notes/b.md");
+        await ws.manager.add("notes/new.md");
+        ws.writeLocal("notes/a.md", "first\nsecond\nthird\n");
+
+        assert.deepEqual((await ws.manager.getOpenJobs()).map(j => [j.job, j.description]), [["job000001", "Write notes"]]);
+
+        const submitted = await ws.manager.submit("default", "Some notes", {
+            files: ["notes/a.md", "notes/new.md"],
+            moveOthersTo: later,
+            jobs: ["job000001"],
+        });
+        const state = ws.readState();
+        assert.equal(state.files[ws.depotPath("notes/a.md")]?.length, 3);
+        assert.equal(state.files[ws.depotPath("notes/new.md")]?.[0]?.change, submitted);
+        assert.deepEqual(state.changes.find(c => c.change === submitted)?.jobs, ["job000001"]);
+        assert.equal(state.jobs?.[0]?.status, "closed");
+        assert.deepEqual(ws.manager.fileStates.getOpenedFiles().map(f => [f.vaultPath, f.changelist]), [["notes/b.md", later]]);
+
+        // The description goes through the change form
+        assert.ok(ws.readLog().every(args => !args.includes("Some notes")));
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("submit goes by the files the server has in the changelist", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        await ws.manager.loadFileStates();
+        const later = await ws.manager.createChangelist("Later");
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.edit("notes/b.md");
+        ws.writeLocal("notes/a.md", "first\nsecond\nthird\n");
+
+        // b.md is reverted outside the plugin, then opened again
+        ws.updateState(state => {
+            delete state.opened[ws.depotPath("notes/b.md")];
+        });
+        assert.deepEqual(await ws.manager.refreshChangelistFiles("default"), ["notes/a.md"]);
+        assert.equal(ws.manager.fileStates.isOpened("notes/b.md"), false);
+
+        ws.updateState(state => {
+            state.opened[ws.depotPath("notes/b.md")] = { action: "edit", change: "default" };
+        });
+        const submitted = await ws.manager.submit("default", "Only a", { files: ["notes/a.md"], moveOthersTo: later });
+        const state = ws.readState();
+        assert.equal(state.files[ws.depotPath("notes/a.md")]?.at(-1)?.change, submitted);
+        assert.equal(state.files[ws.depotPath("notes/b.md")]?.length, 1);
+        assert.deepEqual(ws.manager.fileStates.getOpenedFiles().map(f => [f.vaultPath, f.changelist]), [["notes/b.md", later]]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("submit options revert unchanged files and reopen the submitted ones", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        jobs: [{ job: "job000002", status: "open", user: "alice", description: "Sting\n" }],
+    });
+    try {
+        await ws.manager.loadFileStates();
+        const change = await ws.manager.createChangelist("Draft");
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.edit("notes/b.md");
+        await ws.manager.moveToChangelist("notes/a.md", change);
+        await ws.manager.moveToChangelist("notes/b.md", change);
+        ws.writeLocal("notes/b.md", "bee\nsting\n");
+
+        const submitted = await ws.manager.submit(change, "Add a sting", { jobs: ["job000002"], revertUnchanged: true, reopen: true });
+        assert.equal(submitted, change);
+        const state = ws.readState();
+        assert.equal(state.changes.find(c => c.change === change)?.desc, "Add a sting\n");
+        assert.equal(state.files[ws.depotPath("notes/a.md")]?.length, 2);
+        assert.equal(state.files[ws.depotPath("notes/b.md")]?.length, 2);
+        assert.deepEqual(ws.manager.fileStates.getOpenedFiles().map(f => [f.vaultPath, f.action, f.changelist]), [["notes/b.md", "edit", "default"]]);
+        assert.equal(state.jobs?.[0]?.status, "closed");
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("the jobs a pending changelist fixes are read from its spec", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        jobs: [{ job: "job000003", status: "open", user: "alice", description: "Outline\n" }],
+    });
+    try {
+        const change = await ws.manager.createChangelist("Draft");
+        assert.deepEqual(await ws.manager.getChangelistJobs(change), []);
+
+        ws.updateState(state => {
+            state.changes.find(c => c.change === change)!.jobs = ["job000003"];
+        });
+        assert.deepEqual(await ws.manager.getChangelistJobs(change), ["job000003"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("sync writes new revisions and reports what changed", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        ws.updateState(state => {
+            state.files[ws.depotPath("notes/b.md")]!.push({ change: 3, action: "edit", content: "bee\nsting\n" });
+            state.files[ws.depotPath("notes/c.md")] = [{ change: 3, action: "add", content: "sea\n" }];
+            state.changes.push({ change: 3, status: "submitted", user: "bob", client: "bob-ws", desc: "More\n", time: NOW });
+        });
+
+        const result = await ws.manager.sync();
+        assert.deepEqual(
+            result.files.map(f => [f.vaultPath, f.action, f.rev]).sort(),
+            [["notes/b.md", "updated", 2], ["notes/c.md", "added", 1]],
+        );
+        assert.equal(ws.readLocal("notes/c.md"), "sea\n");
+
+        await ws.manager.loadFileStates();
+        assert.deepEqual(
+            ["notes/a.md", "notes/b.md", "notes/c.md"].map(p => ws.manager.fileStates.get(p)?.haveRev),
+            [2, 2, 1],
+        );
+
+        assert.deepEqual((await ws.manager.sync()).files, []);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("sync preview lists incoming changes and syncs only the chosen files", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        ws.updateState(state => {
+            state.files[ws.depotPath("notes/b.md")]!.push({ change: 3, action: "edit", content: "bee\nsting\n" });
+            state.files[ws.depotPath("notes/c.md")] = [{ change: 3, action: "add", content: "sea\n" }];
+            state.files[ws.depotPath("notes/a.md")]!.push({ change: 4, action: "edit", content: "first\nsecond\nthird\n" });
+            state.changes.push(
+                { change: 3, status: "submitted", user: "bob", client: "bob-ws", desc: "More\n", time: NOW },
+                { change: 4, status: "submitted", user: "alice", client: "alice-vault", desc: "Third line\n", time: NOW },
+            );
+        });
+        await ws.manager.edit("notes/a.md");
+
+        const preview = await ws.manager.previewSync();
+        assert.deepEqual(preview.changes.map(c => [c.change, c.user, c.description]), [[4, "alice", "Third line"], [3, "bob", "More"]]);
+        assert.deepEqual(
+            preview.files.map(f => [f.vaultPath, f.action, f.rev, f.change, f.opened]).sort(),
+            [["notes/a.md", "updated", 3, 4, true], ["notes/b.md", "updated", 2, 3, false], ["notes/c.md", "added", 1, 3, false]],
+        );
+        // Nothing was synced by the preview
+        assert.equal(ws.readLocal("notes/b.md"), "bee\n");
+
+        const chosen = preview.files.filter(f => f.vaultPath !== "notes/a.md");
+        const result = await ws.manager.syncFiles(chosen);
+        assert.deepEqual(result.files.map(f => f.vaultPath).sort(), ["notes/b.md", "notes/c.md"]);
+        assert.equal(ws.readLocal("notes/b.md"), "bee\nsting\n");
+        assert.deepEqual((await ws.manager.previewSync()).files.map(f => f.vaultPath), ["notes/a.md"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("the latest change tells when to check for incoming files again", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        assert.equal(await ws.manager.getLatestChange(), 2);
+        assert.deepEqual((await ws.manager.previewSync({ priority: "background" })).files, []);
+
+        ws.updateState(state => {
+            state.files[ws.depotPath("notes/b.md")]!.push({ change: 3, action: "edit", content: "bee\nsting\n" });
+            state.changes.push({ change: 3, status: "submitted", user: "bob", client: "bob-ws", desc: "More\n", time: NOW });
+        });
+        assert.equal(await ws.manager.getLatestChange(), 3);
+        assert.deepEqual((await ws.manager.previewSync()).changes.map(c => c.change), [3]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("reconcile finds offline edits, adds and deletes and skips ignored files", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        local: {
+            "notes/new.md": "new\n",
+            "notes/draft.tmp": "scratch\n",
+            ".vault/workspace.json": "{}",
+        },
+    });
+    try {
+        ws.writeLocal("notes/a.md", "first\nsecond\nedited offline\n");
+        rmSync(path.join(ws.vaultPath, "notes/b.md"));
+        ws.plugin.settings.ignoreRules = "*.tmp";
+
+        const files = await ws.manager.previewReconcile();
+        assert.deepEqual(files.map(f => [f.vaultPath, f.action]), [["notes/a.md", "edit"], ["notes/b.md", "delete"], ["notes/new.md", "add"]]);
+        assert.deepEqual(await ws.manager.getOpenedFiles(), []);
+
+        const change = await ws.manager.createChangelist("Offline work");
+        await ws.manager.reconcile(files.filter(f => f.action !== "delete"), change);
+        const opened = await ws.manager.getOpenedFiles();
+        assert.deepEqual(opened.map(f => [f.vaultPath, f.action, f.changelist]).sort(), [["notes/a.md", "edit", change], ["notes/new.md", "add", change]]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("add folder skips files matched by P4IGNORE files and the plugin rules", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        local: {
+            "notes/.p4ignore": "*.bak\n",
+            "notes/idea.md": "idea\n",
+            "notes/idea.bak": "backup\n",
+            "notes/sub/.p4ignore": "!keep.bak\n",
+            "notes/sub/keep.bak": "kept\n",
+            "other.bak": "outside the ignore file folder\n",
+        },
+    });
+    try {
+        assert.equal(await ws.manager.addFolder("notes"), 4);
+        const opened = await ws.manager.getOpenedFiles();
+        assert.deepEqual(opened.map(f => f.vaultPath).sort(), ["notes/.p4ignore", "notes/idea.md", "notes/sub/.p4ignore", "notes/sub/keep.bak"]);
+
+        const rule = await ws.manager.getIgnoreRule("notes/idea.bak");
+        assert.deepEqual([rule?.text, rule?.source, rule?.line], ["*.bak", "notes/.p4ignore", 1]);
+        assert.equal(await ws.manager.getIgnoreRule("other.bak"), null);
+
+        ws.plugin.settings.ignoreRules = "other.bak";
+        assert.equal((await ws.manager.getIgnoreRule("other.bak"))?.source, "Plugin settings");
+
+        // Editing an ignore file drops the cached rules, other files keep them
+        ws.writeLocal("notes/.p4ignore", "*.tmp\n");
+        ws.manager.handleIgnoreFileChange("notes/idea.md");
+        assert.equal((await ws.manager.getIgnoreRule("notes/idea.bak"))?.text, "*.bak");
+        ws.manager.handleIgnoreFileChange("notes/.p4ignore");
+        assert.equal(await ws.manager.getIgnoreRule("notes/idea.bak"), null);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("offline journal entries are checked against the server and replayed", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        files: {
+            ...fixture.files,
+            "//depot/vault/notes/taken.md": [{ change: 2, action: "add", content: "theirs\n" }],
+        },
+        have: { "//depot/vault/notes/a.md": 1, "//depot/vault/notes/b.md": 1 },
+        local: {
+            "notes/a.md": "first\nmine\n",
+            "notes/b.md": "bee\nmine\n",
+            "notes/new.md": "new\n",
+            "notes/taken.md": "mine\n",
+            "notes/final.md": "moved\n",
+        },
+    });
+    try {
+        const time = NOW * 1000;
+        const reviews = await ws.manager.reviewJournal([
+            { action: "edit", vaultPath: "notes/a.md", time },
+            { action: "edit", vaultPath: "notes/b.md", time },
+            { action: "add", vaultPath: "notes/new.md", time },
+            { action: "add", vaultPath: "notes/taken.md", time },
+            { action: "move", vaultPath: "notes/final.md", fromPath: "notes/draft.md", time },
+            { action: "delete", vaultPath: "notes/gone.md", time },
+        ]);
+        assert.deepEqual(reviews.map(r => [r.entry.vaultPath, r.action, r.status]), [
+            ["notes/a.md", "edit", "needs-resolve"],
+            ["notes/b.md", "edit", "ready"],
+            ["notes/new.md", "add", "ready"],
+            ["notes/taken.md", "add", "conflict"],
+            ["notes/final.md", "add", "ready"],
+            ["notes/gone.md", "delete", "skip"],
+        ]);
+
+        const change = await ws.manager.createChangelist("Offline work");
+        for (const review of reviews.filter(r => r.status === "ready" || r.status === "needs-resolve")) {
+            await ws.manager.replayJournalEntry(review, change);
+        }
+        const opened = await ws.manager.getOpenedFiles();
+        assert.deepEqual(opened.map(f => [f.vaultPath, f.action, f.changelist]).sort(), [
+            ["notes/a.md", "edit", change],
+            ["notes/b.md", "edit", change],
+            ["notes/final.md", "add", change],
+            ["notes/new.md", "add", change],
+        ]);
+        // The out of date file keeps the offline edit and waits for a resolve
+        assert.equal(ws.readLocal("notes/a.md"), "first\nmine\n");
+        assert.deepEqual((await ws.manager.getConflicts()).map(c => c.vaultPath), ["notes/a.md"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("file states are loaded once and updated for the files each operation touches", async () => {
+    const ws = await createFakeWorkspace({ ...fixture, local: { "notes/new.md": "new\n" } });
+    try {
+        await ws.manager.loadFileStates();
+        const states = ws.manager.fileStates;
+        assert.equal(states.isInDepot("notes/a.md"), true);
+        assert.equal(states.isInDepot("Notes/A.md"), true);
+        assert.equal(states.isOpened("notes/a.md"), false);
+        assert.equal(states.isInDepot("notes/new.md"), false);
+
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.add("notes/new.md");
+        assert.deepEqual(states.getOpenedFiles().map(f => [f.vaultPath, f.action, f.changelist, f.rev]), [
+            ["notes/a.md", "edit", "default", 2],
+            ["notes/new.md", "add", "default", undefined],
+        ]);
+        assert.equal(states.findByName("new")?.vaultPath, "notes/new.md");
+
+        await ws.manager.revert("notes/new.md");
+        assert.equal(states.get("notes/new.md"), undefined);
+
+        await ws.manager.submit("default", "Edit a");
+        assert.deepEqual(states.getOpenedFiles(), []);
+        assert.equal(states.get("notes/a.md")?.haveRev, 3);
+
+        // Only the first load reads the whole vault
+        const vaultReads = ws.readLog().filter(args => args.includes("fstat") && args.some(a => a.endsWith("/...")));
+        assert.equal(vaultReads.length, 1);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("files with newer revisions on the server are not at head", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        await ws.manager.loadFileStates();
+        const states = ws.manager.fileStates;
+        assert.equal(states.getNewerRevisions("notes/b.md"), 0);
+
+        ws.updateState(state => {
+            state.files[ws.depotPath("notes/b.md")]!.push(
+                { change: 3, action: "edit", content: "bee\nsting\n" },
+                { change: 4, action: "edit", content: "bee\nsting\nhoney\n" },
+            );
+            state.changes.push(
+                { change: 3, status: "submitted", user: "bob", client: "bob-ws", desc: "Sting\n", time: NOW },
+                { change: 4, status: "submitted", user: "bob", client: "bob-ws", desc: "Honey\n", time: NOW },
+            );
+        });
+        // Every refresh reads the head revisions again, without incoming polling too
+        await ws.manager.loadFileStates();
+        assert.equal(states.getNewerRevisions("notes/b.md"), 2);
+        await ws.manager.updateFileStates(["notes/b.md"]);
+        assert.equal(states.getNewerRevisions("notes/b.md"), 2);
+        // Files that aren't on the client are never behind
+        assert.equal(states.getNewerRevisions("notes/missing.md"), 0);
+
+        await ws.manager.sync("notes/b.md");
+        assert.equal(states.getNewerRevisions("notes/b.md"), 0);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("files opened by other users are listed with their locks", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        otherOpened: {
+            "//depot/vault/notes/a.md": [
+                { user: "bob", client: "bob-ws", action: "edit", change: 7, locked: true },
+                { user: "carol", client: "carol-laptop", action: "edit", change: "default" },
+            ],
+            "//depot/vault/notes/b.md": [{ user: "bob", client: "bob-ws", action: "delete", change: "default" }],
+        },
+    });
+    try {
+        await ws.manager.loadFileStates();
+        await ws.manager.edit("notes/b.md");
+        const others = ws.manager.fileStates.getOtherOpens();
+        assert.deepEqual(others.map(o => [o.vaultPath, `${o.user}@${o.client}`, o.action, o.changelist, o.locked]), [
+            ["notes/a.md", "bob@bob-ws", "edit", 7, true],
+            ["notes/a.md", "carol@carol-laptop", "edit", "default", false],
+            ["notes/b.md", "bob@bob-ws", "delete", "default", false],
+        ]);
+        assert.deepEqual(ws.manager.fileStates.get("notes/b.md")?.otherOpens.map(o => o.user), ["bob"]);
+
+        // Bob's lock keeps the file from being opened
+        await assert.rejects(ws.manager.edit("notes/a.md"), /exclusive file already opened/);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("shelve and unshelve a changelist", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        const change = await ws.manager.createChangelist("Shelved work");
+        await ws.manager.edit("notes/a.md");
+        await ws.manager.moveToChangelist("notes/a.md", change);
+        ws.writeLocal("notes/a.md", "shelved content\n");
+
+        await ws.manager.shelve(change);
+        await ws.manager.revertChangelist(change);
+        assert.equal(ws.readLocal("notes/a.md"), "first\nsecond\n");
+
+        await ws.manager.unshelve(change, "default");
+        assert.equal(ws.readLocal("notes/a.md"), "shelved content\n");
+        const opened = await ws.manager.getOpenedFiles();
+        assert.deepEqual(opened.map(f => [f.vaultPath, f.changelist]), [["notes/a.md", "default"]]);
+
+        await ws.manager.deleteShelve(change);
+        assert.equal(ws.readState().changes.find(c => c.change === change)?.shelved, undefined);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("shelves of other users are listed, filtered and previewed before unshelving", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        changes: [
+            ...fixture.changes!,
+            {
+                change: 3, status: "pending", user: "bob", client: "bob-ws", desc: "Buzz\n", time: NOW,
+                shelved: {
+                    "//depot/vault/notes/b.md": { action: "edit", content: "bee\nbuzz\n" },
+                    "//depot/vault/notes/c.md": { action: "add", content: "new\n" },
+                    "//depot/other/x.md": { action: "add", content: "elsewhere\n" },
+                },
+            },
+        ],
+    });
+    try {
+        assert.deepEqual((await ws.manager.getShelves()).map(s => [s.change, s.user, s.client, s.description]), [[3, "bob", "bob-ws", "Buzz"]]);
+        assert.deepEqual((await ws.manager.getShelves({ user: "bob", path: "notes" })).map(s => s.change), [3]);
+        assert.deepEqual((await ws.manager.getShelves({ path: "notes/b.md" })).map(s => s.change), [3]);
+        assert.deepEqual(await ws.manager.getShelves({ client: "alice-vault" }), []);
+        assert.deepEqual(await ws.manager.getShelves({ path: "notes/a.md" }), []);
+
+        const files = await ws.manager.getShelvedFiles(3);
+        assert.deepEqual(files.map(f => [f.vaultPath, f.action, f.haveRev]), [
+            ["notes/b.md", "edit", 1],
+            ["notes/c.md", "add", 0],
+            [null, "add", 0],
+        ]);
+        assert.deepEqual(await ws.manager.getShelvedFileDiff(3, files[0]!), {
+            depotFile: "//depot/vault/notes/b.md",
+            localFile: "notes/b.md",
+            depotContent: "bee\n",
+            localContent: "bee\nbuzz\n",
+        });
+
+        await ws.manager.edit("notes/b.md");
+        assert.deepEqual(ws.manager.getUnshelveConflicts(files).map(c => [c.file.depotFile, c.kind]), [
+            ["//depot/vault/notes/b.md", "opened"],
+            ["//depot/other/x.md", "not-in-vault"],
+        ]);
+
+        await ws.manager.revert("notes/b.md");
+        await ws.manager.unshelve(3, "default");
+        assert.equal(ws.readLocal("notes/b.md"), "bee\nbuzz\n");
+        assert.equal(ws.readLocal("notes/c.md"), "new\n");
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("annotate numbers every line, including ones that look like annotate output", async () => {
+    const ws = await createFakeWorkspace({
+        ...fixture,
+        files: {
+            "//depot/vault/log.md": [
+                { change: 1, action: "add", content: "12: bob 2024/01/01 header\n\nbody\n" },
+                { change: 2, action: "edit", content: "12: bob 2024/01/01 header\n\nbody\n3: more\n" },
+            ],
+        },
+        have: { "//depot/vault/log.md": 2 },
+    });
+    try {
+        const blame = await ws.manager.annotate("log.md");
+        assert.deepEqual(
+            blame.lines.map(l => [l.lineNumber, l.changelist, l.user, l.content]),
+            [
+                [1, 1, "bob", "12: bob 2024/01/01 header"],
+                [2, 1, "bob", ""],
+                [3, 1, "bob", "body"],
+                [4, 2, "alice", "3: more"],
+            ],
+        );
+        assert.deepEqual(
+            blame.blocks.map(b => [b.startLine, b.endLine, b.lower, b.upper]),
+            [[1, 3, 1, 2], [4, 4, 2, 2]],
+        );
+        assert.match(blame.lines[0]?.date ?? "", /^\d{4}\/\d{2}\/\d{2}$/);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("identical in-flight commands share one process", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        const before = ws.readLog().length;
+        await Promise.all([ws.manager.loadFileStates(), ws.manager.loadFileStates(), ws.manager.loadFileStates()]);
+        assert.deepEqual(ws.readLog().slice(before).map(args => args[0]), ["fstat"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("commands for different connections don't share a process", async () => {
+    const ws = await createFakeWorkspace(fixture);
+    try {
+        const before = ws.readLog().length;
+        const first = ws.manager.loadFileStates();
+        ws.plugin.settings.p4User = "bob";
+        await Promise.all([first, ws.manager.loadFileStates()]);
+        assert.deepEqual(ws.readLog().slice(before).map(args => args[0]), ["fstat", "fstat"]);
+    } finally {
+        ws.cleanup();
+    }
+});
+
+test("sync streams progress and can be cancelled part way", async () => {
+    const files: FakeP4Fixture["files"] = {};
+    for (let i = 1; i <= 5; i++) {
+        files[`//depot/vault/bulk/${i}.md`] = [{ change: 1, action: "add", content: `file ${i}\n` }];
+    }
+    const ws = await createFakeWorkspace({ ...fixture, files, have: {}, syncDelay: 200 });
+    try {
+        const controller = new AbortController();
+        const progress: P4SyncProgress[] = [];
+        const result = await ws.manager.sync(undefined, {
+            signal: controller.signal,
+            onProgress: (p) => {
+                progress.push(p);
+                if (p.files === 2) controller.abort();
+            },
+        });
+
+        assert.equal(result.complete, false);
+        assert.deepEqual(result.files.map(f => f.vaultPath), ["bulk/1.md", "bulk/2.md"]);
+        assert.deepEqual(progress.map(p => [p.files, p.totalFiles, p.bytes, p.totalBytes]), [[1, 5, 7, 35], [2, 5, 14, 35]]);
+
+        ws.updateState(state => state.syncDelay = 0);
+        const rest = await ws.manager.sync();
+        assert.equal(rest.complete, true);
+        assert.deepEqual(rest.errors, []);
+        assert.equal(ws.readLocal("bulk/5.md"), "file 5\n");
+    } finally {
+        ws.cleanup();
+    }
+});
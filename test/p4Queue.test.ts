@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { P4CommandQueue } from "../src/p4Queue";
+
+test("queued interactive commands start before background ones", async () => {
+    const queue = new P4CommandQueue(1);
+    const order: string[] = [];
+    let release = (): void => {};
+    const blocker = queue.run(() => new Promise<void>(resolve => release = resolve), "interactive");
+
+    const record = (name: string) => (): Promise<void> => {
+        order.push(name);
+        return Promise.resolve();
+    };
+    const background = queue.run(record("refresh"), "background");
+    const interactive = queue.run(record("checkout"), "interactive");
+    assert.deepEqual(queue.getState(), { running: 1, queued: 2 });
+
+    release();
+    await Promise.all([blocker, background, interactive]);
+    assert.deepEqual(order, ["checkout", "refresh"]);
+});
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeWorkspace } from "./helpers/fakeWorkspace";
+import { DEFAULT_SETTINGS } from "../src/constants";
+import { describeRevision, setPinnedRevision, toRevisionSpec } from "../src/revisionSpec";
+import type { P4PluginSettings } from "../src/types";
+
+test("revision input is turned into p4 revision specifiers", () => {
+    assert.equal(toRevisionSpec("change", " 1234 "), "@1234");
+    assert.equal(toRevisionSpec("change", "@1234"), "@1234");
+    assert.equal(toRevisionSpec("change", "12a"), null);
+    assert.equal(toRevisionSpec("label", "release-1.0"), "@release-1.0");
+    assert.equal(toRevisionSpec("label", "42"), null);
+    assert.equal(toRevisionSpec("label", "has space"), null);
+    assert.equal(toRevisionSpec("date", "2024-1-5"), "@2024/01/05");
+    assert.equal(toRevisionSpec("date", "2024/01/15 9:30"), "@2024/01/15:09:30:00");
+    assert.equal(toRevisionSpec("date", "2024/02/30"), null);
+    assert.equal(toRevisionSpec("rev", "#3"), "#3");
+
+    assert.equal(describeRevision("@1234"), "change 1234");
+    assert.equal(describeRevision("@release-1.0"), "label release-1.0");
+    assert.equal(describeRevision("@2024/01/15"), "2024/01/15");
+    assert.equal(describeRevision("#3"), "revision #3");
+    assert.equal(describeRevision("#head"), "head");
+});
+
+test("pinning a folder replaces the pins below it, head clears them", () => {
+    const settings: P4PluginSettings = { ...DEFAULT_SETTINGS, pinnedRevisions: {} };
+    setPinnedRevision(settings, "notes/a.md", "#1");
+    setPinnedRevision(settings, "notes-old/b.md", "@3");
+    setPinnedRevision(settings, "notes", "@5");
+    assert.deepEqual(settings.pinnedRevisions, { "notes-old/b.md": "@3", notes: "@5" });
+
+    setPinnedRevision(settings, "notes", "#head");
+    assert.deepEqual(settings.pinnedRevisions, { "notes-old/b.md": "@3" });
+    setPinnedRevision(settings, "", "#head");
+    assert.deepEqual(settings.pinnedRevisions, {});
+});
+
+test("sync a folder or note to a change, date or revision and back to head", async () => {
+    const ws = await createFakeWorkspace({
+        files: {
+            "//depot/vault/notes/a.md": [
+                { change: 1, action: "add", content: "one\n" },
+                { change: 2, action: "edit", content: "two\n" },
+            ],
+            "//depot/vault/notes/b.md": [
+                { change: 2, action: "add", content: "bee\n" },
+            ],
+        },
+        have: {
+            "//depot/vault/notes/a.md": 2,
+            "//depot/vault/notes/b.md": 1,
+        },
+        changes: [
+            { change: 1, status: "submitted", user: "bob", client: "bob-ws", desc: "One\n", time: new Date(2024, 0, 10).getTime() / 1000 },
+            { change: 2, status: "submitted", user: "bob", client: "bob-ws", desc: "Two\n", time: new Date(2024, 0, 20).getTime() / 1000 },
+        ],
+    });
+    try {
+        const result = await ws.manager.syncFolder("notes", { revision: "@1" });
+        assert.deepEqual(result.files.map(f => [f.vaultPath, f.action, f.rev]).sort(), [["notes/a.md", "updated", 1], ["notes/b.md", "deleted", 0]]);
+        assert.equal(ws.readLocal("notes/a.md"), "one\n");
+
+        await ws.manager.syncFolder("notes", { revision: "@2024/01/15" });
+        assert.equal(ws.readLocal("notes/a.md"), "one\n");
+
+        await ws.manager.sync("notes/a.md", { revision: "#head" });
+        assert.equal(ws.readLocal("notes/a.md"), "two\n");
+        await ws.manager.sync("notes/a.md", { revision: "#1" });
+        assert.equal(ws.readLocal("notes/a.md"), "one\n");
+
+        await ws.manager.sync();
+        assert.equal(ws.readLocal("notes/a.md"), "two\n");
+        assert.equal(ws.readLocal("notes/b.md"), "bee\n");
+    } finally {
+        ws.cleanup();
+    }
+});
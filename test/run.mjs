@@ -0,0 +1,50 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { chmodSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import process from "process";
+import { fileURLToPath } from "url";
+
+// Bundles the tests and the fake p4 executable with esbuild, then runs them with node --test.
+// "obsidian" only ships type declarations, so it is aliased to a small runtime stub.
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const outDir = path.join(testDir, "..", ".test-build");
+
+const findTests = (dir) => readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+	const full = path.join(dir, entry.name);
+	if (entry.isDirectory()) return findTests(full);
+	return entry.name.endsWith(".test.ts") ? [full] : [];
+});
+
+const tests = findTests(testDir);
+
+rmSync(outDir, { recursive: true, force: true });
+
+await esbuild.build({
+	entryPoints: [...tests, path.join(testDir, "fakeP4", "fakeP4.ts")],
+	outbase: testDir,
+	outdir: outDir,
+	outExtension: { ".js": ".mjs" },
+	bundle: true,
+	platform: "node",
+	format: "esm",
+	target: "node18",
+	sourcemap: "inline",
+	alias: { obsidian: path.join(testDir, "stubs", "obsidian.ts") },
+	logLevel: "warning",
+});
+
+// The plugin expects an executable named p4
+const binDir = path.join(outDir, "bin");
+mkdirSync(binDir, { recursive: true });
+const p4Path = path.join(binDir, "p4");
+writeFileSync(p4Path, `#!/bin/sh\nexec "${process.execPath}" "${path.join(outDir, "fakeP4", "fakeP4.mjs")}" "$@"\n`);
+chmodSync(p4Path, 0o755);
+
+const outputs = tests.map((file) => path.join(outDir, path.relative(testDir, file)).replace(/\.ts$/, ".mjs"));
+const result = spawnSync(process.execPath, ["--test", ...outputs], {
+	stdio: "inherit",
+	env: { ...process.env, FAKE_P4_PATH: p4Path },
+});
+process.exit(result.status ?? 1);
@@ -0,0 +1,34 @@
+import { readFile, writeFile } from "fs/promises";
+import * as path from "path";
+
+/**
+ * Minimal runtime stand-in for the parts of the obsidian API used outside the UI.
+ * The test build aliases "obsidian" to this module.
+ */
+
+export class FileSystemAdapter {
+    private basePath: string;
+
+    constructor(basePath: string) {
+        this.basePath = basePath;
+    }
+
+    getBasePath(): string {
+        return this.basePath;
+    }
+
+    async read(normalizedPath: string): Promise<string> {
+        return readFile(path.join(this.basePath, normalizedPath), "utf8");
+    }
+
+    async write(normalizedPath: string, data: string): Promise<void> {
+        await writeFile(path.join(this.basePath, normalizedPath), data);
+    }
+}
+
+export function normalizePath(value: string): string {
+    return value
+        .replace(/\\/g, "/")
+        .replace(/\/+/g, "/")
+        .replace(/^\/|\/$/g, "") || "/";
+}
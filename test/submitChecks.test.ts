@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_SUBMIT_CHECKS, runSubmitChecks, type P4SubmitCheck, type P4SubmitCheckFile } from "../src/submitChecks";
+import { DEFAULT_SETTINGS } from "../src/constants";
+import type { P4PluginSettings } from "../src/types";
+
+/**
+ * A submitted note with no problems unless overridden
+ */
+function note(vaultPath: string, fields: Partial<P4SubmitCheckFile> = {}): P4SubmitCheckFile {
+    return { vaultPath, action: "edit", content: "text\n", size: 5, frontmatter: { status: "done" }, links: [], ...fields };
+}
+
+/**
+ * Run the default checks and return the issues as [check, severity, path, line] tuples
+ */
+function check(files: P4SubmitCheckFile[], settings: Partial<P4PluginSettings> = {}, inDepot: string[] = []): unknown[][] {
+    const issues = runSubmitChecks(DEFAULT_SUBMIT_CHECKS, files, {
+        settings: { ...DEFAULT_SETTINGS, ...settings },
+        submitted: new Set(files.map(f => f.vaultPath)),
+        isInDepot: vaultPath => inDepot.includes(vaultPath),
+    });
+    return issues.map(i => [i.check, i.severity, i.vaultPath, i.line]);
+}
+
+test("each default check reports its problems", () => {
+    assert.deepEqual(check([note("a.md")], { requiredFrontmatter: "status" }), []);
+
+    assert.deepEqual(check([
+        note("links.md", {
+            links: [
+                { link: "Missing", line: 3, target: null, embed: false },
+                { link: "image.png", line: 4, target: "image.png", embed: true },
+                { link: "diagram.png", line: 5, target: "diagram.png", embed: true },
+                { link: "image.png", line: 6, target: "image.png", embed: false },
+                { link: "b", line: 7, target: "b.md", embed: false },
+            ],
+        }),
+        note("conflict.md", { content: "start\n<<<<<<< ours\nmine\n=======\ntheirs\n>>>>>>> theirs\n", frontmatter: null }),
+        note("big.pdf", { size: 11 * 1024 * 1024, content: null, frontmatter: null }),
+    ], { requiredFrontmatter: "status" }, ["diagram.png"]), [
+        ["broken-links", "warning", "links.md", 3],
+        ["required-frontmatter", "error", "conflict.md", 1],
+        ["file-size", "error", "big.pdf", undefined],
+        ["conflict-markers", "error", "conflict.md", 2],
+        ["conflict-markers", "error", "conflict.md", 4],
+        ["conflict-markers", "error", "conflict.md", 6],
+        // Reported once, the attachment in the depot is fine
+        ["unadded-attachments", "error", "links.md", 4],
+    ]);
+});
+
+test("a setext heading underline is not a conflict marker", () => {
+    assert.deepEqual(check([note("a.md", { content: "Summary\n=======\n\nText\n" })]), []);
+    // Only the start marker counts when no end marker follows
+    assert.deepEqual(check([note("b.md", { content: "Summary\n=======\n<<<<<<< ours\nmine\n" })]), [["conflict-markers", "error", "b.md", 3]]);
+});
+
+test("attachments in the same submit and deleted notes pass", () => {
+    const links = [{ link: "image.png", line: 2, target: "image.png", embed: true }];
+    assert.deepEqual(check([note("a.md", { links }), note("image.png", { action: "add", content: null, frontmatter: null })]), []);
+    assert.deepEqual(check([note("gone.md", { action: "delete", content: null, frontmatter: null, links })], { requiredFrontmatter: "status" }), []);
+});
+
+test("check levels come from the settings and failing checks become warnings", () => {
+    const file = note("a.md", { content: "<<<<<<< ours\n", links: [{ link: "Missing", line: 1, target: null, embed: false }] });
+    assert.deepEqual(check([file], { submitChecks: { "broken-links": "error", "conflict-markers": "off" } }), [
+        ["broken-links", "error", "a.md", 1],
+    ]);
+
+    const failing: P4SubmitCheck = {
+        id: "failing",
+        name: "Failing",
+        defaultLevel: "error",
+        check: () => { throw new Error("boom"); },
+    };
+    const issues = runSubmitChecks([failing], [note("a.md")], { settings: DEFAULT_SETTINGS, submitted: new Set(), isInDepot: () => true });
+    assert.deepEqual(issues.map(i => [i.severity, i.message]), [["warning", "Failing failed: boom"]]);
+});